@@ -0,0 +1,158 @@
+import * as SQLite from 'expo-sqlite'
+
+/**
+ * Local SQLite database for the offline-first mobile app
+ *
+ * Tables mirror the Supabase tables used during gameplay (packs, players,
+ * user_progress, game_sessions). JSONB columns are stored as JSON text.
+ * The outbox holds writes made while playing until they are uploaded.
+ */
+
+const DATABASE_NAME = 'football-iq.db'
+
+// Each entry upgrades the schema by one version (PRAGMA user_version)
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE IF NOT EXISTS packs (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    slug TEXT NOT NULL UNIQUE,
+    price REAL,
+    difficulty_range TEXT,
+    question_count INTEGER NOT NULL DEFAULT 0,
+    is_free INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS players (
+    id TEXT PRIMARY KEY NOT NULL,
+    pack_id TEXT NOT NULL REFERENCES packs(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    full_name TEXT,
+    nationality TEXT NOT NULL,
+    position TEXT,
+    career_path TEXT NOT NULL,
+    aliases TEXT NOT NULL DEFAULT '[]',
+    hints TEXT,
+    difficulty INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_players_pack_id ON players(pack_id);
+
+  CREATE TABLE IF NOT EXISTS user_progress (
+    id TEXT,
+    user_id TEXT NOT NULL,
+    player_id TEXT NOT NULL,
+    game_mode TEXT NOT NULL,
+    answered_correctly INTEGER NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    score_earned INTEGER NOT NULL DEFAULT 0,
+    completed_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, player_id, game_mode)
+  );
+
+  CREATE TABLE IF NOT EXISTS game_sessions (
+    id TEXT,
+    user_id TEXT NOT NULL,
+    pack_id TEXT NOT NULL,
+    game_mode TEXT NOT NULL,
+    current_question_index INTEGER NOT NULL DEFAULT 0,
+    score INTEGER NOT NULL DEFAULT 0,
+    session_state TEXT,
+    started_at TEXT NOT NULL,
+    last_activity_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, pack_id, game_mode)
+  );
+
+  CREATE TABLE IF NOT EXISTS outbox (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sync_meta (
+    key TEXT PRIMARY KEY NOT NULL,
+    value TEXT
+  );
+  `,
+  // Entries the server rejected permanently are kept for inspection, not retried
+  `
+  ALTER TABLE outbox ADD COLUMN rejected INTEGER NOT NULL DEFAULT 0;
+  `,
+  // Hints used per answer, for the "no hints" achievements
+  `
+  ALTER TABLE user_progress ADD COLUMN hints_used INTEGER NOT NULL DEFAULT 0;
+  `,
+  // Answers are no longer downloaded, only their hashes, so players are
+  // rebuilt and fetched again in full on the next sync
+  `
+  DROP TABLE players;
+
+  CREATE TABLE players (
+    id TEXT PRIMARY KEY NOT NULL,
+    pack_id TEXT NOT NULL REFERENCES packs(id) ON DELETE CASCADE,
+    nationality TEXT NOT NULL,
+    position TEXT,
+    career_path TEXT NOT NULL,
+    hints TEXT,
+    difficulty INTEGER NOT NULL,
+    answer_hashes TEXT NOT NULL DEFAULT '[]',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_players_pack_id ON players(pack_id);
+
+  DELETE FROM sync_meta WHERE key = 'content_cursor:players';
+  `,
+  // The difficulty range is a min/max pair derived on the server, and the
+  // store product id is needed to buy a pack. Packs are fetched again in full
+  `
+  ALTER TABLE packs DROP COLUMN difficulty_range;
+  ALTER TABLE packs ADD COLUMN difficulty_min INTEGER;
+  ALTER TABLE packs ADD COLUMN difficulty_max INTEGER;
+  ALTER TABLE packs ADD COLUMN store_product_id TEXT;
+
+  DELETE FROM sync_meta WHERE key = 'content_cursor:packs';
+  `,
+]
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null
+
+/**
+ * Opens the local database, applying any pending schema migrations
+ * The connection is shared for the lifetime of the app
+ */
+export function getLocalDatabase(): Promise<SQLite.SQLiteDatabase> {
+  if (!databasePromise) {
+    databasePromise = openDatabase().catch(error => {
+      databasePromise = null
+      throw error
+    })
+  }
+  return databasePromise
+}
+
+async function openDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME)
+  await db.execAsync('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;')
+
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version')
+  const currentVersion = row?.user_version ?? 0
+
+  for (let version = currentVersion; version < MIGRATIONS.length; version++) {
+    await db.withTransactionAsync(async () => {
+      await db.execAsync(MIGRATIONS[version])
+      await db.execAsync(`PRAGMA user_version = ${version + 1}`)
+    })
+  }
+
+  return db
+}
@@ -0,0 +1,648 @@
+import { getLocalDatabase } from './client'
+import { parseCareerPath } from '@football-iq/database'
+import type {
+  GameMode,
+  GameSession,
+  Json,
+  Pack,
+  PackWithPlayers,
+  PlayerContent,
+  UserProgress,
+} from '@football-iq/database'
+
+/**
+ * Local store for offline-first gameplay
+ *
+ * - Content (packs, players) is written here by the sync and read during play
+ * - Progress and sessions are written here first, and queued in the outbox
+ * - The outbox is drained by the sync once the device is online
+ */
+
+// The server stamps the pack a result counts towards (pack_id) itself
+export type UserProgressUpload = Omit<UserProgress, 'id' | 'pack_id'>
+
+export type GameSessionUpload = Omit<GameSession, 'id'>
+
+/**
+ * A guess waiting to be graded by the server (submit_answer)
+ * Every guess is queued, wrong ones included: the server counts them
+ */
+export interface AnswerUpload {
+  user_id: string
+  player_id: string
+  game_mode: GameMode
+  /** The guess, null when the question was skipped */
+  guess: string | null
+  answered_at: string
+}
+
+/**
+ * Clues shown for a question, waiting to be recorded by the server
+ * (reveal_clues). Queued as each club or hint is shown, ahead of the next guess
+ */
+export interface ClueUpload {
+  user_id: string
+  player_id: string
+  game_mode: GameMode
+  /** Clubs shown so far, including the first one */
+  clubs_revealed: number
+  hints_used: number
+}
+
+export type OutboxPayload =
+  | { kind: 'answer'; payload: AnswerUpload }
+  | { kind: 'clues'; payload: ClueUpload }
+  // Progress scored on the device by older app versions, no longer accepted by the server
+  | { kind: 'user_progress'; payload: UserProgressUpload }
+  | { kind: 'game_session'; payload: GameSessionUpload }
+  | {
+      kind: 'game_session_delete'
+      payload: Pick<GameSession, 'user_id' | 'pack_id' | 'game_mode'>
+    }
+
+export type OutboxEntry = OutboxPayload & {
+  id: number
+  attempts: number
+  last_error: string | null
+  created_at: string
+}
+
+interface PackRow extends Omit<Pack, 'is_free'> {
+  is_free: number
+}
+
+interface PlayerRow extends Omit<PlayerContent, 'career_path' | 'hints' | 'answer_hashes'> {
+  career_path: string
+  hints: string | null
+  answer_hashes: string
+}
+
+interface ProgressRow extends Omit<UserProgress, 'id' | 'answered_correctly' | 'pack_id'> {
+  id: string | null
+  answered_correctly: number
+}
+
+interface SessionRow extends Omit<GameSession, 'id' | 'session_state'> {
+  id: string | null
+  session_state: string | null
+}
+
+interface OutboxRow {
+  id: number
+  kind: OutboxEntry['kind']
+  payload: string
+  attempts: number
+  last_error: string | null
+  created_at: string
+}
+
+// =============================================================================
+// CONTENT
+// =============================================================================
+
+/**
+ * Stores packs downloaded from the server, updating existing rows in place
+ * (INSERT OR REPLACE would delete the pack first and cascade to its players)
+ */
+export async function saveLocalPacks(packs: Pack[]): Promise<void> {
+  if (packs.length === 0) return
+  const db = await getLocalDatabase()
+
+  await db.withTransactionAsync(async () => {
+    for (const pack of packs) {
+      await db.runAsync(
+        `INSERT INTO packs
+          (id, name, description, slug, price, difficulty_min, difficulty_max, question_count,
+           is_free, store_product_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name,
+           description = excluded.description,
+           slug = excluded.slug,
+           price = excluded.price,
+           difficulty_min = excluded.difficulty_min,
+           difficulty_max = excluded.difficulty_max,
+           question_count = excluded.question_count,
+           is_free = excluded.is_free,
+           store_product_id = excluded.store_product_id,
+           updated_at = excluded.updated_at`,
+        [
+          pack.id,
+          pack.name,
+          pack.description,
+          pack.slug,
+          pack.price,
+          pack.difficulty_min,
+          pack.difficulty_max,
+          pack.question_count,
+          pack.is_free ? 1 : 0,
+          pack.store_product_id,
+          pack.created_at,
+          pack.updated_at,
+        ]
+      )
+    }
+  })
+}
+
+/**
+ * Stores players downloaded from the server, updating existing rows in place
+ */
+export async function saveLocalPlayers(players: PlayerContent[]): Promise<void> {
+  if (players.length === 0) return
+  const db = await getLocalDatabase()
+
+  await db.withTransactionAsync(async () => {
+    for (const player of players) {
+      await db.runAsync(
+        `INSERT INTO players
+          (id, pack_id, nationality, position, career_path, hints, difficulty, answer_hashes, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           pack_id = excluded.pack_id,
+           nationality = excluded.nationality,
+           position = excluded.position,
+           career_path = excluded.career_path,
+           hints = excluded.hints,
+           difficulty = excluded.difficulty,
+           answer_hashes = excluded.answer_hashes,
+           updated_at = excluded.updated_at`,
+        [
+          player.id,
+          player.pack_id,
+          player.nationality,
+          player.position,
+          JSON.stringify(player.career_path),
+          player.hints === null ? null : JSON.stringify(player.hints),
+          player.difficulty,
+          JSON.stringify(player.answer_hashes ?? []),
+          player.created_at,
+          player.updated_at,
+        ]
+      )
+    }
+  })
+}
+
+/**
+ * Removes packs deleted on the server (their players cascade)
+ */
+export async function deleteLocalPacks(ids: string[]): Promise<void> {
+  if (ids.length === 0) return
+  const db = await getLocalDatabase()
+  await db.runAsync(`DELETE FROM packs WHERE id IN (${ids.map(() => '?').join(', ')})`, ids)
+}
+
+/**
+ * Removes the players of packs the user can no longer play (refunded or revoked)
+ */
+export async function deleteLocalPackPlayers(packIds: string[]): Promise<void> {
+  if (packIds.length === 0) return
+  const db = await getLocalDatabase()
+  await db.runAsync(
+    `DELETE FROM players WHERE pack_id IN (${packIds.map(() => '?').join(', ')})`,
+    packIds
+  )
+}
+
+/**
+ * Removes players deleted on the server
+ */
+export async function deleteLocalPlayers(ids: string[]): Promise<void> {
+  if (ids.length === 0) return
+  const db = await getLocalDatabase()
+  await db.runAsync(`DELETE FROM players WHERE id IN (${ids.map(() => '?').join(', ')})`, ids)
+}
+
+/**
+ * Gets all locally stored packs
+ */
+export async function getLocalPacks(): Promise<Pack[]> {
+  const db = await getLocalDatabase()
+  const rows = await db.getAllAsync<PackRow>('SELECT * FROM packs ORDER BY created_at ASC')
+  return rows.map(toPack)
+}
+
+/**
+ * Gets a locally stored pack with its players, in the same shape and order
+ * as getPackWithPlayers returns from the server
+ */
+export async function getLocalPackWithPlayers(slug: string): Promise<PackWithPlayers | null> {
+  const db = await getLocalDatabase()
+
+  const pack = await db.getFirstAsync<PackRow>('SELECT * FROM packs WHERE slug = ?', [slug])
+  if (!pack) return null
+
+  const players = await db.getAllAsync<PlayerRow>(
+    'SELECT * FROM players WHERE pack_id = ? ORDER BY difficulty ASC, id ASC',
+    [pack.id]
+  )
+
+  return {
+    ...toPack(pack),
+    players: players.map(row => {
+      const careerPath = JSON.parse(row.career_path) as string[]
+      return {
+        ...row,
+        career_path: careerPath,
+        career_stints: parseCareerPath(careerPath).stints,
+        hints: row.hints ? JSON.parse(row.hints) : undefined,
+        answer_hashes: JSON.parse(row.answer_hashes) as string[],
+      }
+    }),
+  }
+}
+
+// =============================================================================
+// USER PROGRESS
+// =============================================================================
+
+/**
+ * Records a finished question locally and queues its last guess for grading
+ * The local result is the device's own grading, shown while offline; the
+ * server's result replaces it on the next full sync. The device keeps its
+ * better result for the question (compareProgress in @football-iq/database
+ * has the rule), but every answer is queued
+ */
+export async function recordLocalAnswer(
+  answer: AnswerUpload,
+  result: Pick<UserProgress, 'answered_correctly' | 'attempts' | 'score_earned' | 'hints_used'>
+): Promise<UserProgressUpload> {
+  const db = await getLocalDatabase()
+  const progress: UserProgressUpload = {
+    user_id: answer.user_id,
+    player_id: answer.player_id,
+    game_mode: answer.game_mode,
+    answered_correctly: result.answered_correctly,
+    attempts: result.attempts,
+    score_earned: result.score_earned,
+    hints_used: result.hints_used,
+    completed_at: answer.answered_at,
+  }
+
+  await db.withTransactionAsync(async () => {
+    await upsertProgressRow(progress)
+    await enqueue({ kind: 'answer', payload: answer })
+  })
+
+  return progress
+}
+
+/**
+ * Queues a guess that leaves the question open (a wrong guess with guesses
+ * to spare) for grading
+ */
+export async function queueGuess(answer: AnswerUpload): Promise<void> {
+  await enqueue({ kind: 'answer', payload: answer })
+}
+
+/**
+ * Queues the clues shown so far for a question, for the server to record
+ * before the next guess is graded
+ */
+export async function queueClues(clues: ClueUpload): Promise<void> {
+  await enqueue({ kind: 'clues', payload: clues })
+}
+
+/**
+ * Stores progress downloaded from the server without queueing it for upload,
+ * replacing the local copy. Callers decide which records win (see
+ * mergeProgress in @football-iq/database).
+ */
+export async function saveServerProgress(progress: UserProgress[]): Promise<void> {
+  if (progress.length === 0) return
+  const db = await getLocalDatabase()
+
+  await db.withTransactionAsync(async () => {
+    for (const p of progress) {
+      await db.runAsync(
+        `INSERT INTO user_progress
+          (id, user_id, player_id, game_mode, answered_correctly, attempts, score_earned, hints_used, completed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (user_id, player_id, game_mode) DO UPDATE SET
+           id = excluded.id,
+           answered_correctly = excluded.answered_correctly,
+           attempts = excluded.attempts,
+           score_earned = excluded.score_earned,
+           hints_used = excluded.hints_used,
+           completed_at = excluded.completed_at`,
+        [
+          p.id,
+          p.user_id,
+          p.player_id,
+          p.game_mode,
+          p.answered_correctly ? 1 : 0,
+          p.attempts,
+          p.score_earned,
+          p.hints_used,
+          p.completed_at,
+        ]
+      )
+    }
+  })
+}
+
+/**
+ * Gets all locally stored progress for a user
+ */
+export async function getLocalProgress(userId: string): Promise<UserProgress[]> {
+  const db = await getLocalDatabase()
+  const rows = await db.getAllAsync<ProgressRow>(
+    'SELECT * FROM user_progress WHERE user_id = ?',
+    [userId]
+  )
+  return rows.map(toProgress)
+}
+
+// =============================================================================
+// GAME SESSIONS
+// =============================================================================
+
+/**
+ * Creates or updates a game session locally and queues it for upload
+ */
+export async function saveLocalGameSession(
+  userId: string,
+  packId: string,
+  gameMode: GameMode,
+  currentQuestionIndex: number,
+  score: number,
+  sessionState?: Json
+): Promise<GameSessionUpload> {
+  const db = await getLocalDatabase()
+  const now = new Date().toISOString()
+
+  const existing = await db.getFirstAsync<Pick<SessionRow, 'started_at'>>(
+    'SELECT started_at FROM game_sessions WHERE user_id = ? AND pack_id = ? AND game_mode = ?',
+    [userId, packId, gameMode]
+  )
+
+  const session: GameSessionUpload = {
+    user_id: userId,
+    pack_id: packId,
+    game_mode: gameMode,
+    current_question_index: currentQuestionIndex,
+    score,
+    session_state: sessionState ?? null,
+    started_at: existing?.started_at ?? now,
+    last_activity_at: now,
+  }
+
+  await db.withTransactionAsync(async () => {
+    await db.runAsync(
+      `INSERT INTO game_sessions
+        (user_id, pack_id, game_mode, current_question_index, score, session_state, started_at, last_activity_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (user_id, pack_id, game_mode) DO UPDATE SET
+         current_question_index = excluded.current_question_index,
+         score = excluded.score,
+         session_state = excluded.session_state,
+         last_activity_at = excluded.last_activity_at`,
+      [
+        session.user_id,
+        session.pack_id,
+        session.game_mode,
+        session.current_question_index,
+        session.score,
+        session.session_state === null ? null : JSON.stringify(session.session_state),
+        session.started_at,
+        session.last_activity_at,
+      ]
+    )
+    await enqueue({ kind: 'game_session', payload: session })
+  })
+
+  return session
+}
+
+/**
+ * Gets a user's local game session for a pack and mode
+ */
+export async function getLocalGameSession(
+  userId: string,
+  packId: string,
+  gameMode: GameMode
+): Promise<GameSessionUpload | null> {
+  const db = await getLocalDatabase()
+  const row = await db.getFirstAsync<SessionRow>(
+    'SELECT * FROM game_sessions WHERE user_id = ? AND pack_id = ? AND game_mode = ?',
+    [userId, packId, gameMode]
+  )
+  if (!row) return null
+
+  const { id: _id, ...session } = row
+  return {
+    ...session,
+    session_state: row.session_state ? (JSON.parse(row.session_state) as Json) : null,
+  }
+}
+
+/**
+ * Deletes a local game session (when completed) and queues the delete for upload
+ */
+export async function deleteLocalGameSession(
+  userId: string,
+  packId: string,
+  gameMode: GameMode
+): Promise<void> {
+  const db = await getLocalDatabase()
+
+  await db.withTransactionAsync(async () => {
+    await db.runAsync(
+      'DELETE FROM game_sessions WHERE user_id = ? AND pack_id = ? AND game_mode = ?',
+      [userId, packId, gameMode]
+    )
+    await enqueue({
+      kind: 'game_session_delete',
+      payload: { user_id: userId, pack_id: packId, game_mode: gameMode },
+    })
+  })
+}
+
+// =============================================================================
+// OUTBOX
+// =============================================================================
+
+/**
+ * Gets pending uploads, oldest first (rejected entries are skipped)
+ */
+export async function getPendingUploads(limit: number = 100): Promise<OutboxEntry[]> {
+  const db = await getLocalDatabase()
+  const rows = await db.getAllAsync<OutboxRow>(
+    'SELECT * FROM outbox WHERE rejected = 0 ORDER BY id ASC LIMIT ?',
+    [limit]
+  )
+  return rows.map(
+    row =>
+      ({
+        id: row.id,
+        kind: row.kind,
+        payload: JSON.parse(row.payload),
+        attempts: row.attempts,
+        last_error: row.last_error,
+        created_at: row.created_at,
+      }) as OutboxEntry
+  )
+}
+
+/**
+ * Gets the answers still waiting to be submitted, oldest first
+ */
+export async function getQueuedAnswers(): Promise<AnswerUpload[]> {
+  const db = await getLocalDatabase()
+  const rows = await db.getAllAsync<{ payload: string }>(
+    "SELECT payload FROM outbox WHERE kind = 'answer' AND rejected = 0 ORDER BY id ASC"
+  )
+  return rows.map(row => JSON.parse(row.payload) as AnswerUpload)
+}
+
+/**
+ * Counts uploads still waiting in the outbox
+ */
+export async function countPendingUploads(): Promise<number> {
+  const db = await getLocalDatabase()
+  const row = await db.getFirstAsync<{ count: number }>(
+    'SELECT COUNT(*) AS count FROM outbox WHERE rejected = 0'
+  )
+  return row?.count ?? 0
+}
+
+/**
+ * Counts uploads the server rejected permanently
+ */
+export async function countRejectedUploads(): Promise<number> {
+  const db = await getLocalDatabase()
+  const row = await db.getFirstAsync<{ count: number }>(
+    'SELECT COUNT(*) AS count FROM outbox WHERE rejected = 1'
+  )
+  return row?.count ?? 0
+}
+
+/**
+ * Removes uploaded entries from the outbox
+ */
+export async function markUploaded(ids: number[]): Promise<void> {
+  if (ids.length === 0) return
+  const db = await getLocalDatabase()
+  await db.runAsync(
+    `DELETE FROM outbox WHERE id IN (${ids.map(() => '?').join(', ')})`,
+    ids
+  )
+}
+
+/**
+ * Records a failed upload attempt, keeping the entry for a later retry
+ */
+export async function markUploadFailed(ids: number[], error: string): Promise<void> {
+  if (ids.length === 0) return
+  const db = await getLocalDatabase()
+  await db.runAsync(
+    `UPDATE outbox SET attempts = attempts + 1, last_error = ?
+     WHERE id IN (${ids.map(() => '?').join(', ')})`,
+    [error, ...ids]
+  )
+}
+
+/**
+ * Marks entries the server rejected permanently, so they are no longer retried
+ */
+export async function markUploadRejected(ids: number[], error: string): Promise<void> {
+  if (ids.length === 0) return
+  const db = await getLocalDatabase()
+  await db.runAsync(
+    `UPDATE outbox SET attempts = attempts + 1, last_error = ?, rejected = 1
+     WHERE id IN (${ids.map(() => '?').join(', ')})`,
+    [error, ...ids]
+  )
+}
+
+// =============================================================================
+// SYNC METADATA
+// =============================================================================
+
+/**
+ * Reads a sync metadata value, e.g. the time of the last successful sync
+ */
+export async function getSyncMeta(key: string): Promise<string | null> {
+  const db = await getLocalDatabase()
+  const row = await db.getFirstAsync<{ value: string | null }>(
+    'SELECT value FROM sync_meta WHERE key = ?',
+    [key]
+  )
+  return row?.value ?? null
+}
+
+/**
+ * Writes a sync metadata value
+ */
+export async function setSyncMeta(key: string, value: string | null): Promise<void> {
+  const db = await getLocalDatabase()
+  await db.runAsync('INSERT OR REPLACE INTO sync_meta (key, value) VALUES (?, ?)', [key, value])
+}
+
+/**
+ * Counts locally stored content
+ */
+export async function countLocalContent(): Promise<{ packs: number; players: number }> {
+  const db = await getLocalDatabase()
+  const packs = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) AS count FROM packs')
+  const players = await db.getFirstAsync<{ count: number }>(
+    'SELECT COUNT(*) AS count FROM players'
+  )
+  return { packs: packs?.count ?? 0, players: players?.count ?? 0 }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+async function enqueue(entry: OutboxPayload): Promise<void> {
+  const db = await getLocalDatabase()
+  await db.runAsync('INSERT INTO outbox (kind, payload, created_at) VALUES (?, ?, ?)', [
+    entry.kind,
+    JSON.stringify(entry.payload),
+    new Date().toISOString(),
+  ])
+}
+
+// Only replaces the stored result with a better one, compared the way
+// compareProgress in @football-iq/database does
+async function upsertProgressRow(progress: UserProgressUpload): Promise<void> {
+  const db = await getLocalDatabase()
+  await db.runAsync(
+    `INSERT INTO user_progress
+      (user_id, player_id, game_mode, answered_correctly, attempts, score_earned, hints_used, completed_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (user_id, player_id, game_mode) DO UPDATE SET
+       answered_correctly = excluded.answered_correctly,
+       attempts = excluded.attempts,
+       score_earned = excluded.score_earned,
+       hints_used = excluded.hints_used,
+       completed_at = excluded.completed_at
+     WHERE (excluded.answered_correctly, excluded.score_earned, -excluded.attempts, excluded.completed_at)
+         > (user_progress.answered_correctly, user_progress.score_earned, -user_progress.attempts, user_progress.completed_at)`,
+    [
+      progress.user_id,
+      progress.player_id,
+      progress.game_mode,
+      progress.answered_correctly ? 1 : 0,
+      progress.attempts,
+      progress.score_earned,
+      progress.hints_used,
+      progress.completed_at,
+    ]
+  )
+}
+
+function toPack(row: PackRow): Pack {
+  return { ...row, is_free: row.is_free === 1 }
+}
+
+function toProgress(row: ProgressRow): UserProgress {
+  return {
+    ...row,
+    id: row.id ?? '',
+    answered_correctly: row.answered_correctly === 1,
+    pack_id: null,
+  }
+}
@@ -1,50 +1,258 @@
 import { supabase } from './client'
-import type { Pack, Player, UserProgress } from '@football-iq/database'
+import {
+  countLocalContent,
+  countPendingUploads,
+  countRejectedUploads,
+  deleteLocalPackPlayers,
+  deleteLocalPacks,
+  deleteLocalPlayers,
+  getLocalProgress,
+  getPendingUploads,
+  getQueuedAnswers,
+  getSyncMeta,
+  markUploaded,
+  markUploadFailed,
+  markUploadRejected,
+  saveLocalPacks,
+  saveLocalPlayers,
+  saveServerProgress,
+  setSyncMeta,
+  type AnswerUpload,
+  type ClueUpload,
+  type GameSessionUpload,
+  type OutboxEntry,
+  type UserProgressUpload,
+} from '../sqlite/store'
+import type { PostgrestError } from '@supabase/supabase-js'
+import {
+  classifySyncError,
+  createSyncEventEmitter,
+  createLiveLeaderboard,
+  errorMessage,
+  ForbiddenError,
+  MAX_ANSWER_BATCH_SIZE,
+  mergeProgress,
+  PLAYER_CONTENT_COLUMNS,
+  progressKey,
+  revealClues,
+  submitAnswer,
+  submitAnswers,
+  toDatabaseError,
+  unlockAchievements,
+  withRetry,
+  type ContentTombstone,
+  type LiveLeaderboard,
+  type LiveLeaderboardOptions,
+  type Pack,
+  type PlayerContent,
+  type ProgressMergeReport,
+  type QueuedAnswerEntry,
+  type RetryOptions,
+  type SyncEventListener,
+  type TypedSupabaseClient,
+  type UserAchievement,
+  type UserProgress,
+} from '@football-iq/database'
 
 /**
  * Offline-First Sync Architecture for Football IQ Mobile App
  *
  * Strategy:
  * - Content (packs, players) syncs FROM Supabase TO local SQLite (read-only)
- * - User data (progress, sessions) syncs FROM local SQLite TO Supabase (write-back)
+ * - Content sync is incremental: only rows changed since the last sync are fetched
+ * - User data (clues, answers, sessions) syncs FROM local SQLite TO Supabase (write-back)
+ * - Answers are graded by the server, scored from the clues recorded before
+ *   them; its progress replaces the device's own grading
  * - Local SQLite is the source of truth for gameplay (offline-first)
+ * - Local writes are queued in an outbox and flushed in order when online,
+ *   queued clues and answers in bounded batches
+ * - Transient failures are retried with backoff, permanent rejections are set aside
  * - Periodic background sync keeps data fresh
  */
 
+const LAST_SYNC_KEY = 'last_sync'
+// Outbox entries read from SQLite at a time
+const OUTBOX_PAGE_SIZE = 100
+
+// Content is fetched in pages ordered by (updated_at, id)
+const CONTENT_PAGE_SIZE = 500
+
+// Cursors are re-read with some overlap, so rows committed late with an
+// earlier updated_at are still picked up. Upserts make the overlap harmless.
+const CURSOR_OVERLAP_MS = 5 * 60 * 1000
+
+const CURSOR_KEYS = {
+  packs: 'content_cursor:packs',
+  players: 'content_cursor:players',
+  tombstones: 'content_cursor:tombstones',
+} as const
+
+// Paid packs the user was entitled to at the last content sync
+const ENTITLED_PACKS_KEY = 'content_entitled_packs'
+
+interface SyncCursor {
+  timestamp: string
+  id: string
+}
+
+type PageResult<T> = PromiseLike<{
+  data: T[] | null
+  error: PostgrestError | null
+  status: number
+}>
+
+// The query builder methods used for keyset paging
+interface KeysetQuery<Q> {
+  order(column: string, options: { ascending: boolean }): Q
+  or(filters: string): Q
+  gte(column: string, value: string): Q
+  limit(count: number): Q
+}
+
 export interface SyncStatus {
   lastSync: string | null
   packsCount: number
   playersCount: number
   pendingUploads: number
+  rejectedUploads: number
 }
 
+export interface FlushOptions {
+  /** Client used for uploads, replaceable with a fake in tests */
+  client?: TypedSupabaseClient
+  retry?: RetryOptions
+}
+
+export interface FlushResult {
+  uploaded: number
+  /** How many of the uploaded entries were answers */
+  answersUploaded: number
+  rejected: number
+  remaining: number
+}
+
+const syncEvents = createSyncEventEmitter()
+
 /**
- * Downloads packs and players from Supabase
- * This should be called on app startup and periodically
+ * Subscribes to sync progress events, e.g. to show sync state in the app
+ * @returns A function that removes the listener
  */
-export async function syncContentFromServer(): Promise<{
+export function subscribeToSyncEvents(listener: SyncEventListener): () => void {
+  return syncEvents.subscribe(listener)
+}
+
+/**
+ * Gets the current sync status from the local store
+ */
+export async function getSyncStatus(): Promise<SyncStatus> {
+  const [lastSync, content, pendingUploads, rejectedUploads] = await Promise.all([
+    getSyncMeta(LAST_SYNC_KEY),
+    countLocalContent(),
+    countPendingUploads(),
+    countRejectedUploads(),
+  ])
+
+  return {
+    lastSync,
+    packsCount: content.packs,
+    playersCount: content.players,
+    pendingUploads,
+    rejectedUploads,
+  }
+}
+
+export interface ContentSyncResult {
   packs: Pack[]
-  players: Player[]
-}> {
+  players: PlayerContent[]
+  deletedPackIds: string[]
+  deletedPlayerIds: string[]
+  /** Paid packs whose players were removed because the entitlement ended */
+  revokedPackIds: string[]
+}
+
+/**
+ * Downloads packs and players changed since the last sync into the local store,
+ * and removes packs and players deleted on the server
+ * Players are only readable for free packs and packs the user owns, so the
+ * players of packs bought or refunded since the last sync are added or removed
+ * This should be called on app startup and periodically
+ */
+export async function syncContentFromServer(): Promise<ContentSyncResult> {
   try {
-    // Fetch all packs
-    const { data: packs, error: packsError } = await supabase
-      .from('packs')
-      .select('*')
-      .order('created_at', { ascending: true })
+    const [packsSince, playersSince, tombstonesSince] = await Promise.all([
+      getCursorStart(CURSOR_KEYS.packs),
+      getCursorStart(CURSOR_KEYS.players),
+      getCursorStart(CURSOR_KEYS.tombstones),
+    ])
 
-    if (packsError) throw packsError
+    // Fetch changed packs
+    const packs = await fetchAllPages<Pack>(
+      after => {
+        const query = supabase.from('packs').select('*')
+        return paginate(query, 'updated_at', packsSince, after)
+      },
+      pack => pack.updated_at
+    )
 
-    // Fetch all players
-    const { data: players, error: playersError } = await supabase
-      .from('players')
-      .select('*')
+    // Fetch changed players
+    const changedPlayers = await fetchAllPages<PlayerContent>(
+      after => {
+        const query = supabase.from('players').select(PLAYER_CONTENT_COLUMNS)
+        return paginate(query, 'updated_at', playersSince, after)
+      },
+      player => player.updated_at
+    )
+
+    // Players of a newly bought pack kept their old updated_at, so the delta
+    // above misses them: fetch those packs in full
+    const entitlements = await getEntitlementChanges()
+    const unlockedPlayers =
+      entitlements.gained.length === 0
+        ? []
+        : await fetchAllPages<PlayerContent>(
+            after => {
+              const query = supabase
+                .from('players')
+                .select(PLAYER_CONTENT_COLUMNS)
+                .in('pack_id', entitlements.gained)
+              return paginate(query, 'updated_at', null, after)
+            },
+            player => player.updated_at
+          )
+    const players = [...changedPlayers, ...unlockedPlayers]
+
+    // Fetch deletions
+    const tombstones = await fetchAllPages<ContentTombstone>(
+      after => {
+        const query = supabase.from('content_tombstones').select('*')
+        return paginate(query, 'deleted_at', tombstonesSince, after)
+      },
+      tombstone => tombstone.deleted_at
+    )
+
+    const deletedPackIds = tombstones.filter(t => t.table_name === 'packs').map(t => t.row_id)
+    const deletedPlayerIds = tombstones
+      .filter(t => t.table_name === 'players')
+      .map(t => t.row_id)
 
-    if (playersError) throw playersError
+    await saveLocalPacks(packs)
+    await saveLocalPlayers(players)
+    await deleteLocalPlayers(deletedPlayerIds)
+    await deleteLocalPackPlayers(entitlements.lost)
+    await deleteLocalPacks(deletedPackIds)
+
+    // Only move cursors once the changes are stored locally
+    await saveCursor(CURSOR_KEYS.packs, packs.map(p => p.updated_at))
+    await saveCursor(CURSOR_KEYS.players, changedPlayers.map(p => p.updated_at))
+    await saveCursor(CURSOR_KEYS.tombstones, tombstones.map(t => t.deleted_at))
+    await setSyncMeta(ENTITLED_PACKS_KEY, JSON.stringify(entitlements.entitled))
 
     return {
-      packs: packs || [],
-      players: players || [],
+      packs,
+      players,
+      deletedPackIds,
+      deletedPlayerIds,
+      revokedPackIds: entitlements.lost,
     }
   } catch (error) {
     console.error('Error syncing content from server:', error)
@@ -53,38 +261,381 @@ export async function syncContentFromServer(): Promise<{
 }
 
 /**
- * Uploads user progress to Supabase
- * This should be called after completing questions and periodically for pending uploads
+ * Compares the paid packs the user owns now with those at the last sync
+ * Signed-out users own none, so their paid content is removed too
  */
-export async function syncUserProgressToServer(
+async function getEntitlementChanges(): Promise<{
+  entitled: string[]
+  gained: string[]
+  lost: string[]
+}> {
+  const rows = await withRetry(async () => {
+    const { data, error, status } = await supabase.from('user_packs').select('pack_id')
+    if (error) throw toDatabaseError(error, status)
+    return data || []
+  })
+
+  const entitled = rows.map(row => row.pack_id)
+  const stored = await getSyncMeta(ENTITLED_PACKS_KEY)
+  const previous: string[] = stored ? JSON.parse(stored) : []
+
+  return {
+    entitled,
+    gained: entitled.filter(id => !previous.includes(id)),
+    lost: previous.filter(id => !entitled.includes(id)),
+  }
+}
+
+/**
+ * Fetches every page of a keyset-paginated query
+ */
+async function fetchAllPages<T extends { id: string }>(
+  fetchPage: (after: SyncCursor | null) => PageResult<T>,
+  timestampOf: (row: T) => string
+): Promise<T[]> {
+  const rows: T[] = []
+  let after: SyncCursor | null = null
+
+  while (true) {
+    const cursor = after
+    const page = await withRetry(async () => {
+      const { data, error, status } = await fetchPage(cursor)
+      if (error) throw toDatabaseError(error, status)
+      return data || []
+    })
+
+    rows.push(...page)
+    if (page.length < CONTENT_PAGE_SIZE) break
+
+    const last = page[page.length - 1]
+    after = { timestamp: timestampOf(last), id: last.id }
+  }
+
+  return rows
+}
+
+/**
+ * Applies the delta filter, keyset cursor and page size to a content query
+ */
+function paginate<Q extends KeysetQuery<Q>>(
+  query: Q,
+  column: 'updated_at' | 'deleted_at',
+  since: string | null,
+  after: SyncCursor | null
+): Q {
+  let paged = query.order(column, { ascending: true }).order('id', { ascending: true })
+
+  if (after) {
+    paged = paged.or(
+      `${column}.gt."${after.timestamp}",and(${column}.eq."${after.timestamp}",id.gt.${after.id})`
+    )
+  } else if (since) {
+    paged = paged.gte(column, since)
+  }
+
+  return paged.limit(CONTENT_PAGE_SIZE)
+}
+
+/**
+ * Reads a stored cursor and rewinds it by the overlap window
+ */
+async function getCursorStart(key: string): Promise<string | null> {
+  const cursor = await getSyncMeta(key)
+  if (!cursor) return null
+  return new Date(Date.parse(cursor) - CURSOR_OVERLAP_MS).toISOString()
+}
+
+/**
+ * Advances a stored cursor to the latest timestamp seen
+ */
+async function saveCursor(key: string, timestamps: string[]): Promise<void> {
+  if (timestamps.length === 0) return
+
+  const current = await getSyncMeta(key)
+  const latest = timestamps.reduce((max, ts) => (Date.parse(ts) > Date.parse(max) ? ts : max))
+  if (!current || Date.parse(latest) > Date.parse(current)) {
+    await setSyncMeta(key, latest)
+  }
+}
+
+/**
+ * Uploads everything waiting in the local outbox, oldest first
+ *
+ * Queued clues and answers go to submit_answers in batches of at most
+ * MAX_ANSWER_BATCH_SIZE, one request each; session changes are written one at a
+ * time (see groupOutboxEntries). The outbox is read a page at a time to bound
+ * memory.
+ *
+ * - Transient failures (offline, timeouts) are retried with backoff. If they
+ *   persist, the flush stops and the entries stay queued for the next one.
+ * - Permanent failures (e.g. RLS rejections) mark the entry rejected, so it
+ *   doesn't block the rest of the queue. submit_answers reports them per
+ *   entry; if it rejects a batch as a whole, its entries are sent one at a
+ *   time to find the bad ones.
+ *
+ * The server orders answers to the same question by when they were given, not
+ * by when they arrive (see progress.ts in @football-iq/database).
+ */
+export async function flushOutbox(
   userId: string,
-  progress: UserProgress[]
-): Promise<void> {
-  try {
-    if (!userId || progress.length === 0) return
+  options: FlushOptions = {}
+): Promise<FlushResult> {
+  if (!userId) {
+    return { uploaded: 0, answersUploaded: 0, rejected: 0, remaining: await countPendingUploads() }
+  }
 
-    // Upload progress records
-    const { error } = await supabase
-      .from('user_progress')
-      .upsert(
-        progress.map(p => ({
-          user_id: userId,
-          player_id: p.player_id,
-          game_mode: p.game_mode,
-          answered_correctly: p.answered_correctly,
-          attempts: p.attempts,
-          score_earned: p.score_earned,
-          completed_at: p.completed_at,
-        })),
-        {
-          onConflict: 'user_id,player_id,game_mode',
+  const client = options.client ?? supabase
+  const retry: RetryOptions = {
+    ...options.retry,
+    onRetry: (attempt, delayMs, error) => {
+      syncEvents.emit({ type: 'retrying', attempt, delayMs, error: errorMessage(error) })
+      options.retry?.onRetry?.(attempt, delayMs, error)
+    },
+  }
+
+  let uploaded = 0
+  let answersUploaded = 0
+  let rejected = 0
+
+  syncEvents.emit({ type: 'started', pending: await countPendingUploads() })
+
+  flush: while (true) {
+    const entries = await getPendingUploads(OUTBOX_PAGE_SIZE)
+    if (entries.length === 0) break
+
+    let pageUploaded = 0
+    const groups = groupOutboxEntries(entries)
+    for (let index = 0; index < groups.length; index++) {
+      const group = groups[index]
+
+      let failures: unknown[]
+      try {
+        failures = await withRetry(() => uploadOutboxGroup(client, userId, group), retry)
+      } catch (error) {
+        if (group.length > 1 && classifySyncError(error) === 'permanent') {
+          groups.splice(index + 1, 0, ...group.map(entry => [entry]))
+          continue
         }
-      )
+        failures = group.map(() => error)
+      }
 
-    if (error) throw error
-  } catch (error) {
-    console.error('Error syncing progress to server:', error)
-    throw error
+      const taken = group.filter((_, position) => failures[position] === null)
+      await markUploaded(taken.map(entry => entry.id))
+      uploaded += taken.length
+      pageUploaded += taken.length
+      answersUploaded += taken.filter(entry => entry.kind === 'answer').length
+
+      let stoppedBy: unknown = null
+      for (const [position, entry] of group.entries()) {
+        const failure = failures[position]
+        if (failure === null) continue
+
+        if (classifySyncError(failure) === 'transient') {
+          await markUploadFailed([entry.id], errorMessage(failure))
+          stoppedBy ??= failure
+          continue
+        }
+        await markUploadRejected([entry.id], errorMessage(failure))
+        rejected++
+        syncEvents.emit({ type: 'entry_rejected', id: entry.id, error: errorMessage(failure) })
+      }
+
+      if (stoppedBy !== null) {
+        syncEvents.emit({ type: 'stopped', error: errorMessage(stoppedBy) })
+        break flush
+      }
+    }
+
+    if (pageUploaded > 0) {
+      syncEvents.emit({ type: 'page_uploaded', count: pageUploaded, uploaded })
+    }
+  }
+
+  const remaining = await countPendingUploads()
+  syncEvents.emit({ type: 'finished', uploaded, rejected, remaining })
+  return { uploaded, answersUploaded, rejected, remaining }
+}
+
+/**
+ * Splits a page of the outbox into requests, keeping its order: runs of
+ * queued clues and answers are batched for submit_answers, up to
+ * MAX_ANSWER_BATCH_SIZE of what they expand to, and anything else goes on its own
+ */
+function groupOutboxEntries(entries: OutboxEntry[]): OutboxEntry[][] {
+  const groups: OutboxEntry[][] = []
+  let batch: OutboxEntry[] = []
+  let batchSize = 0
+
+  for (const entry of entries) {
+    const size = isQueuedAnswer(entry) ? toQueuedAnswerEntries(entry).length : 0
+    if (batch.length > 0 && (size === 0 || batchSize + size > MAX_ANSWER_BATCH_SIZE)) {
+      groups.push(batch)
+      batch = []
+      batchSize = 0
+    }
+
+    if (size === 0) {
+      groups.push([entry])
+    } else {
+      batch.push(entry)
+      batchSize += size
+    }
+  }
+  if (batch.length > 0) groups.push(batch)
+
+  return groups
+}
+
+/**
+ * Uploads a group of outbox entries (see groupOutboxEntries) in one request
+ * Batches report each entry's failure; a single entry is uploaded on its own,
+ * as a batch that was rejected as a whole is retried
+ * @returns Each entry's failure, or null when it was taken
+ * @throws When the request as a whole fails
+ */
+async function uploadOutboxGroup(
+  client: TypedSupabaseClient,
+  userId: string,
+  group: OutboxEntry[]
+): Promise<unknown[]> {
+  if (group.length === 1) {
+    await uploadOutboxEntry(client, userId, group[0])
+    return [null]
+  }
+
+  const parts = group.map(toQueuedAnswerEntries)
+  const failures = await submitAnswers(client, parts.flat())
+
+  // An entry fails with the first of its parts that did
+  let next = 0
+  return parts.map(part => {
+    const own = failures.slice(next, (next += part.length))
+    return own.find(failure => failure !== null) ?? null
+  })
+}
+
+function isQueuedAnswer(entry: OutboxEntry): boolean {
+  return entry.kind === 'answer' || entry.kind === 'clues'
+}
+
+/**
+ * What a queued clue or answer entry asks submit_answers to do
+ * Older app versions queued only the last guess, with the clues shown
+ * alongside. Their wrong guesses are lost; the clues still count
+ */
+function toQueuedAnswerEntries(entry: OutboxEntry): QueuedAnswerEntry[] {
+  switch (entry.kind) {
+    case 'clues':
+      return [toQueuedClues(entry.payload)]
+    case 'answer': {
+      const answer: QueuedAnswerEntry = {
+        kind: 'answer',
+        playerId: entry.payload.player_id,
+        gameMode: entry.payload.game_mode,
+        guess: entry.payload.guess,
+        answeredAt: entry.payload.answered_at,
+      }
+      const { clubs_revealed, hints_used } = entry.payload as Partial<ClueUpload>
+      if (clubs_revealed === undefined || hints_used === undefined) return [answer]
+      return [toQueuedClues({ ...entry.payload, clubs_revealed, hints_used }), answer]
+    }
+    default:
+      return []
+  }
+}
+
+function toQueuedClues(clues: ClueUpload): QueuedAnswerEntry {
+  return {
+    kind: 'clues',
+    playerId: clues.player_id,
+    gameMode: clues.game_mode,
+    clubsRevealed: clues.clubs_revealed,
+    hintsUsed: clues.hints_used,
+  }
+}
+
+/**
+ * Uploads one outbox entry
+ * Clues are recorded and answers submitted for grading one request at a time,
+ * session changes are written as they are
+ */
+async function uploadOutboxEntry(
+  client: TypedSupabaseClient,
+  userId: string,
+  entry: OutboxEntry
+): Promise<void> {
+  switch (entry.kind) {
+    case 'user_progress':
+      // Scored on the device by an older app version. The server only accepts
+      // graded answers, so these are set aside like any other rejected write
+      throw new ForbiddenError('Locally scored progress is no longer accepted')
+    case 'answer':
+    case 'clues':
+      for (const part of toQueuedAnswerEntries(entry)) {
+        if (part.kind === 'clues') {
+          await revealClues(client, part.playerId, part.gameMode, part)
+        } else {
+          await submitAnswer(client, part.playerId, part.gameMode, part.guess, part)
+        }
+      }
+      return
+    case 'game_session':
+      await syncGameSessionToServer(client, userId, entry.payload)
+      return
+    case 'game_session_delete': {
+      const { error, status } = await client
+        .from('game_sessions')
+        .delete()
+        .eq('user_id', userId)
+        .eq('pack_id', entry.payload.pack_id)
+        .eq('game_mode', entry.payload.game_mode)
+
+      if (error) throw toDatabaseError(error, status)
+    }
+  }
+}
+
+/**
+ * Uploads a game session to Supabase
+ */
+async function syncGameSessionToServer(
+  client: TypedSupabaseClient,
+  userId: string,
+  session: GameSessionUpload
+): Promise<void> {
+  const { error, status } = await client.from('game_sessions').upsert(
+    { ...session, user_id: userId },
+    {
+      onConflict: 'user_id,pack_id,game_mode',
+    }
+  )
+
+  if (error) throw toDatabaseError(error, status)
+}
+
+/**
+ * Brings local progress in line with the server, which grades every answer
+ * Only server records that are missing locally or differ from the local copy
+ * are written; local records stay while their answers are queued and the
+ * server has no result for them yet, or will take theirs once graded (see
+ * mergeProgress)
+ */
+export async function reconcileProgress(
+  localProgress: (UserProgress | UserProgressUpload)[],
+  serverProgress: UserProgress[],
+  queuedAnswers: AnswerUpload[],
+  uploadedAnswers: number
+): Promise<ProgressMergeReport> {
+  const queued = new Set(queuedAnswers.map(answer => progressKey(answer)))
+  const plan = mergeProgress(localProgress, serverProgress, queued)
+
+  await saveServerProgress(plan.keepServer)
+
+  return {
+    uploaded: uploadedAnswers,
+    pending: plan.pending.filter(progress => queued.has(progressKey(progress))).length,
+    keptServer: plan.keepServer.length,
+    keptLocal: plan.keepLocal.length,
   }
 }
 
@@ -98,12 +649,12 @@ export async function syncUserProgressFromServer(
   try {
     if (!userId) return []
 
-    const { data, error } = await supabase
+    const { data, error, status } = await supabase
       .from('user_progress')
       .select('*')
       .eq('user_id', userId)
 
-    if (error) throw error
+    if (error) throw toDatabaseError(error, status)
 
     return data || []
   } catch (error) {
@@ -115,30 +666,48 @@ export async function syncUserProgressFromServer(
 /**
  * Performs a full bidirectional sync
  * 1. Download latest content (packs, players) from server
- * 2. Download user progress from server (merge with local)
- * 3. Upload pending local changes to server
+ * 2. Submit queued answers and other local changes from the outbox
+ * 3. Download user progress from server (replacing local, graded copies)
+ * 4. Unlock any achievements earned by the submitted answers
  */
-export async function performFullSync(
-  userId: string,
-  localProgress: UserProgress[]
-): Promise<{
-  content: { packs: Pack[]; players: Player[] }
+export async function performFullSync(userId: string): Promise<{
+  content: ContentSyncResult
   serverProgress: UserProgress[]
+  merge: ProgressMergeReport
+  achievements: UserAchievement[]
+  status: SyncStatus
 }> {
   try {
     // Step 1: Download content
     const content = await syncContentFromServer()
 
-    // Step 2: Download user progress
-    const serverProgress = await syncUserProgressFromServer(userId)
+    // Step 2: Submit answers and session changes
+    const flush = await flushOutbox(userId)
+
+    // Step 3: Download user progress. Answers the flush couldn't submit
+    // (e.g. the connection dropped) keep their local result for now
+    const serverProgress = await withRetry(() => syncUserProgressFromServer(userId))
+    const localProgress = await getLocalProgress(userId)
+    const merge = await reconcileProgress(
+      localProgress,
+      serverProgress,
+      await getQueuedAnswers(),
+      flush.answersUploaded
+    )
+
+    // Step 4: Unlock achievements (idempotent, only new unlocks are returned)
+    const achievements = await withRetry(() =>
+      unlockAchievements(supabase)
+    )
 
-    // Step 3: Upload local progress that's newer than server
-    // (You would implement logic here to compare timestamps and only upload newer records)
-    await syncUserProgressToServer(userId, localProgress)
+    await setSyncMeta(LAST_SYNC_KEY, new Date().toISOString())
 
     return {
       content,
       serverProgress,
+      merge,
+      achievements,
+      status: await getSyncStatus(),
     }
   } catch (error) {
     console.error('Error performing full sync:', error)
@@ -147,34 +716,25 @@ export async function performFullSync(
 }
 
 /**
- * Checks if the user is online
+ * Checks if the server can be reached
+ * Uses a HEAD request (no rows transferred) and only treats transport
+ * failures as offline: a server error still means we're online
  */
 export async function checkConnectivity(): Promise<boolean> {
   try {
-    const { error } = await supabase.from('packs').select('id').limit(1)
-    return !error
+    const { error, status } = await supabase.from('packs').select('id', { head: true }).limit(1)
+    // postgrest-js reports a request that got no response as status 0
+    return !error || status !== 0
   } catch {
     return false
   }
 }
 
 /**
- * Sets up real-time subscriptions for live updates (optional)
- * This is useful for leaderboard updates in real-time
+ * Keeps the top of a leaderboard up to date in real time
+ * Without a board, follows the all-time global leaderboard. Weekly and
+ * monthly boards move to the new period on their own when it resets
  */
-export function subscribeToLeaderboard(
-  callback: (payload: any) => void
-) {
-  return supabase
-    .channel('leaderboard-changes')
-    .on(
-      'postgres_changes',
-      {
-        event: '*',
-        schema: 'public',
-        table: 'leaderboards',
-      },
-      callback
-    )
-    .subscribe()
+export function subscribeToLeaderboard(options: LiveLeaderboardOptions): LiveLeaderboard {
+  return createLiveLeaderboard(supabase, options)
 }
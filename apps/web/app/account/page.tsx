@@ -0,0 +1,85 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { getUserStats } from '@football-iq/database';
+import { UpgradeAccountForm } from '@/components/auth/UpgradeAccountForm';
+import { getSupabaseServerClient } from '@/lib/supabase/server';
+
+export const metadata: Metadata = {
+  title: 'Your account - Football IQ',
+};
+
+export default async function AccountPage() {
+  const client = await getSupabaseServerClient();
+  const {
+    data: { user },
+  } = await client.auth.getUser();
+  // The middleware already sends visitors without a session to sign in
+  if (!user) redirect('/sign-in?next=/account');
+
+  const stats = await getUserStats(client, user.id);
+
+  return (
+    <main className="min-h-screen p-6 md:p-8">
+      <div className="mx-auto max-w-2xl">
+        <Link href="/" className="text-sm text-secondary underline">
+          Football IQ
+        </Link>
+        <h1 className="mt-4 mb-2 text-4xl font-bold text-gradient">Your account</h1>
+        <p className="mb-8 text-text-secondary">{user.is_anonymous ? 'Guest' : user.email}</p>
+
+        <section className="mb-8 grid grid-cols-2 gap-4 sm:grid-cols-4">
+          <Stat label="Points" value={stats?.total_score ?? 0} />
+          <Stat
+            label="Correct"
+            value={`${stats?.correct_answers ?? 0}/${stats?.total_questions ?? 0}`}
+          />
+          <Stat label="Accuracy" value={`${Math.round(stats?.accuracy_rate ?? 0)}%`} />
+          <Stat label="Rank" value={stats?.global_rank ? `#${stats.global_rank}` : '–'} />
+        </section>
+
+        {user.is_anonymous && (
+          <section className="mb-8 rounded-xl bg-surface p-6 shadow-lg">
+            <h2 className="mb-2 text-xl font-bold">Keep your progress</h2>
+            <p className="mb-4 text-sm text-text-secondary">
+              You&apos;re playing as a guest. Add your email so you can sign in on other devices and
+              never lose your scores.
+            </p>
+            <UpgradeAccountForm />
+          </section>
+        )}
+
+        <div className="flex gap-4">
+          <Link
+            href="/packs"
+            className="rounded-lg bg-gradient px-6 py-3 font-semibold text-background"
+          >
+            Browse packs
+          </Link>
+          <form action="/auth/sign-out" method="post">
+            <button
+              type="submit"
+              className="rounded-lg border border-secondary/50 px-6 py-3 text-secondary"
+            >
+              Sign out
+            </button>
+          </form>
+        </div>
+        {user.is_anonymous && (
+          <p className="mt-3 text-xs text-text-secondary">
+            Signing out of a guest account loses its progress.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-xl bg-surface p-4 text-center shadow-lg">
+      <p className="text-2xl font-bold text-gradient">{value}</p>
+      <p className="mt-1 text-xs text-text-secondary">{label}</p>
+    </div>
+  );
+}
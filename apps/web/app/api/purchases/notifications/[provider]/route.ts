@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { applyStoreNotification } from '@football-iq/database';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { getStoreProvider } from '@/lib/purchases';
+
+/**
+ * Server-to-server notifications from a store, e.g. refunds and revocations.
+ * Stores retry anything other than a 2xx, so notifications we don't act on
+ * are still acknowledged.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const provider = getStoreProvider((await params).provider);
+  if (!provider) {
+    return NextResponse.json({ error: 'Unknown store' }, { status: 404 });
+  }
+
+  const result = await applyStoreNotification(
+    getSupabaseAdminClient(),
+    provider,
+    await request.text(),
+    request.headers.get('authorization')
+  );
+
+  if (result.outcome === 'rejected') {
+    return NextResponse.json({ error: 'Notification could not be verified' }, { status: 401 });
+  }
+  return NextResponse.json({ outcome: result.outcome });
+}
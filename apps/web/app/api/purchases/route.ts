@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { isDatabaseError, verifyPurchase } from '@football-iq/database';
+import { getSupabaseAdminClient } from '@/lib/supabase/admin';
+import { getStoreProvider } from '@/lib/purchases';
+
+/**
+ * Verifies a store receipt and grants the packs it covers.
+ * Called by the app after a purchase and when restoring purchases.
+ * Products that aren't sold as a pack are skipped and listed in the response.
+ *
+ * Body: { provider: string, receipt: string }
+ * Authorization: Bearer <Supabase access token>
+ */
+export async function POST(request: Request) {
+  const admin = getSupabaseAdminClient();
+
+  const token = request.headers.get('authorization')?.replace(/^Bearer /, '');
+  const { data: auth } = token ? await admin.auth.getUser(token) : { data: null };
+  if (!auth?.user) {
+    return NextResponse.json({ error: 'Sign in to buy packs' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.provider !== 'string' || typeof body?.receipt !== 'string') {
+    return NextResponse.json({ error: 'provider and receipt are required' }, { status: 400 });
+  }
+
+  const provider = getStoreProvider(body.provider);
+  if (!provider) {
+    return NextResponse.json({ error: `Unknown store: ${body.provider}` }, { status: 404 });
+  }
+
+  try {
+    const verification = await verifyPurchase(admin, provider, auth.user.id, body.receipt);
+    if (!verification) {
+      return NextResponse.json({ error: 'Receipt could not be verified' }, { status: 400 });
+    }
+
+    const { purchases, skipped } = verification;
+    const skippedProductIds = skipped.map((transaction) => transaction.productId);
+    if (purchases.length === 0 && skipped.length > 0) {
+      return NextResponse.json(
+        { error: 'Product is not sold as a pack', skippedProductIds },
+        { status: 422 }
+      );
+    }
+    return NextResponse.json({ purchases, skippedProductIds });
+  } catch (error) {
+    if (!isDatabaseError(error)) throw error;
+    switch (error.kind) {
+      case 'forbidden':
+        return NextResponse.json({ error: 'Purchase belongs to another account' }, { status: 409 });
+      case 'transient':
+        return NextResponse.json({ error: 'Please try again' }, { status: 503 });
+      default:
+        throw error;
+    }
+  }
+}
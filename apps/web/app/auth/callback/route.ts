@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSafeRedirect } from '@/lib/auth';
+import { getSupabaseServerClient } from '@/lib/supabase/server';
+
+/**
+ * Where sign-in and email confirmation links land. Exchanges the link's code
+ * for a session, stored in cookies, then continues to `next`.
+ *
+ * Query: code, next?
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const code = searchParams.get('code');
+  const next = getSafeRedirect(searchParams.get('next'));
+
+  if (code) {
+    const client = await getSupabaseServerClient();
+    const { error } = await client.auth.exchangeCodeForSession(code);
+    if (!error) return NextResponse.redirect(new URL(next, request.url));
+  }
+
+  const signIn = new URL('/sign-in', request.url);
+  signIn.searchParams.set('error', 'link');
+  signIn.searchParams.set('next', next);
+  return NextResponse.redirect(signIn);
+}
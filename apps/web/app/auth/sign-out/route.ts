@@ -0,0 +1,13 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSupabaseServerClient } from '@/lib/supabase/server';
+
+/**
+ * Signs out and clears the session cookies. Posted to by sign-out forms.
+ */
+export async function POST(request: NextRequest) {
+  const client = await getSupabaseServerClient();
+  await client.auth.signOut();
+
+  // 303 so the browser follows with a GET
+  return NextResponse.redirect(new URL('/', request.url), { status: 303 });
+}
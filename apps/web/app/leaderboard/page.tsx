@@ -0,0 +1,64 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import type { LeaderboardWindow } from '@football-iq/database';
+import { LiveLeaderboard } from '@/components/leaderboard/LiveLeaderboard';
+import { getSupabaseServerClient } from '@/lib/supabase/server';
+
+export const metadata: Metadata = {
+  title: 'Leaderboard - Football IQ',
+  description: 'The best Football IQ players, updated live.',
+};
+
+const WINDOWS: { window: LeaderboardWindow; label: string }[] = [
+  { window: 'all_time', label: 'All time' },
+  { window: 'monthly', label: 'This month' },
+  { window: 'weekly', label: 'This week' },
+];
+
+interface LeaderboardPageProps {
+  searchParams: Promise<{ window?: string }>;
+}
+
+export default async function LeaderboardPage({ searchParams }: LeaderboardPageProps) {
+  const requested = (await searchParams).window;
+  const selected = WINDOWS.find((option) => option.window === requested)?.window ?? 'all_time';
+
+  const client = await getSupabaseServerClient();
+  const {
+    data: { user },
+  } = await client.auth.getUser();
+
+  return (
+    <main className="min-h-screen p-6 md:p-8">
+      <div className="mx-auto max-w-2xl">
+        <Link href="/" className="text-sm text-secondary underline">
+          Football IQ
+        </Link>
+        <h1 className="mt-4 mb-6 text-4xl font-bold text-gradient">Leaderboard</h1>
+
+        <nav className="mb-6 flex gap-2">
+          {WINDOWS.map(({ window, label }) => (
+            <Link
+              key={window}
+              href={window === 'all_time' ? '/leaderboard' : `/leaderboard?window=${window}`}
+              className={`rounded-lg px-4 py-2 text-sm font-semibold ${
+                window === selected
+                  ? 'bg-gradient text-background'
+                  : 'border border-secondary/50 text-secondary'
+              }`}
+            >
+              {label}
+            </Link>
+          ))}
+        </nav>
+
+        <LiveLeaderboard
+          // A new board starts from a fresh subscription
+          key={selected}
+          window={selected}
+          userId={user?.id ?? null}
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,84 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getPackPreview } from '@football-iq/database';
+import { CareerPath } from '@/components/game/CareerPath';
+import { PackStatus } from '@/components/packs/PackStatus';
+import { PlayPackButton } from '@/components/packs/PlayPackButton';
+import { formatPackDifficulty, getUserPacks } from '@/lib/packs';
+import { getSupabaseServerClient } from '@/lib/supabase/server';
+
+interface PackPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+/** Clubs shown of each sample player, so the preview doesn't give the answer away */
+const SAMPLE_CLUBS = 2;
+
+// Shared by generateMetadata and the page within one request
+const loadPack = cache(async (slug: string) =>
+  getPackPreview(await getSupabaseServerClient(), slug)
+);
+
+export async function generateMetadata({ params }: PackPageProps): Promise<Metadata> {
+  const pack = await loadPack((await params).slug);
+  if (!pack) return { title: 'Pack not found - Football IQ' };
+
+  return {
+    title: `${pack.name} - Football IQ`,
+    description:
+      pack.description ?? `${pack.question_count} players to name from their career paths.`,
+  };
+}
+
+export default async function PackPage({ params }: PackPageProps) {
+  const pack = await loadPack((await params).slug);
+  if (!pack) notFound();
+
+  const userPacks = await getUserPacks(await getSupabaseServerClient(), pack.id);
+  const difficulty = formatPackDifficulty(pack);
+
+  return (
+    <main className="min-h-screen p-6 md:p-8">
+      <div className="mx-auto max-w-2xl">
+        <Link href="/packs" className="text-sm text-secondary underline">
+          All packs
+        </Link>
+
+        <header className="mt-4 mb-8">
+          <h1 className="text-4xl font-bold text-gradient">{pack.name}</h1>
+          {pack.description && <p className="mt-3 text-text-secondary">{pack.description}</p>}
+          <p className="mt-4 text-sm text-text-secondary">
+            {pack.question_count} question{pack.question_count === 1 ? '' : 's'}
+            {difficulty && ` · Difficulty ${difficulty}`}
+          </p>
+          <div className="mt-4 max-w-xs">
+            <PackStatus pack={pack} userPacks={userPacks} />
+          </div>
+        </header>
+
+        <div className="mb-10">
+          <PlayPackButton pack={pack} userPacks={userPacks} />
+        </div>
+
+        {pack.sample.length > 0 && (
+          <section>
+            <h2 className="mb-4 text-xl font-bold">Who are these players?</h2>
+            <div className="space-y-6">
+              {pack.sample.map((player) => (
+                <div key={player.id} className="rounded-xl bg-surface p-6 shadow-lg">
+                  <p className="mb-4 text-sm text-text-secondary">
+                    {player.nationality}
+                    {player.position ? ` · ${player.position}` : ''}
+                  </p>
+                  <CareerPath clubs={player.career_path} revealed={SAMPLE_CLUBS} />
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,28 @@
+import type { Metadata } from 'next';
+import { CareerPathGame } from '@/components/game/CareerPathGame';
+import { parseGameMode } from '@/lib/packs';
+import { getSupabaseServerClient } from '@/lib/supabase/server';
+
+export const metadata: Metadata = {
+  title: 'Play - Football IQ',
+};
+
+interface PlayPackPageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ mode?: string | string[] }>;
+}
+
+export default async function PlayPackPage({ params, searchParams }: PlayPackPageProps) {
+  const { slug } = await params;
+  const gameMode = parseGameMode((await searchParams).mode);
+  const client = await getSupabaseServerClient();
+  const {
+    data: { user },
+  } = await client.auth.getUser();
+
+  return (
+    <main className="min-h-screen flex flex-col items-center p-6 md:p-8">
+      <CareerPathGame slug={slug} gameMode={gameMode} userId={user?.id ?? null} />
+    </main>
+  );
+}
@@ -0,0 +1,37 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { getPacks } from '@football-iq/database';
+import { PackCard } from '@/components/packs/PackCard';
+import { getUserPacks } from '@/lib/packs';
+import { getSupabaseServerClient } from '@/lib/supabase/server';
+
+export const metadata: Metadata = {
+  title: 'Packs - Football IQ',
+  description: 'Browse Football IQ question packs and name the players from their career paths.',
+};
+
+export default async function PacksPage() {
+  const client = await getSupabaseServerClient();
+  const [packs, userPacks] = await Promise.all([getPacks(client), getUserPacks(client)]);
+
+  return (
+    <main className="min-h-screen p-6 md:p-8">
+      <div className="mx-auto max-w-5xl">
+        <Link href="/" className="text-sm text-secondary underline">
+          Football IQ
+        </Link>
+        <h1 className="mt-4 mb-8 text-4xl font-bold text-gradient">Packs</h1>
+
+        {packs.length === 0 ? (
+          <p className="text-text-secondary">No packs are available yet.</p>
+        ) : (
+          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {packs.map((pack) => (
+              <PackCard key={pack.id} pack={pack} userPacks={userPacks} />
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,14 +1,34 @@
-export default function HomePage() {
+import Link from 'next/link';
+import { getSupabaseServerClient } from '@/lib/supabase/server';
+
+export default async function HomePage() {
+  const client = await getSupabaseServerClient();
+  const {
+    data: { user },
+  } = await client.auth.getUser();
+
   return (
     <main className="min-h-screen flex flex-col items-center justify-center p-8">
       <h1 className="text-6xl font-bold mb-4 text-gradient">Football IQ</h1>
-      <p className="text-text-secondary text-xl mb-8">
-        Test your knowledge of football legends
-      </p>
+      <p className="text-text-secondary text-xl mb-8">Test your knowledge of football legends</p>
       <div className="text-center">
-        <p className="text-text-secondary">
-          Setting up the game... Stay tuned!
+        <Link
+          href="/packs"
+          className="inline-block rounded-lg bg-gradient px-8 py-4 text-lg font-semibold text-background shadow-glow"
+        >
+          Browse packs
+        </Link>
+        <p className="text-text-secondary mt-4 text-sm">
+          Name the player from their career path, one club at a time.
         </p>
+        <div className="mt-6 flex justify-center gap-6">
+          <Link href="/leaderboard" className="text-secondary underline">
+            Leaderboard
+          </Link>
+          <Link href={user ? '/account' : '/sign-in'} className="text-secondary underline">
+            {user ? 'Your account' : 'Sign in'}
+          </Link>
+        </div>
       </div>
     </main>
   );
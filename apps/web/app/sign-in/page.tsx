@@ -0,0 +1,48 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { SignInForm } from '@/components/auth/SignInForm';
+import { getSafeRedirect } from '@/lib/auth';
+import { getSupabaseServerClient } from '@/lib/supabase/server';
+
+export const metadata: Metadata = {
+  title: 'Sign in - Football IQ',
+};
+
+interface SignInPageProps {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}
+
+export default async function SignInPage({ searchParams }: SignInPageProps) {
+  const params = await searchParams;
+  const next = getSafeRedirect(params.next);
+
+  // Guests can still sign in here, to a full account they already have
+  const client = await getSupabaseServerClient();
+  const {
+    data: { user },
+  } = await client.auth.getUser();
+  if (user && !user.is_anonymous) redirect(next);
+
+  return (
+    <main className="min-h-screen flex flex-col items-center p-6 md:p-8">
+      <div className="mt-16 w-full max-w-sm">
+        <Link href="/" className="text-sm text-secondary underline">
+          Football IQ
+        </Link>
+        <h1 className="mt-4 mb-2 text-4xl font-bold text-gradient">Sign in</h1>
+        <p className="mb-8 text-text-secondary">
+          Save your scores, climb the leaderboard and play your packs from the app.
+        </p>
+
+        {params.error === 'link' && (
+          <p className="mb-6 rounded-lg bg-surface px-4 py-2 text-sm text-accent">
+            That link has expired or was already used. Please request a new one.
+          </p>
+        )}
+
+        <SignInForm next={next} />
+      </div>
+    </main>
+  );
+}
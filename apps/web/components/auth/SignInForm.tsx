@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { getCallbackUrl } from '@/lib/auth';
+import { getSupabaseBrowserClient } from '@/lib/supabase/client';
+
+type FormState =
+  | { status: 'idle' }
+  | { status: 'pending' }
+  | { status: 'sent'; email: string }
+  | { status: 'error'; message: string };
+
+/**
+ * Signs in with a link sent by email, or as a guest. A guest account keeps
+ * its progress and can be turned into a full account later from /account.
+ */
+export function SignInForm({ next }: { next: string }) {
+  const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [state, setState] = useState<FormState>({ status: 'idle' });
+  const pending = state.status === 'pending';
+
+  async function sendLink(event: FormEvent) {
+    event.preventDefault();
+    const trimmed = email.trim();
+    if (!trimmed || pending) return;
+
+    setState({ status: 'pending' });
+    const { error } = await getSupabaseBrowserClient().auth.signInWithOtp({
+      email: trimmed,
+      options: { emailRedirectTo: getCallbackUrl(next) },
+    });
+    setState(
+      error
+        ? { status: 'error', message: 'The sign-in link could not be sent. Please try again.' }
+        : { status: 'sent', email: trimmed }
+    );
+  }
+
+  async function playAsGuest() {
+    setState({ status: 'pending' });
+    const { error } = await getSupabaseBrowserClient().auth.signInAnonymously();
+    if (error) {
+      setState({ status: 'error', message: 'Guest play is unavailable right now.' });
+      return;
+    }
+    // Server components re-render with the new session
+    router.replace(next);
+    router.refresh();
+  }
+
+  if (state.status === 'sent') {
+    return (
+      <p className="animate-fade-in text-text-secondary">
+        Check <span className="font-semibold text-text-primary">{state.email}</span> for a link to
+        sign in.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <form onSubmit={sendLink} className="flex flex-col gap-3">
+        <input
+          type="email"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          placeholder="you@example.com"
+          aria-label="Email"
+          autoComplete="email"
+          required
+          disabled={pending}
+          className="rounded-lg bg-background px-4 py-3 outline-none ring-1 ring-text-secondary/30 focus:ring-primary"
+        />
+        <button
+          type="submit"
+          disabled={pending || !email.trim()}
+          className="rounded-lg bg-gradient px-5 py-3 font-semibold text-background disabled:opacity-50"
+        >
+          Email me a sign-in link
+        </button>
+      </form>
+
+      <div className="my-6 text-center text-sm text-text-secondary">or</div>
+
+      <button
+        type="button"
+        onClick={playAsGuest}
+        disabled={pending}
+        className="w-full rounded-lg border border-secondary/50 px-5 py-3 text-secondary disabled:opacity-50"
+      >
+        Play as a guest
+      </button>
+      <p className="mt-2 text-xs text-text-secondary">
+        Your progress is saved on this device. Add your email later to keep it for good.
+      </p>
+
+      {state.status === 'error' && <p className="mt-4 text-sm text-accent">{state.message}</p>}
+    </div>
+  );
+}
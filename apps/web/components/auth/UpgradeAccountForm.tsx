@@ -0,0 +1,79 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { getCallbackUrl } from '@/lib/auth';
+import { getSupabaseBrowserClient } from '@/lib/supabase/client';
+
+type FormState =
+  | { status: 'idle' }
+  | { status: 'pending' }
+  | { status: 'sent'; email: string }
+  | { status: 'error'; message: string };
+
+/**
+ * Turns a guest account into a full one by adding an email address. The
+ * account, and so all its progress, stays the same once the email is confirmed.
+ */
+export function UpgradeAccountForm() {
+  const [email, setEmail] = useState('');
+  const [state, setState] = useState<FormState>({ status: 'idle' });
+  const pending = state.status === 'pending';
+
+  async function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    const trimmed = email.trim();
+    if (!trimmed || pending) return;
+
+    setState({ status: 'pending' });
+    const { error } = await getSupabaseBrowserClient().auth.updateUser(
+      { email: trimmed },
+      { emailRedirectTo: getCallbackUrl('/account') }
+    );
+    setState(
+      error
+        ? {
+            status: 'error',
+            message:
+              error.code === 'email_exists'
+                ? 'That email already has an account. Sign out and sign in with it instead.'
+                : 'The confirmation email could not be sent. Please try again.',
+          }
+        : { status: 'sent', email: trimmed }
+    );
+  }
+
+  if (state.status === 'sent') {
+    return (
+      <p className="text-text-secondary">
+        Check <span className="font-semibold text-text-primary">{state.email}</span> for a link to
+        confirm your account.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="flex gap-2">
+        <input
+          type="email"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          placeholder="you@example.com"
+          aria-label="Email"
+          autoComplete="email"
+          required
+          disabled={pending}
+          className="flex-1 rounded-lg bg-background px-4 py-3 outline-none ring-1 ring-text-secondary/30 focus:ring-primary"
+        />
+        <button
+          type="submit"
+          disabled={pending || !email.trim()}
+          className="rounded-lg bg-gradient px-5 py-3 font-semibold text-background disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+      {state.status === 'error' && <p className="mt-3 text-sm text-accent">{state.message}</p>}
+    </form>
+  );
+}
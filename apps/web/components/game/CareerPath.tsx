@@ -0,0 +1,34 @@
+interface CareerPathProps {
+  /** career_path entries, oldest club first */
+  clubs: string[];
+  /** How many clubs are shown, from the first */
+  revealed: number;
+}
+
+/**
+ * A player's clubs in order, with the ones not yet revealed hidden
+ */
+export function CareerPath({ clubs, revealed }: CareerPathProps) {
+  return (
+    <ol className="space-y-2 mb-6">
+      {clubs.map((club, index) =>
+        index < revealed ? (
+          <li
+            key={index}
+            className="animate-slide-down rounded-lg border border-primary/30 bg-background px-4 py-3 font-medium"
+          >
+            <span className="mr-3 text-text-secondary">{index + 1}.</span>
+            {club}
+          </li>
+        ) : (
+          <li
+            key={index}
+            className="rounded-lg border border-dashed border-text-secondary/30 px-4 py-3 text-text-secondary"
+          >
+            <span className="mr-3">{index + 1}.</span>???
+          </li>
+        )
+      )}
+    </ol>
+  );
+}
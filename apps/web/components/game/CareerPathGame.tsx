@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { GameMode, PackWithPlayers } from '@football-iq/database';
+import { useDataAccess } from '@/lib/data';
+import { GameBoard, type SavedGame } from './GameBoard';
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; pack: PackWithPlayers; saved: SavedGame | null };
+
+interface CareerPathGameProps {
+  slug: string;
+  gameMode: GameMode;
+  /** Signed-in user, guest accounts included; null when nobody is signed in */
+  userId: string | null;
+}
+
+/**
+ * Loads a pack and any unfinished game of it in the given mode, then runs
+ * the game. Visitors who aren't signed in can play free packs, but
+ * nothing is saved for them.
+ */
+export function CareerPathGame({ slug, gameMode, userId }: CareerPathGameProps) {
+  const data = useDataAccess();
+  const [load, setLoad] = useState<LoadState>({ status: 'loading' });
+  const [round, setRound] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const pack = await data.getPackWithPlayers(slug);
+      if (!pack) return { status: 'error', message: 'This pack does not exist.' } as const;
+
+      const session = userId ? await data.getGameSession(userId, pack.id, gameMode) : null;
+      const saved =
+        session?.session_state && !session.session_state.completed
+          ? { sessionId: session.id, state: session.session_state }
+          : null;
+
+      return { status: 'ready', pack, saved } as const;
+    })()
+      .catch(() => ({ status: 'error', message: 'The pack could not be loaded.' }) as const)
+      .then((result) => {
+        if (!cancelled) setLoad(result);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [data, slug, gameMode, userId]);
+
+  if (load.status === 'loading') {
+    return <p className="text-text-secondary mt-24">Loading pack...</p>;
+  }
+
+  if (load.status === 'error') {
+    return (
+      <div className="text-center mt-24">
+        <p className="text-accent mb-6">{load.message}</p>
+        <Link href="/packs" className="text-secondary underline">
+          Back to packs
+        </Link>
+      </div>
+    );
+  }
+
+  const { pack, saved } = load;
+
+  if (pack.players.length === 0) {
+    return (
+      <div className="text-center mt-24 max-w-md">
+        <h1 className="text-3xl font-bold mb-4">{pack.name}</h1>
+        <p className="text-text-secondary">
+          {pack.is_free
+            ? 'This pack has no questions yet.'
+            : 'This pack is locked. Buy it in the Football IQ app to play it here.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <GameBoard
+      // A new round remounts the board with a fresh session
+      key={round}
+      pack={pack}
+      gameMode={gameMode}
+      userId={userId}
+      saved={round === 0 ? saved : null}
+      onPlayAgain={() => setRound((value) => value + 1)}
+    />
+  );
+}
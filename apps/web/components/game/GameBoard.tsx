@@ -0,0 +1,244 @@
+'use client';
+
+import { useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import {
+  countQuestions,
+  createSessionReducer,
+  createSessionState,
+  DEFAULT_MAX_WRONG_GUESSES,
+  getCurrentPlayer,
+  getTransferPrompt,
+  type GameMode,
+  type PackWithPlayers,
+  type RevealedAnswer,
+  type SessionContext,
+  type SessionState,
+} from '@football-iq/database';
+import Link from 'next/link';
+import { useDataAccess } from '@/lib/data';
+import { CareerPath } from './CareerPath';
+import { GameSummary } from './GameSummary';
+import { GuessForm } from './GuessForm';
+import { HintList } from './HintList';
+import { QuestionResult } from './QuestionResult';
+
+export interface SavedGame {
+  sessionId: string;
+  state: SessionState;
+}
+
+interface GameBoardProps {
+  pack: PackWithPlayers;
+  gameMode: GameMode;
+  /** Signed-in user, or null when nobody is signed in and the game isn't saved */
+  userId: string | null;
+  saved: SavedGame | null;
+  onPlayAgain: () => void;
+}
+
+/**
+ * Plays a pack question by question. Signed-in players' clues are recorded
+ * by reveal_clues as they are shown, and their guesses graded and scored by
+ * submit_answer, which records their progress; anyone else's are checked
+ * against the answer hashes. The session is saved after every move
+ * so a game can be resumed later.
+ */
+export function GameBoard({ pack, gameMode, userId, saved, onPlayAgain }: GameBoardProps) {
+  const data = useDataAccess();
+  const context = useMemo<SessionContext>(
+    () => ({ gameMode, players: pack.players }),
+    [gameMode, pack.players]
+  );
+  const reducer = useMemo(() => createSessionReducer(context), [context]);
+  const [state, dispatch] = useReducer(reducer, saved, (restored) =>
+    restored ? restored.state : createSessionState(context)
+  );
+
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [answer, setAnswer] = useState<RevealedAnswer | null>(null);
+
+  const player = getCurrentPlayer(state, context);
+  const questionCount = countQuestions(state, context);
+  const question = state.question;
+  const finished = question.status !== 'in_progress';
+
+  // Saves run one after another, so a finished game is deleted after its last save
+  const sessionId = useRef(saved?.sessionId ?? null);
+  const saving = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    if (!userId) return;
+
+    saving.current = saving.current
+      .then(async () => {
+        if (state.completed) {
+          if (sessionId.current) await data.deleteGameSession(sessionId.current);
+          sessionId.current = null;
+          return;
+        }
+        const session = await data.saveGameSession(
+          userId,
+          pack.id,
+          gameMode,
+          state.current_question_index,
+          state.score,
+          state
+        );
+        sessionId.current = session.id;
+      })
+      .catch(() =>
+        setError('Your game could not be saved. It will be saved after your next move.')
+      );
+  }, [data, userId, pack.id, gameMode, state]);
+
+  // Answers are only handed out for finished questions
+  const playerId = player?.id;
+  useEffect(() => {
+    setAnswer(null);
+    if (!finished || !playerId || !userId) return;
+
+    let cancelled = false;
+    data
+      .getRevealedAnswers([playerId])
+      .then(([revealed]) => {
+        if (!cancelled) setAnswer(revealed ?? null);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [data, finished, playerId, userId]);
+
+  async function submit(guess: string | null) {
+    if (!player) return;
+
+    if (!userId) {
+      dispatch(guess === null ? { type: 'skip' } : { type: 'guess', guess });
+      return;
+    }
+
+    setPending(true);
+    setError(null);
+    try {
+      const result = await data.submitAnswer(player.id, gameMode, guess);
+      dispatch(
+        guess === null
+          ? { type: 'skip' }
+          : {
+              type: 'guess',
+              guess,
+              match: {
+                verdict: result.verdict,
+                isCorrect: result.is_correct,
+                matched: result.matched_answer,
+                distance: 0,
+              },
+            }
+      );
+    } catch {
+      setError("Your answer couldn't be checked. Please try again.");
+    } finally {
+      setPending(false);
+    }
+  }
+
+  async function reveal(type: 'reveal_club' | 'use_hint') {
+    if (!player) return;
+
+    if (userId) {
+      setPending(true);
+      setError(null);
+      try {
+        await data.revealClues(player.id, gameMode, {
+          clubsRevealed: question.revealed_clubs + (type === 'reveal_club' ? 1 : 0),
+          hintsUsed: question.hints_used + (type === 'use_hint' ? 1 : 0),
+        });
+      } catch {
+        setError("The clue couldn't be shown. Please try again.");
+        return;
+      } finally {
+        setPending(false);
+      }
+    }
+    dispatch({ type });
+  }
+
+  if (state.completed || !player) {
+    return (
+      <GameSummary pack={pack} state={state} saved={userId !== null} onPlayAgain={onPlayAgain} />
+    );
+  }
+
+  return (
+    <div className="w-full max-w-2xl animate-fade-in">
+      <header className="flex items-baseline justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">{pack.name}</h1>
+          <p className="text-text-secondary text-sm">
+            Question {state.current_question_index + 1} of {questionCount}
+          </p>
+        </div>
+        <p className="text-xl font-bold text-gradient">{state.score} pts</p>
+      </header>
+
+      {!userId && (
+        <p className="mb-4 rounded-lg bg-surface px-4 py-2 text-sm text-text-secondary">
+          You&apos;re not signed in, so your score won&apos;t be saved.{' '}
+          <Link
+            href={`/sign-in?next=${encodeURIComponent(`/packs/${pack.slug}/play`)}`}
+            className="text-secondary underline"
+          >
+            Sign in or play as a guest
+          </Link>
+        </p>
+      )}
+
+      <section className="rounded-xl bg-surface p-6 shadow-lg">
+        <p className="text-text-secondary text-sm mb-4">
+          {player.nationality}
+          {player.position ? ` · ${player.position}` : ''}
+        </p>
+
+        {question.transfer && (
+          <p className="mb-4 text-lg font-semibold">{getTransferPrompt(question.transfer)}</p>
+        )}
+
+        <CareerPath
+          clubs={player.career_path}
+          revealed={finished ? player.career_path.length : question.revealed_clubs}
+        />
+
+        <HintList hints={player.hints} used={question.hints_used} />
+
+        {finished ? (
+          <QuestionResult
+            question={question}
+            answer={answer}
+            isLast={state.current_question_index + 1 >= questionCount}
+            onNext={() => dispatch({ type: 'advance' })}
+          />
+        ) : (
+          <GuessForm
+            question={question}
+            totalClubs={player.career_path.length}
+            totalHints={countHints(player.hints)}
+            guessesLeft={DEFAULT_MAX_WRONG_GUESSES - question.wrong_guesses.length}
+            pending={pending}
+            onGuess={(guess) => submit(guess)}
+            onRevealClub={() => reveal('reveal_club')}
+            onUseHint={() => reveal('use_hint')}
+            onSkip={() => submit(null)}
+          />
+        )}
+
+        {error && <p className="mt-4 text-sm text-accent">{error}</p>}
+      </section>
+    </div>
+  );
+}
+
+function countHints(hints: PackWithPlayers['players'][number]['hints']): number {
+  return [hints?.hint1, hints?.hint2, hints?.hint3].filter(Boolean).length;
+}
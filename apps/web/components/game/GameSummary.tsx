@@ -0,0 +1,49 @@
+import Link from 'next/link';
+import type { PackWithPlayers, SessionState } from '@football-iq/database';
+
+interface GameSummaryProps {
+  pack: PackWithPlayers;
+  state: SessionState;
+  /** The results were recorded for a signed-in user */
+  saved: boolean;
+  onPlayAgain: () => void;
+}
+
+export function GameSummary({ pack, state, saved, onPlayAgain }: GameSummaryProps) {
+  const correct = state.results.filter((result) => result.answered_correctly).length;
+
+  return (
+    <div className="w-full max-w-md mt-16 text-center animate-fade-in">
+      <h1 className="text-3xl font-bold mb-2">{pack.name}</h1>
+      <p className="text-text-secondary mb-8">Pack complete</p>
+
+      <p className="text-6xl font-bold text-gradient">{state.score}</p>
+      <p className="text-text-secondary mt-2">points</p>
+
+      <p className="mt-6 text-lg">
+        {correct} of {state.results.length} players identified
+      </p>
+      {!saved && (
+        <p className="mt-2 text-sm text-text-secondary">
+          You weren&apos;t signed in, so this score wasn&apos;t saved.
+        </p>
+      )}
+
+      <div className="mt-10 flex justify-center gap-4">
+        <button
+          type="button"
+          onClick={onPlayAgain}
+          className="rounded-lg bg-gradient px-6 py-3 font-semibold text-background"
+        >
+          Play again
+        </button>
+        <Link
+          href="/packs"
+          className="rounded-lg border border-secondary/50 px-6 py-3 text-secondary"
+        >
+          All packs
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import type { QuestionState } from '@football-iq/database';
+
+interface GuessFormProps {
+  question: QuestionState;
+  totalClubs: number;
+  totalHints: number;
+  guessesLeft: number;
+  /** A guess is being checked */
+  pending: boolean;
+  onGuess: (guess: string) => void;
+  onRevealClub: () => void;
+  onUseHint: () => void;
+  onSkip: () => void;
+}
+
+export function GuessForm({
+  question,
+  totalClubs,
+  totalHints,
+  guessesLeft,
+  pending,
+  onGuess,
+  onRevealClub,
+  onUseHint,
+  onSkip,
+}: GuessFormProps) {
+  const [guess, setGuess] = useState('');
+  const wrongGuesses = question.wrong_guesses;
+  const lastWrong = wrongGuesses.length > 0;
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    const trimmed = guess.trim();
+    if (!trimmed || pending) return;
+
+    onGuess(trimmed);
+    setGuess('');
+  }
+
+  return (
+    <div>
+      {lastWrong && (
+        <p
+          // Remounting on each wrong guess replays the shake
+          key={wrongGuesses.length}
+          className="animate-shake mb-3 text-sm text-accent"
+        >
+          {question.last_verdict === 'close_miss'
+            ? `So close! "${wrongGuesses[wrongGuesses.length - 1]}" isn't quite right.`
+            : `"${wrongGuesses[wrongGuesses.length - 1]}" is wrong.`}
+        </p>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-4">
+        <input
+          value={guess}
+          onChange={(event) => setGuess(event.target.value)}
+          placeholder="Who is this player?"
+          aria-label="Your guess"
+          autoFocus
+          disabled={pending}
+          className="flex-1 rounded-lg bg-background px-4 py-3 outline-none ring-1 ring-text-secondary/30 focus:ring-primary"
+        />
+        <button
+          type="submit"
+          disabled={pending || !guess.trim()}
+          className="rounded-lg bg-gradient px-5 py-3 font-semibold text-background disabled:opacity-50"
+        >
+          {pending ? 'Checking...' : 'Guess'}
+        </button>
+      </form>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button
+          type="button"
+          onClick={onRevealClub}
+          disabled={pending || question.revealed_clubs >= totalClubs}
+          className="rounded-lg border border-secondary/50 px-3 py-2 text-secondary disabled:opacity-40"
+        >
+          Reveal next club
+        </button>
+        <button
+          type="button"
+          onClick={onUseHint}
+          disabled={pending || question.hints_used >= totalHints}
+          className="rounded-lg border border-secondary/50 px-3 py-2 text-secondary disabled:opacity-40"
+        >
+          Use a hint ({totalHints - question.hints_used} left)
+        </button>
+        <button
+          type="button"
+          onClick={onSkip}
+          disabled={pending}
+          className="ml-auto px-3 py-2 text-text-secondary underline disabled:opacity-40"
+        >
+          Skip
+        </button>
+      </div>
+
+      <p className="mt-4 text-xs text-text-secondary">
+        Fewer clubs and hints means more points. {guessesLeft} guess
+        {guessesLeft === 1 ? '' : 'es'} left.
+      </p>
+    </div>
+  );
+}
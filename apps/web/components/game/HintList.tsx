@@ -0,0 +1,23 @@
+import type { PlayerWithCareer } from '@football-iq/database';
+
+interface HintListProps {
+  hints: PlayerWithCareer['hints'];
+  /** Hints taken so far, shown in order */
+  used: number;
+}
+
+export function HintList({ hints, used }: HintListProps) {
+  const shown = [hints?.hint1, hints?.hint2, hints?.hint3].filter(Boolean).slice(0, used);
+  if (shown.length === 0) return null;
+
+  return (
+    <ul className="mb-6 space-y-2">
+      {shown.map((hint, index) => (
+        <li key={index} className="animate-fade-in text-sm">
+          <span className="mr-2 font-semibold text-secondary">Hint {index + 1}:</span>
+          {hint}
+        </li>
+      ))}
+    </ul>
+  );
+}
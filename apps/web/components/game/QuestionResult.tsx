@@ -0,0 +1,49 @@
+import type { QuestionState, RevealedAnswer } from '@football-iq/database';
+
+interface QuestionResultProps {
+  question: QuestionState;
+  /** The player's name, once the server has revealed it (signed-in players only) */
+  answer: RevealedAnswer | null;
+  isLast: boolean;
+  onNext: () => void;
+}
+
+const HEADLINES: Record<Exclude<QuestionState['status'], 'in_progress'>, string> = {
+  correct: 'Correct!',
+  failed: 'Out of guesses',
+  skipped: 'Skipped',
+};
+
+export function QuestionResult({ question, answer, isLast, onNext }: QuestionResultProps) {
+  if (question.status === 'in_progress') return null;
+  const correct = question.status === 'correct';
+
+  return (
+    <div className="animate-fade-in text-center">
+      <p className={`text-2xl font-bold ${correct ? 'text-primary' : 'text-accent'}`}>
+        {HEADLINES[question.status]}
+      </p>
+
+      {answer && (
+        <p className="mt-2 text-lg">
+          It was <span className="font-semibold">{answer.full_name ?? answer.name}</span>
+        </p>
+      )}
+
+      <p className="mt-2 text-text-secondary">
+        {correct
+          ? `+${question.score_earned} points with ${question.revealed_clubs} club${question.revealed_clubs === 1 ? '' : 's'} and ${question.hints_used} hint${question.hints_used === 1 ? '' : 's'}`
+          : 'No points this time'}
+      </p>
+
+      <button
+        type="button"
+        onClick={onNext}
+        autoFocus
+        className="mt-6 rounded-lg bg-gradient px-6 py-3 font-semibold text-background"
+      >
+        {isLast ? 'See results' : 'Next player'}
+      </button>
+    </div>
+  );
+}
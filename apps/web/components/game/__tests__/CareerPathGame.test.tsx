@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import userEvent from '@testing-library/user-event';
+import type { PackDefinition } from '@football-iq/database/importer';
+import { createMemoryDataAccess } from '@football-iq/database/memory';
+import { render, screen } from '@/test-utils/test-utils';
+import { CareerPathGame } from '../CareerPathGame';
+
+const free: PackDefinition = {
+  pack: { name: 'Midfielders', slug: 'midfielders', is_free: true },
+  players: [
+    {
+      name: 'Andrea Pirlo',
+      nationality: 'Italy',
+      difficulty: 1,
+      career_path: ['Brescia (1995-1998)', 'Inter Milan (1998-2001)', 'AC Milan (2001-2011)'],
+    },
+  ],
+};
+
+const paid: PackDefinition = {
+  pack: { name: 'Strikers', slug: 'strikers', is_free: false, price: 2.99 },
+  players: [
+    {
+      name: 'Thierry Henry',
+      nationality: 'France',
+      difficulty: 2,
+      career_path: ['Monaco (1994-1999)', 'Juventus (1999)', 'Arsenal (1999-2007)'],
+    },
+  ],
+};
+
+function setup(userId: string | null) {
+  return createMemoryDataAccess({ packs: [free, paid], userId });
+}
+
+async function guess(name: string) {
+  const user = userEvent.setup();
+  await user.type(await screen.findByLabelText('Your guess'), name);
+  await user.click(screen.getByRole('button', { name: 'Guess' }));
+}
+
+describe('CareerPathGame', () => {
+  it('lets a visitor play a free pack without saving anything', async () => {
+    const data = setup(null);
+    render(<CareerPathGame slug="midfielders" gameMode="career_path_progressive" userId={null} />, {
+      data,
+    });
+
+    expect(await screen.findByText('Question 1 of 1')).toBeInTheDocument();
+    expect(screen.getByText(/your score won't be saved/)).toBeInTheDocument();
+
+    await guess('Gattuso');
+    expect(await screen.findByText('"Gattuso" is wrong.')).toBeInTheDocument();
+
+    await guess('Pirlo');
+    expect(await screen.findByText('Correct!')).toBeInTheDocument();
+    expect(screen.queryByText(/It was/)).not.toBeInTheDocument();
+  });
+
+  it("records a signed-in player's answer and reveals the name", async () => {
+    const data = setup('ana');
+    render(<CareerPathGame slug="midfielders" gameMode="career_path_progressive" userId="ana" />, {
+      data,
+    });
+
+    await guess('Andrea Pirlo');
+
+    expect(await screen.findByText('Andrea Pirlo')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'See results' })).toBeInTheDocument();
+    expect(await data.getUserStats('ana')).toMatchObject({ correct_answers: 1 });
+  });
+
+  it('records the clubs a signed-in player reveals before scoring their answer', async () => {
+    const data = setup('ana');
+    render(<CareerPathGame slug="midfielders" gameMode="career_path_progressive" userId="ana" />, {
+      data,
+    });
+
+    await userEvent.setup().click(await screen.findByRole('button', { name: 'Reveal next club' }));
+    await guess('Andrea Pirlo');
+
+    expect(await screen.findByText('Andrea Pirlo')).toBeInTheDocument();
+    expect(await data.getUserStats('ana')).toMatchObject({ total_score: 70 });
+  });
+
+  it('resumes an unfinished game', async () => {
+    const data = setup('ana');
+    const first = render(
+      <CareerPathGame slug="midfielders" gameMode="career_path_progressive" userId="ana" />,
+      { data }
+    );
+    await guess('Gattuso');
+    await screen.findByText('"Gattuso" is wrong.');
+    first.unmount();
+
+    render(<CareerPathGame slug="midfielders" gameMode="career_path_progressive" userId="ana" />, {
+      data,
+    });
+
+    expect(await screen.findByText('"Gattuso" is wrong.')).toBeInTheDocument();
+  });
+
+  it('asks about a move in transfer mode', async () => {
+    render(<CareerPathGame slug="midfielders" gameMode="transfer" userId={null} />, {
+      data: setup(null),
+    });
+
+    expect(
+      await screen.findByText('Who moved from Brescia to Inter Milan in 1998?')
+    ).toBeInTheDocument();
+  });
+
+  it('explains that a paid pack is locked', async () => {
+    render(<CareerPathGame slug="strikers" gameMode="career_path_progressive" userId={null} />, {
+      data: setup(null),
+    });
+
+    expect(await screen.findByText(/This pack is locked/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  createLiveLeaderboard,
+  type LeaderboardEntry,
+  type LeaderboardWindow,
+  type LiveLeaderboardStatus,
+} from '@football-iq/database';
+import { getSupabaseBrowserClient } from '@/lib/supabase/client';
+
+const LIMIT = 25;
+
+const STATUS_LABELS: Record<LiveLeaderboardStatus, string> = {
+  connecting: 'Connecting...',
+  live: 'Live',
+  reconnecting: 'Reconnecting...',
+  closed: 'Offline',
+};
+
+interface LiveLeaderboardProps {
+  window: LeaderboardWindow;
+  /** Highlighted as "You" */
+  userId: string | null;
+}
+
+/**
+ * The top of a global board, kept up to date as scores come in. Players who
+ * just entered the board or moved up are highlighted until the next change.
+ */
+export function LiveLeaderboard({ window, userId }: LiveLeaderboardProps) {
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [status, setStatus] = useState<LiveLeaderboardStatus>('connecting');
+  const [climbed, setClimbed] = useState<ReadonlySet<string>>(new Set());
+
+  useEffect(() => {
+    const client = getSupabaseBrowserClient();
+
+    const leaderboard = createLiveLeaderboard(client, {
+      board: { window, scope: 'global' },
+      limit: LIMIT,
+      onChange: (next, diff) => {
+        setEntries(next);
+        setClimbed(
+          new Set([
+            ...diff.entered.map((entry) => entry.user_id),
+            ...diff.moved
+              .filter((move) => move.entry.rank < move.previousRank)
+              .map((move) => move.entry.user_id),
+          ])
+        );
+      },
+      onStatusChange: setStatus,
+    });
+
+    return () => {
+      void leaderboard.unsubscribe();
+    };
+  }, [window]);
+
+  return (
+    <section className="rounded-xl bg-surface p-6 shadow-lg">
+      <p className="mb-4 flex items-center gap-2 text-xs text-text-secondary">
+        <span
+          className={`inline-block h-2 w-2 rounded-full ${status === 'live' ? 'bg-primary' : 'bg-accent'}`}
+        />
+        {STATUS_LABELS[status]}
+      </p>
+
+      {entries === null ? (
+        <p className="text-text-secondary">Loading leaderboard...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-text-secondary">Nobody has played yet. Be the first!</p>
+      ) : (
+        <ol className="space-y-2">
+          {entries.map((entry) => (
+            <li
+              key={entry.user_id}
+              className={`flex items-center gap-4 rounded-lg bg-background px-4 py-3 ${
+                climbed.has(entry.user_id) ? 'animate-slide-down ring-1 ring-primary' : ''
+              } ${entry.user_id === userId ? 'border border-secondary/50' : ''}`}
+            >
+              <span className="w-8 text-right font-bold text-text-secondary">{entry.rank}</span>
+              <span className="flex-1 truncate font-medium">
+                {entry.user_id === userId ? 'You' : `Player ${entry.user_id.slice(0, 8)}`}
+              </span>
+              <span className="text-sm text-text-secondary">
+                {Math.round(entry.accuracy_rate)}%
+              </span>
+              <span className="w-20 text-right font-bold text-gradient">{entry.total_score}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
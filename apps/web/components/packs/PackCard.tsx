@@ -0,0 +1,27 @@
+import Link from 'next/link';
+import type { Pack } from '@football-iq/database';
+import { formatPackDifficulty, type UserPacks } from '@/lib/packs';
+import { PackStatus } from './PackStatus';
+
+export function PackCard({ pack, userPacks }: { pack: Pack; userPacks: UserPacks }) {
+  const difficulty = formatPackDifficulty(pack);
+
+  return (
+    <Link
+      href={`/packs/${pack.slug}`}
+      className="flex flex-col rounded-xl bg-surface p-6 shadow-lg transition hover:shadow-glow"
+    >
+      <h2 className="text-xl font-bold">{pack.name}</h2>
+      {pack.description && (
+        <p className="mt-2 flex-1 text-sm text-text-secondary">{pack.description}</p>
+      )}
+      <p className="mt-4 text-sm text-text-secondary">
+        {pack.question_count} question{pack.question_count === 1 ? '' : 's'}
+        {difficulty && ` · Difficulty ${difficulty}`}
+      </p>
+      <div className="mt-4">
+        <PackStatus pack={pack} userPacks={userPacks} />
+      </div>
+    </Link>
+  );
+}
@@ -0,0 +1,54 @@
+import type { Pack } from '@football-iq/database';
+import { canPlayPack, formatPackPrice, getCompletionPercent, type UserPacks } from '@/lib/packs';
+
+interface PackStatusProps {
+  pack: Pick<Pack, 'id' | 'is_free' | 'price' | 'question_count'>;
+  userPacks: UserPacks;
+}
+
+/**
+ * Whether a pack is free, owned or locked, with the signed-in user's
+ * completion underneath
+ */
+export function PackStatus({ pack, userPacks }: PackStatusProps) {
+  let badge: { label: string; className: string };
+  if (pack.is_free) {
+    badge = { label: 'Free', className: 'bg-primary/15 text-primary' };
+  } else if (canPlayPack(pack, userPacks)) {
+    badge = { label: 'Owned', className: 'bg-secondary/15 text-secondary' };
+  } else {
+    badge = {
+      label: `Locked · ${formatPackPrice(pack)}`,
+      className: 'bg-accent/15 text-accent',
+    };
+  }
+
+  return (
+    <div>
+      <span
+        className={`inline-block rounded-full px-3 py-1 text-xs font-semibold ${badge.className}`}
+      >
+        {badge.label}
+      </span>
+      {userPacks.userId && (
+        <PackCompletion
+          finished={userPacks.completion[pack.id] ?? 0}
+          questionCount={pack.question_count}
+        />
+      )}
+    </div>
+  );
+}
+
+function PackCompletion({ finished, questionCount }: { finished: number; questionCount: number }) {
+  const percent = getCompletionPercent(finished, questionCount);
+
+  return (
+    <div className="mt-3">
+      <div className="h-1.5 w-full rounded-full bg-background">
+        <div className="h-1.5 rounded-full bg-gradient" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="mt-1 text-xs text-text-secondary">{percent}% complete</p>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import Link from 'next/link';
+import type { Pack } from '@football-iq/database';
+import { canPlayPack, formatPackPrice, PLAYABLE_GAME_MODES, type UserPacks } from '@/lib/packs';
+
+interface PlayPackButtonProps {
+  pack: Pick<Pack, 'id' | 'slug' | 'is_free' | 'price'>;
+  userPacks: UserPacks;
+}
+
+export function PlayPackButton({ pack, userPacks }: PlayPackButtonProps) {
+  if (!canPlayPack(pack, userPacks)) {
+    return (
+      <p className="text-text-secondary">
+        Unlock this pack for {formatPackPrice(pack)} in the Football IQ app to play it here.
+        {!userPacks.userId && (
+          <>
+            {' '}
+            Already bought it?{' '}
+            <Link
+              href={`/sign-in?next=${encodeURIComponent(`/packs/${pack.slug}`)}`}
+              className="text-secondary underline"
+            >
+              Sign in
+            </Link>
+          </>
+        )}
+      </p>
+    );
+  }
+
+  const [main, ...others] = PLAYABLE_GAME_MODES;
+
+  return (
+    <div className="flex flex-wrap items-center gap-4">
+      <Link
+        href={`/packs/${pack.slug}/play`}
+        className="inline-block rounded-lg bg-gradient px-8 py-4 text-lg font-semibold text-background shadow-glow"
+      >
+        Play {main.label.toLowerCase()}
+      </Link>
+      {others.map(({ mode, label }) => (
+        <Link
+          key={mode}
+          href={`/packs/${pack.slug}/play?mode=${mode}`}
+          className="inline-block rounded-lg border border-secondary/50 px-6 py-4 text-secondary"
+        >
+          Play {label.toLowerCase()}
+        </Link>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canPlayPack,
+  formatPackDifficulty,
+  formatPackPrice,
+  getCompletionPercent,
+  parseGameMode,
+} from '../packs';
+
+describe('formatPackPrice', () => {
+  it('formats prices stored in dollars', () => {
+    expect(formatPackPrice({ is_free: false, price: 2.99 })).toBe('$2.99');
+    expect(formatPackPrice({ is_free: false, price: 5 })).toBe('$5.00');
+    expect(formatPackPrice({ is_free: false, price: null })).toBe('Paid');
+    expect(formatPackPrice({ is_free: true, price: 2.99 })).toBe('Free');
+  });
+});
+
+describe('formatPackDifficulty', () => {
+  it('shows a range, a single level, or nothing for an empty pack', () => {
+    expect(formatPackDifficulty({ difficulty_min: 2, difficulty_max: 4 })).toBe('2–4');
+    expect(formatPackDifficulty({ difficulty_min: 3, difficulty_max: 3 })).toBe('3');
+    expect(formatPackDifficulty({ difficulty_min: null, difficulty_max: null })).toBeNull();
+  });
+});
+
+describe('getCompletionPercent', () => {
+  it('rounds to a whole percentage of at most 100', () => {
+    expect(getCompletionPercent(1, 3)).toBe(33);
+    expect(getCompletionPercent(12, 10)).toBe(100);
+    expect(getCompletionPercent(0, 0)).toBe(0);
+  });
+});
+
+describe('canPlayPack', () => {
+  const paid = { id: 'paid', is_free: false };
+
+  it('lets anyone play free packs and owners play paid ones', () => {
+    expect(canPlayPack({ id: 'free', is_free: true }, { userId: null })).toBe(true);
+    expect(canPlayPack(paid, { userId: null })).toBe(false);
+    expect(canPlayPack(paid, { userId: 'ana', ownedPackIds: [], completion: {} })).toBe(false);
+    expect(canPlayPack(paid, { userId: 'ana', ownedPackIds: ['paid'], completion: {} })).toBe(true);
+  });
+});
+
+describe('parseGameMode', () => {
+  it('accepts the playable modes and falls back to the career path', () => {
+    expect(parseGameMode('transfer')).toBe('transfer');
+    expect(parseGameMode('career_path_full')).toBe('career_path_progressive');
+    expect(parseGameMode(['transfer', 'other'])).toBe('career_path_progressive');
+    expect(parseGameMode(undefined)).toBe('career_path_progressive');
+  });
+});
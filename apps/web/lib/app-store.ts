@@ -0,0 +1,166 @@
+import { X509Certificate, verify } from 'node:crypto';
+import type { PurchaseStatus, StoreProvider, StoreTransaction } from '@football-iq/database';
+
+/**
+ * App Store receipts and notifications for the purchase routes.
+ *
+ * Receipts are verified with Apple's verifyReceipt endpoint, which also
+ * answers for sandbox receipts from TestFlight and development builds.
+ * Refunds and revocations arrive as App Store Server Notifications (v2),
+ * whose payloads Apple signs; they are trusted only when the signing chain
+ * ends in one of the configured Apple root certificates.
+ */
+
+export interface AppStoreConfig {
+  /** Bundle id of the app, receipts for any other app are rejected */
+  bundleId: string;
+  /** App-specific shared secret from App Store Connect */
+  sharedSecret: string;
+  /** Apple root certificates (PEM) that notification signatures must chain to */
+  rootCertificates: string[];
+}
+
+const PRODUCTION_URL = 'https://buy.itunes.apple.com/verifyReceipt';
+const SANDBOX_URL = 'https://sandbox.itunes.apple.com/verifyReceipt';
+
+/** verifyReceipt status for a sandbox receipt sent to production */
+const STATUS_SANDBOX_RECEIPT = 21007;
+
+interface ReceiptTransaction {
+  transaction_id: string;
+  original_transaction_id: string;
+  product_id: string;
+  purchase_date_ms: string;
+  cancellation_date_ms?: string;
+}
+
+interface VerifyReceiptResponse {
+  status: number;
+  receipt?: { bundle_id: string; in_app?: ReceiptTransaction[] };
+  latest_receipt_info?: ReceiptTransaction[];
+}
+
+interface NotificationPayload {
+  notificationType: string;
+  data?: { bundleId?: string; signedTransactionInfo?: string };
+}
+
+interface TransactionInfo {
+  originalTransactionId: string;
+}
+
+export function createAppStoreProvider(config: AppStoreConfig): StoreProvider {
+  const roots = config.rootCertificates.map((pem) => new X509Certificate(pem));
+
+  const postReceipt = async (url: string, receipt: string): Promise<VerifyReceiptResponse> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ 'receipt-data': receipt, password: config.sharedSecret }),
+    });
+    if (!response.ok) throw new Error(`App Store verifyReceipt failed: HTTP ${response.status}`);
+    return response.json();
+  };
+
+  return {
+    id: 'app_store',
+
+    async verifyReceipt(receipt) {
+      let result = await postReceipt(PRODUCTION_URL, receipt);
+      if (result.status === STATUS_SANDBOX_RECEIPT) {
+        result = await postReceipt(SANDBOX_URL, receipt);
+      }
+
+      if (result.status !== 0 || result.receipt?.bundle_id !== config.bundleId) return null;
+
+      const transactions = result.latest_receipt_info ?? result.receipt.in_app ?? [];
+      return transactions.map(toStoreTransaction);
+    },
+
+    async parseNotification(payload) {
+      let body: { signedPayload?: unknown };
+      try {
+        body = JSON.parse(payload);
+      } catch {
+        return null;
+      }
+      if (typeof body?.signedPayload !== 'string') return null;
+
+      const notification = verifySigned<NotificationPayload>(body.signedPayload, roots);
+      if (!notification || notification.data?.bundleId !== config.bundleId) return null;
+
+      const status = toPurchaseStatus(notification.notificationType);
+      if (!status) return { type: 'ignored' };
+
+      const signedTransaction = notification.data.signedTransactionInfo;
+      const transaction = signedTransaction
+        ? verifySigned<TransactionInfo>(signedTransaction, roots)
+        : null;
+      if (!transaction) return null;
+
+      return {
+        type: 'status_changed',
+        originalTransactionId: transaction.originalTransactionId,
+        status,
+      };
+    },
+  };
+}
+
+function toStoreTransaction(transaction: ReceiptTransaction): StoreTransaction {
+  return {
+    transactionId: transaction.transaction_id,
+    originalTransactionId: transaction.original_transaction_id,
+    productId: transaction.product_id,
+    purchasedAt: new Date(Number(transaction.purchase_date_ms)).toISOString(),
+    // Apple cancels a transaction when it refunds it
+    status: transaction.cancellation_date_ms ? 'refunded' : 'active',
+  };
+}
+
+function toPurchaseStatus(notificationType: string): PurchaseStatus | null {
+  switch (notificationType) {
+    case 'REFUND':
+      return 'refunded';
+    case 'REVOKE':
+      return 'revoked';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks a JWS signed by Apple and returns its payload, or null if the
+ * signature or certificate chain doesn't hold up
+ */
+function verifySigned<T>(jws: string, roots: X509Certificate[]): T | null {
+  try {
+    const [header, payload, signature] = jws.split('.');
+    const { alg, x5c } = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+    if (alg !== 'ES256' || !Array.isArray(x5c) || x5c.length !== 3) return null;
+
+    const [leaf, intermediate, root] = x5c.map(
+      (der: string) => new X509Certificate(Buffer.from(der, 'base64'))
+    );
+    const now = Date.now();
+    const chainHolds =
+      roots.some((trusted) => trusted.raw.equals(root.raw)) &&
+      intermediate.verify(root.publicKey) &&
+      leaf.verify(intermediate.publicKey) &&
+      [leaf, intermediate].every(
+        (certificate) =>
+          Date.parse(certificate.validFrom) <= now && now <= Date.parse(certificate.validTo)
+      );
+    if (!chainHolds) return null;
+
+    const signed = verify(
+      'sha256',
+      Buffer.from(`${header}.${payload}`),
+      { key: leaf.publicKey, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url')
+    );
+    return signed ? JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) : null;
+  } catch {
+    return null;
+  }
+}
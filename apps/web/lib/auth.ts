@@ -0,0 +1,18 @@
+/**
+ * Where to send the user after signing in. Only paths on this site are
+ * allowed, so a crafted link can't redirect elsewhere.
+ */
+export function getSafeRedirect(next: string | null | undefined, fallback = '/'): string {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) {
+    return fallback;
+  }
+  return next;
+}
+
+/**
+ * Link target for sign-in and confirmation emails. They come back through
+ * /auth/callback, which sets the session cookies. Browser only.
+ */
+export function getCallbackUrl(next: string): string {
+  return `${location.origin}/auth/callback?next=${encodeURIComponent(next)}`;
+}
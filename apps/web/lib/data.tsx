@@ -0,0 +1,34 @@
+'use client';
+
+import { createContext, useContext, type ReactNode } from 'react';
+import { createSupabaseDataAccess, type DataAccess } from '@football-iq/database';
+import { getSupabaseBrowserClient } from '@/lib/supabase/client';
+
+const DataAccessContext = createContext<DataAccess | null>(null);
+
+let browserData: DataAccess | null = null;
+
+interface DataAccessProviderProps {
+  data: DataAccess;
+  children: ReactNode;
+}
+
+/**
+ * Hands client components a data source other than Supabase, e.g. the
+ * in-memory one (createMemoryDataAccess) in tests.
+ */
+export function DataAccessProvider({ data, children }: DataAccessProviderProps) {
+  return <DataAccessContext.Provider value={data}>{children}</DataAccessContext.Provider>;
+}
+
+/**
+ * Data access for client components: the provider's, or Supabase as the
+ * signed-in user when there is no provider.
+ */
+export function useDataAccess(): DataAccess {
+  const data = useContext(DataAccessContext);
+  if (data) return data;
+
+  browserData ??= createSupabaseDataAccess(getSupabaseBrowserClient());
+  return browserData;
+}
@@ -0,0 +1,93 @@
+import {
+  getOwnedPackIds,
+  getPackCompletion,
+  type GameMode,
+  type Pack,
+  type TypedSupabaseClient,
+} from '@football-iq/database';
+
+type PackPricing = Pick<Pack, 'is_free' | 'price'>;
+type PackDifficulty = Pick<Pack, 'difficulty_min' | 'difficulty_max'>;
+
+const priceFormat = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+
+/**
+ * Formats a pack's price, which is stored in dollars
+ */
+export function formatPackPrice(pack: PackPricing): string {
+  if (pack.is_free) return 'Free';
+  return pack.price === null ? 'Paid' : priceFormat.format(pack.price);
+}
+
+/**
+ * Formats a pack's difficulty range, e.g. "2–4" or "3"
+ * @returns null for a pack with no players yet
+ */
+export function formatPackDifficulty(pack: PackDifficulty): string | null {
+  if (pack.difficulty_min === null || pack.difficulty_max === null) return null;
+  if (pack.difficulty_min === pack.difficulty_max) return `${pack.difficulty_min}`;
+  return `${pack.difficulty_min}–${pack.difficulty_max}`;
+}
+
+/**
+ * Share of a pack's questions the user has finished, as a whole percentage
+ */
+export function getCompletionPercent(finished: number, questionCount: number): number {
+  if (questionCount === 0) return 0;
+  return Math.min(100, Math.round((finished / questionCount) * 100));
+}
+
+/**
+ * The signed-in user's packs and progress, for every pack on a page
+ */
+export type UserPacks =
+  | { userId: null }
+  | {
+      userId: string;
+      ownedPackIds: string[];
+      /** Finished questions by pack id */
+      completion: Record<string, number>;
+    };
+
+/**
+ * Loads the user's packs and progress with a server client
+ * @param packId - Only load progress in this pack
+ */
+export async function getUserPacks(
+  client: TypedSupabaseClient,
+  packId?: string
+): Promise<UserPacks> {
+  const {
+    data: { user },
+  } = await client.auth.getUser();
+  if (!user) return { userId: null };
+
+  const [ownedPackIds, completion] = await Promise.all([
+    getOwnedPackIds(client, user.id),
+    getPackCompletion(client, user.id, packId),
+  ]);
+  return { userId: user.id, ownedPackIds, completion };
+}
+
+/**
+ * Whether the user can play a pack: it's free, or they own it
+ */
+export function canPlayPack(pack: Pick<Pack, 'id' | 'is_free'>, userPacks: UserPacks): boolean {
+  return pack.is_free || (userPacks.userId !== null && userPacks.ownedPackIds.includes(pack.id));
+}
+
+/**
+ * Game modes a pack can be played in on the web, the first is the default
+ */
+export const PLAYABLE_GAME_MODES: { mode: GameMode; label: string }[] = [
+  { mode: 'career_path_progressive', label: 'Career path' },
+  { mode: 'transfer', label: 'Transfers' },
+];
+
+/**
+ * Reads the game mode from a play URL's `mode` parameter, falling back to the default
+ */
+export function parseGameMode(value: string | string[] | undefined): GameMode {
+  const playable = PLAYABLE_GAME_MODES.find(({ mode }) => mode === value);
+  return (playable ?? PLAYABLE_GAME_MODES[0]).mode;
+}
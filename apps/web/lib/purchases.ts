@@ -0,0 +1,32 @@
+import type { StoreProvider } from '@football-iq/database';
+import { createAppStoreProvider } from '@/lib/app-store';
+
+let providers: StoreProvider[] | null = null;
+
+/**
+ * Store providers that can verify receipts, looked up by their id.
+ * The App Store is configured from the environment, which production must set.
+ */
+export function getStoreProvider(id: string): StoreProvider | null {
+  providers ??= createStoreProviders();
+  return providers.find((provider) => provider.id === id) ?? null;
+}
+
+function createStoreProviders(): StoreProvider[] {
+  const bundleId = process.env.APP_STORE_BUNDLE_ID;
+  const sharedSecret = process.env.APP_STORE_SHARED_SECRET;
+  const rootCertificates = process.env.APP_STORE_ROOT_CERTIFICATES?.match(
+    /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g
+  );
+
+  if (!bundleId || !sharedSecret || !rootCertificates) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error(
+        'APP_STORE_BUNDLE_ID, APP_STORE_SHARED_SECRET and APP_STORE_ROOT_CERTIFICATES must be set'
+      );
+    }
+    return [];
+  }
+
+  return [createAppStoreProvider({ bundleId, sharedSecret, rootCertificates })];
+}
@@ -0,0 +1,12 @@
+import { createSupabaseAdminClient, type TypedSupabaseClient } from '@football-iq/database';
+
+/**
+ * Service-role Supabase client for route handlers and server actions.
+ * Never import this from a client component.
+ */
+export function getSupabaseAdminClient(): TypedSupabaseClient {
+  return createSupabaseAdminClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
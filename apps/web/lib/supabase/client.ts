@@ -0,0 +1,16 @@
+import { createSupabaseBrowserClient, type TypedSupabaseClient } from '@football-iq/database';
+
+let browserClient: TypedSupabaseClient | null = null;
+
+/**
+ * Supabase client for client components, acting as the signed-in user.
+ * The session lives in cookies so the server sees it too. One instance is
+ * shared so the session is restored only once.
+ */
+export function getSupabaseBrowserClient(): TypedSupabaseClient {
+  browserClient ??= createSupabaseBrowserClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  );
+  return browserClient;
+}
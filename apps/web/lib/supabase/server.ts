@@ -0,0 +1,26 @@
+import { cookies } from 'next/headers';
+import { createSupabaseServerClient, type TypedSupabaseClient } from '@football-iq/database';
+
+/**
+ * Supabase client for server components and route handlers, acting as the
+ * signed-in user from the request's session cookies. Without a session it
+ * reads public data as anon.
+ */
+export async function getSupabaseServerClient(): Promise<TypedSupabaseClient> {
+  const cookieStore = await cookies();
+
+  return createSupabaseServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      getAll: () => cookieStore.getAll(),
+      setAll: (cookiesToSet) => {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+        } catch {
+          // Server components can't set cookies; the middleware refreshes the session instead
+        }
+      },
+    }
+  );
+}
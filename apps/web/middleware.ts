@@ -0,0 +1,55 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createSupabaseServerClient } from '@football-iq/database';
+
+/** Pages that need a user, guest or full account */
+const PROTECTED_PATHS = ['/account'];
+
+/**
+ * Refreshes the session cookies on every page request, before any server
+ * component reads them, and sends visitors without a session from protected
+ * pages to sign in.
+ */
+export async function middleware(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  const client = createSupabaseServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      getAll: () => request.cookies.getAll(),
+      setAll: (cookiesToSet) => {
+        // Server components of this request read the refreshed session from the request
+        cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+        response = NextResponse.next({ request });
+        cookiesToSet.forEach(({ name, value, options }) =>
+          response.cookies.set(name, value, options)
+        );
+      },
+    }
+  );
+
+  // Validates the session with the auth server, refreshing it if it expired
+  const {
+    data: { user },
+  } = await client.auth.getUser();
+
+  const { pathname, search } = request.nextUrl;
+  const isProtected = PROTECTED_PATHS.some(
+    (path) => pathname === path || pathname.startsWith(`${path}/`)
+  );
+  if (!user && isProtected) {
+    const signIn = request.nextUrl.clone();
+    signIn.pathname = '/sign-in';
+    signIn.search = `?next=${encodeURIComponent(pathname + search)}`;
+    return NextResponse.redirect(signIn);
+  }
+
+  return response;
+}
+
+export const config = {
+  // Pages, not API routes (which authenticate with bearer tokens) or static files
+  matcher: [
+    '/((?!api/|_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
+  ],
+};
@@ -1,9 +1,21 @@
-import { ReactElement } from 'react';
+import { ReactElement, ReactNode } from 'react';
 import { render, RenderOptions } from '@testing-library/react';
+import type { DataAccess } from '@football-iq/database';
+import { createMemoryDataAccess } from '@football-iq/database/memory';
+import { DataAccessProvider } from '@/lib/data';
+
+interface CustomRenderOptions extends Omit<RenderOptions, 'wrapper'> {
+  /** Data the components read and write, defaults to a fresh in-memory database */
+  data?: DataAccess;
+}
 
 // Custom render function that wraps components with providers if needed
-function customRender(ui: ReactElement, options?: Omit<RenderOptions, 'wrapper'>) {
-  return render(ui, { ...options });
+function customRender(ui: ReactElement, { data, ...options }: CustomRenderOptions = {}) {
+  const source = data ?? createMemoryDataAccess();
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <DataAccessProvider data={source}>{children}</DataAccessProvider>
+  );
+  return render(ui, { ...options, wrapper });
 }
 
 // Re-export everything from React Testing Library
@@ -0,0 +1,107 @@
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { PGlite } from '@electric-sql/pglite'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { getDailyChallengeDate, selectDailyPlayer } from '../daily'
+
+/**
+ * select_daily_player exactly as 003_daily_challenge.sql defines it
+ */
+function readSelectDailyPlayerSql(): string {
+  const migration = readFileSync(
+    resolve(__dirname, '../../../supabase/migrations/003_daily_challenge.sql'),
+    'utf8'
+  )
+  const definition = migration.match(
+    /CREATE OR REPLACE FUNCTION select_daily_player\([\s\S]*?\$\$ LANGUAGE sql STABLE SET search_path = public;/
+  )
+  if (!definition) throw new Error('select_daily_player not found in 003_daily_challenge.sql')
+  return definition[0]
+}
+
+const players = Array.from({ length: 12 }, (_, index) => ({
+  id: `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`,
+}))
+
+function days(count: number): string[] {
+  return Array.from({ length: count }, (_, index) =>
+    getDailyChallengeDate(new Date(Date.UTC(2024, 0, 1 + index)))
+  )
+}
+
+describe('getDailyChallengeDate', () => {
+  it('uses the UTC calendar day', () => {
+    expect(getDailyChallengeDate(new Date('2024-03-09T23:30:00-05:00'))).toBe('2024-03-10')
+  })
+})
+
+describe('selectDailyPlayer', () => {
+  it('picks the same player whatever order the players come in', () => {
+    const reversed = [...players].reverse()
+    for (const date of days(30)) {
+      expect(selectDailyPlayer(reversed, date)).toBe(selectDailyPlayer(players, date))
+    }
+  })
+
+  it('spreads the days across the players', () => {
+    const picked = new Set(days(60).map(date => selectDailyPlayer(players, date)?.id))
+    expect(picked.size).toBeGreaterThan(players.length / 2)
+  })
+
+  it('only moves the days a new player wins', () => {
+    const newcomer = { id: '00000000-0000-4000-8000-999999999999' }
+    for (const date of days(60)) {
+      const before = selectDailyPlayer(players, date)
+      const after = selectDailyPlayer([...players, newcomer], date)
+      expect([before, newcomer]).toContain(after)
+    }
+  })
+
+  it('returns null without players and rejects malformed dates', () => {
+    expect(selectDailyPlayer([], '2024-01-01')).toBeNull()
+    expect(() => selectDailyPlayer(players, '1/1/2024')).toThrow('Invalid challenge date')
+  })
+})
+
+describe('selectDailyPlayer matches select_daily_player in SQL', () => {
+  let db: PGlite
+
+  beforeAll(async () => {
+    db = new PGlite()
+    await db.exec(`
+      CREATE TABLE packs (id UUID PRIMARY KEY, is_free BOOLEAN NOT NULL);
+      CREATE TABLE players (id UUID PRIMARY KEY, pack_id UUID NOT NULL REFERENCES packs(id));
+      INSERT INTO packs VALUES
+        ('10000000-0000-4000-8000-000000000000', TRUE),
+        ('20000000-0000-4000-8000-000000000000', FALSE);
+      ${readSelectDailyPlayerSql()}
+    `)
+    for (const player of players) {
+      await db.query(`INSERT INTO players VALUES ($1, '10000000-0000-4000-8000-000000000000')`, [
+        player.id,
+      ])
+    }
+    // Paid players never come up
+    await db.query(
+      `INSERT INTO players VALUES ('30000000-0000-4000-8000-000000000000', '20000000-0000-4000-8000-000000000000')`
+    )
+  })
+
+  afterAll(async () => {
+    await db.close()
+  })
+
+  it('for every day of a year', async () => {
+    const dates = days(366)
+    const { rows } = await db.query<{ player_id: string }>(
+      `SELECT select_daily_player(d.date::DATE) AS player_id
+      FROM jsonb_array_elements_text($1::jsonb) WITH ORDINALITY AS d(date, n)
+      ORDER BY d.n`,
+      [JSON.stringify(dates)]
+    )
+
+    expect(rows.map(row => row.player_id)).toEqual(
+      dates.map(date => selectDailyPlayer(players, date)?.id)
+    )
+  })
+})
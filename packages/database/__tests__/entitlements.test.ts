@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest'
+import type { TypedSupabaseClient } from '../client'
+import { applyStoreNotification, verifyPurchase } from '../entitlements'
+import { createFakeStore } from '../fake-store'
+
+interface RpcCall {
+  fn: string
+  args: Record<string, unknown>
+}
+
+const NOT_SOLD = { code: 'P0002', message: 'No pack is sold as product iq.delisted' }
+
+/**
+ * A service-role client whose RPCs echo back what they were given, or fail
+ * with `error` when one is set. Products in `unsold` aren't sold as a pack
+ */
+function createAdmin(
+  error: { code: string; message: string } | null = null,
+  unsold: string[] = []
+) {
+  const calls: RpcCall[] = []
+  const admin = {
+    async rpc(fn: string, args: Record<string, unknown>) {
+      calls.push({ fn, args })
+      if (error) return { data: null, error, status: 403 }
+      if (unsold.includes(args.p_product_id as string)) {
+        return { data: null, error: NOT_SOLD, status: 404 }
+      }
+      return fn === 'set_store_purchase_status'
+        ? { data: [{ status: args.p_status }], error: null, status: 200 }
+        : { data: { transaction_id: args.p_transaction_id }, error: null, status: 200 }
+    },
+  }
+  return { admin: admin as unknown as TypedSupabaseClient, calls }
+}
+
+describe('createFakeStore', () => {
+  it('verifies the receipts it issued and nothing else', async () => {
+    const store = createFakeStore()
+    const receipt = store.purchase('iq.legends', '2024-01-01T00:00:00Z')
+
+    expect(await store.verifyReceipt(receipt)).toEqual([
+      {
+        transactionId: 'fake-transaction-1',
+        originalTransactionId: 'fake-transaction-1',
+        productId: 'iq.legends',
+        purchasedAt: '2024-01-01T00:00:00Z',
+        status: 'active',
+      },
+    ])
+    expect(await store.verifyReceipt('made-up')).toBeNull()
+    expect(await createFakeStore('other').verifyReceipt(receipt)).toBeNull()
+  })
+
+  it('restores every purchase as new transactions of the originals', async () => {
+    const store = createFakeStore()
+    store.purchase('iq.legends')
+    store.purchase('iq.strikers')
+
+    const restored = await store.verifyReceipt(store.restore())
+
+    expect(restored?.map(transaction => transaction.originalTransactionId)).toEqual([
+      'fake-transaction-1',
+      'fake-transaction-3',
+    ])
+    expect(restored?.map(transaction => transaction.transactionId)).toEqual([
+      'fake-transaction-5',
+      'fake-transaction-6',
+    ])
+  })
+
+  it('authenticates its notifications with the secret', async () => {
+    const store = createFakeStore()
+    store.purchase('iq.legends')
+    const { payload, authorization } = store.refund('fake-transaction-1')
+
+    expect(await store.parseNotification(payload, authorization)).toEqual({
+      type: 'status_changed',
+      originalTransactionId: 'fake-transaction-1',
+      status: 'refunded',
+    })
+    expect(await store.parseNotification(payload, 'Bearer guessed')).toBeNull()
+    expect(await store.parseNotification('not json', authorization)).toBeNull()
+    expect(
+      await store.parseNotification(JSON.stringify({ type: 'RENEWED' }), authorization)
+    ).toBeNull()
+  })
+
+  it('reports the current status when a receipt is verified again', async () => {
+    const store = createFakeStore()
+    const receipt = store.purchase('iq.legends')
+    store.revoke('fake-transaction-1')
+
+    expect((await store.verifyReceipt(receipt))?.[0].status).toBe('revoked')
+  })
+})
+
+describe('verifyPurchase', () => {
+  it('records every transaction on the receipt for the user', async () => {
+    const store = createFakeStore()
+    store.purchase('iq.legends', '2024-01-01T00:00:00Z')
+    store.purchase('iq.strikers', '2024-02-01T00:00:00Z')
+    const { admin, calls } = createAdmin()
+
+    const verification = await verifyPurchase(admin, store, 'user', store.restore())
+
+    expect(verification?.purchases).toHaveLength(2)
+    expect(verification?.skipped).toEqual([])
+    expect(calls).toEqual([
+      {
+        fn: 'record_store_purchase',
+        args: {
+          p_user_id: 'user',
+          p_provider: 'fake',
+          p_transaction_id: 'fake-transaction-5',
+          p_original_transaction_id: 'fake-transaction-1',
+          p_product_id: 'iq.legends',
+          p_purchased_at: '2024-01-01T00:00:00Z',
+          p_status: 'active',
+        },
+      },
+      {
+        fn: 'record_store_purchase',
+        args: {
+          p_user_id: 'user',
+          p_provider: 'fake',
+          p_transaction_id: 'fake-transaction-6',
+          p_original_transaction_id: 'fake-transaction-3',
+          p_product_id: 'iq.strikers',
+          p_purchased_at: '2024-02-01T00:00:00Z',
+          p_status: 'active',
+        },
+      },
+    ])
+  })
+
+  it('skips products that are not sold as a pack and restores the rest', async () => {
+    const store = createFakeStore()
+    store.purchase('iq.delisted')
+    store.purchase('iq.legends')
+    const { admin, calls } = createAdmin(null, ['iq.delisted'])
+
+    const verification = await verifyPurchase(admin, store, 'user', store.restore())
+
+    expect(verification?.purchases).toEqual([{ transaction_id: 'fake-transaction-6' }])
+    expect(verification?.skipped.map(transaction => transaction.productId)).toEqual(['iq.delisted'])
+    expect(calls).toHaveLength(2)
+  })
+
+  it('records nothing for a receipt the store rejects', async () => {
+    const { admin, calls } = createAdmin()
+
+    expect(await verifyPurchase(admin, createFakeStore(), 'user', 'made-up')).toBeNull()
+    expect(calls).toEqual([])
+  })
+
+  it('refuses a purchase another account already claimed', async () => {
+    const store = createFakeStore()
+    const { admin } = createAdmin({ code: '42501', message: 'Purchase belongs to another account' })
+
+    await expect(
+      verifyPurchase(admin, store, 'user', store.purchase('iq.legends'))
+    ).rejects.toMatchObject({ kind: 'forbidden' })
+  })
+})
+
+describe('applyStoreNotification', () => {
+  it('applies refunds to the purchase and its restores', async () => {
+    const store = createFakeStore()
+    store.purchase('iq.legends')
+    const { payload, authorization } = store.refund('fake-transaction-1')
+    const { admin, calls } = createAdmin()
+
+    expect(await applyStoreNotification(admin, store, payload, authorization)).toEqual({
+      outcome: 'applied',
+      purchases: [{ status: 'refunded' }],
+    })
+    expect(calls).toEqual([
+      {
+        fn: 'set_store_purchase_status',
+        args: {
+          p_provider: 'fake',
+          p_original_transaction_id: 'fake-transaction-1',
+          p_status: 'refunded',
+        },
+      },
+    ])
+  })
+
+  it('rejects notifications that are not genuine', async () => {
+    const store = createFakeStore()
+    store.purchase('iq.legends')
+    const { payload } = store.revoke('fake-transaction-1')
+    const { admin, calls } = createAdmin()
+
+    expect(await applyStoreNotification(admin, store, payload, null)).toEqual({
+      outcome: 'rejected',
+    })
+    expect(calls).toEqual([])
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getAnswerHashes,
+  matchAnswer,
+  matchHashedAnswer,
+  normalizeAnswer,
+  typoTolerance,
+  type AnswerTarget,
+} from '../matching'
+
+const pirlo: AnswerTarget = {
+  id: 'pirlo',
+  name: 'Andrea Pirlo',
+  full_name: 'Andrea Pirlo',
+  aliases: ['Il Maestro'],
+}
+const zanetti: AnswerTarget = {
+  id: 'zanetti',
+  name: 'Javier Zanetti',
+  full_name: 'Javier Adelmar Zanetti',
+  aliases: [],
+}
+const vanNistelrooy: AnswerTarget = {
+  id: 'van-nistelrooy',
+  name: 'Ruud van Nistelrooy',
+  full_name: 'Rutgerus Johannes Martinus van Nistelrooij',
+  aliases: [],
+}
+
+describe('normalizeAnswer', () => {
+  it('folds case, diacritics, special letters and punctuation', () => {
+    expect(normalizeAnswer('  Andrés INIESTA ')).toBe('andres iniesta')
+    expect(normalizeAnswer('Ødegaard')).toBe('odegaard')
+    expect(normalizeAnswer("N'Golo Kanté")).toBe('ngolo kante')
+    expect(normalizeAnswer('Ter-Stegen')).toBe('ter stegen')
+  })
+})
+
+describe('typoTolerance', () => {
+  it('scales with the length of the answer', () => {
+    expect(typoTolerance(4)).toBe(0)
+    expect(typoTolerance(5)).toBe(1)
+    expect(typoTolerance(8)).toBe(1)
+    expect(typoTolerance(9)).toBe(2)
+    expect(typoTolerance(12)).toBe(2)
+    expect(typoTolerance(13)).toBe(3)
+  })
+})
+
+describe('matchAnswer', () => {
+  it('accepts the name and full name exactly', () => {
+    expect(matchAnswer('andrea pirlo', pirlo)).toEqual({
+      verdict: 'exact',
+      isCorrect: true,
+      matched: 'Andrea Pirlo',
+      distance: 0,
+    })
+    expect(matchAnswer('Javier Adelmar Zanetti', zanetti).verdict).toBe('exact')
+  })
+
+  it('accepts aliases and surnames as alias answers', () => {
+    expect(matchAnswer('il maestro', pirlo).verdict).toBe('alias')
+    expect(matchAnswer('Pirlo', pirlo)).toMatchObject({ verdict: 'alias', matched: 'pirlo' })
+    expect(matchAnswer('van nistelrooy', vanNistelrooy).verdict).toBe('alias')
+    expect(matchAnswer('Nistelrooy', vanNistelrooy).verdict).toBe('alias')
+  })
+
+  it('tolerates typos within the tolerance for the answer length', () => {
+    // "andreapirlo" is 11 letters, so two edits are allowed
+    expect(matchAnswer('Andera Pirol', pirlo)).toMatchObject({ isCorrect: true, distance: 2 })
+    // A swap of neighbouring letters counts as one edit
+    expect(matchAnswer('Zanteti', zanetti)).toMatchObject({ isCorrect: true, distance: 1 })
+  })
+
+  it('reports guesses just outside the tolerance as close misses', () => {
+    // "pirlo" allows one edit; three is within tolerance + 2
+    expect(matchAnswer('Pxrxx', pirlo)).toMatchObject({
+      verdict: 'close_miss',
+      isCorrect: false,
+      matched: 'pirlo',
+      distance: 3,
+    })
+  })
+
+  it('rejects guesses far from every answer', () => {
+    expect(matchAnswer('Cristiano Ronaldo', pirlo)).toMatchObject({
+      verdict: 'wrong',
+      isCorrect: false,
+      matched: null,
+    })
+    expect(matchAnswer('  ', pirlo).verdict).toBe('wrong')
+  })
+
+  it('does not accept a surname another player in the pack shares', () => {
+    const javier: AnswerTarget = {
+      id: 'javier',
+      name: 'Javier Pirlo',
+      full_name: null,
+      aliases: [],
+    }
+    const pack = [pirlo, zanetti, javier]
+
+    expect(matchAnswer('Pirlo', pirlo, { packPlayers: pack }).verdict).not.toBe('alias')
+    expect(matchAnswer('Pirlo', javier, { packPlayers: pack }).verdict).not.toBe('alias')
+    expect(matchAnswer('Zanetti', zanetti, { packPlayers: pack }).verdict).toBe('alias')
+    // Without the pack, surnames are always accepted
+    expect(matchAnswer('Pirlo', javier).verdict).toBe('alias')
+  })
+})
+
+describe('matchHashedAnswer', () => {
+  it('recognises every answer accepted without typos, with the verdict matchAnswer gives', () => {
+    const pack = [pirlo, zanetti, vanNistelrooy]
+    for (const player of pack) {
+      const hashed = { id: player.id, answer_hashes: getAnswerHashes(player, pack) }
+      for (const guess of [player.name, player.full_name!, ...player.aliases]) {
+        expect(matchHashedAnswer(guess, hashed).verdict).toBe(
+          matchAnswer(guess, player, { packPlayers: pack }).verdict
+        )
+      }
+    }
+
+    const hashed = { id: pirlo.id, answer_hashes: getAnswerHashes(pirlo, pack) }
+    expect(matchHashedAnswer('Andrea Pirlo', hashed)).toMatchObject({
+      verdict: 'exact',
+      isCorrect: true,
+    })
+    expect(matchHashedAnswer('pirlo', hashed).verdict).toBe('alias')
+    expect(matchHashedAnswer('IL MAESTRO', hashed).verdict).toBe('alias')
+    expect(matchHashedAnswer('Andera Pirlo', hashed).isCorrect).toBe(false)
+  })
+
+  it('salts hashes with the player id', () => {
+    const twin = { ...pirlo, id: 'twin' }
+    expect(getAnswerHashes(twin)).not.toEqual(getAnswerHashes(pirlo))
+  })
+})
@@ -0,0 +1,293 @@
+import { describe, expect, it } from 'vitest'
+import type { AnswerContext } from '../queries'
+import { createMemoryDataAccess, type MemoryDataAccessOptions } from '../memory'
+import { createSessionState } from '../session'
+import type { PackDefinition } from '../importer'
+
+const NOW = new Date('2024-05-01T12:00:00Z')
+
+const free: PackDefinition = {
+  pack: { name: 'Free', slug: 'free', is_free: true },
+  players: [
+    {
+      name: 'Andrea Pirlo',
+      nationality: 'Italy',
+      difficulty: 1,
+      career_path: ['Brescia (1995-1998)', 'Inter Milan (1998-2001)', 'AC Milan (2001-2011)'],
+      hints: { hint1: 'World Cup winner in 2006' },
+    },
+    {
+      name: 'Javier Zanetti',
+      nationality: 'Argentina',
+      difficulty: 2,
+      career_path: ['Banfield (1993-1995)', 'Inter Milan (1995-2014)'],
+    },
+  ],
+}
+
+const paid: PackDefinition = {
+  pack: { name: 'Paid', slug: 'paid', is_free: false, price: 2.99 },
+  players: [
+    {
+      name: 'Thierry Henry',
+      nationality: 'France',
+      difficulty: 2,
+      career_path: ['Monaco (1994-1999)', 'Juventus (1999)', 'Arsenal (1999-2007)'],
+    },
+  ],
+}
+
+const start: AnswerContext = { timeZone: 'UTC' }
+
+async function setup(options: MemoryDataAccessOptions = {}) {
+  const data = createMemoryDataAccess({
+    packs: [free, paid],
+    userId: 'ana',
+    now: () => NOW,
+    ...options,
+  })
+  const [freePack, paidPack] = await data.getPacks()
+  const { players } = (await data.getPackWithPlayers('free'))!
+  return { data, freePack, paidPack, pirlo: players[0], zanetti: players[1] }
+}
+
+describe('createMemoryDataAccess', () => {
+  it('starts with the seed packs, without their answers', async () => {
+    const data = createMemoryDataAccess()
+    const [pack] = await data.getPacks()
+    const withPlayers = await data.getPackWithPlayers(pack.slug)
+
+    expect(pack.slug).toBe('football-legends')
+    expect(withPlayers?.players.length).toBe(pack.question_count)
+    expect(withPlayers?.players[0]).not.toHaveProperty('name')
+    expect(withPlayers?.players[0].answer_hashes.length).toBeGreaterThan(0)
+  })
+
+  it('keeps players of paid packs hidden until the pack is owned', async () => {
+    const { data, paidPack } = await setup()
+
+    expect((await data.getPackWithPlayers('paid'))?.players).toEqual([])
+    expect((await data.getPackPreview('paid'))?.sample).toHaveLength(1)
+    await expect(data.submitAnswer('missing', 'transfer', 'x', start)).rejects.toMatchObject({
+      kind: 'not_found',
+    })
+
+    await data.grantPack('ana', paidPack.id)
+    expect((await data.getPackWithPlayers('paid'))?.players).toHaveLength(1)
+    expect(await data.getOwnedPackIds('ana')).toEqual([paidPack.id])
+    await expect(data.grantPack('ana', paidPack.id)).rejects.toMatchObject({
+      kind: 'already_owned',
+    })
+  })
+})
+
+describe('submitAnswer', () => {
+  it('grades, scores and records a correct answer', async () => {
+    const { data, freePack, pirlo } = await setup()
+
+    await data.revealClues(pirlo.id, 'career_path_progressive', { clubsRevealed: 2, hintsUsed: 0 })
+    const result = await data.submitAnswer(pirlo.id, 'career_path_progressive', 'pirlo', start)
+
+    expect(result).toEqual({
+      verdict: 'alias',
+      is_correct: true,
+      completed: true,
+      attempts: 1,
+      score_earned: 70,
+      matched_answer: 'pirlo',
+      recorded: true,
+    })
+    expect(await data.getPackCompletion('ana')).toEqual({ [freePack.id]: 1 })
+    expect(await data.getRevealedAnswers([pirlo.id])).toEqual([
+      { player_id: pirlo.id, name: 'Andrea Pirlo', full_name: null },
+    ])
+    expect(await data.getUserStats('ana')).toMatchObject({ total_score: 70, global_rank: 1 })
+    expect((await data.getLeaderboard())[0]).toMatchObject({ user_id: 'ana', total_score: 70 })
+  })
+
+  it('scores from the clues recorded as they were shown', async () => {
+    const { data, pirlo } = await setup()
+    const clues = (clubsRevealed: number, hintsUsed: number) =>
+      data.revealClues(pirlo.id, 'career_path_progressive', { clubsRevealed, hintsUsed })
+
+    // Clamped to the three clubs and one hint Pirlo has, and never lowered
+    expect(await clues(9, 9)).toEqual({ clubs_revealed: 3, hints_used: 1 })
+    expect(await clues(1, 0)).toEqual({ clubs_revealed: 3, hints_used: 1 })
+
+    const result = await data.submitAnswer(pirlo.id, 'career_path_progressive', 'Pirlo', start)
+    expect(result.score_earned).toBe(25)
+    // Once the question is over, nothing changes
+    expect(await clues(3, 1)).toEqual({ clubs_revealed: 3, hints_used: 1 })
+  })
+
+  it('counts wrong guesses itself', async () => {
+    const { data, pirlo } = await setup()
+
+    const first = await data.submitAnswer(pirlo.id, 'career_path_progressive', 'Totti', start)
+    const second = await data.submitAnswer(pirlo.id, 'career_path_progressive', 'Baggio', start)
+    const third = await data.submitAnswer(pirlo.id, 'career_path_progressive', 'Maldini', start)
+
+    expect([first.completed, second.completed, third.completed]).toEqual([false, false, true])
+    expect(first.matched_answer).toBeNull()
+    expect(third).toMatchObject({ attempts: 3, score_earned: 0, recorded: true })
+  })
+
+  it('keeps the result on record for answers given after a question is over', async () => {
+    const { data, pirlo } = await setup()
+
+    await data.submitAnswer(pirlo.id, 'career_path_progressive', null, start)
+    const retry = await data.submitAnswer(pirlo.id, 'career_path_progressive', 'Pirlo', start)
+
+    expect(retry).toMatchObject({ is_correct: true, recorded: false, score_earned: 0 })
+    expect(await data.getUserStats('ana')).toMatchObject({ total_score: 0, correct_answers: 0 })
+  })
+
+  it('orders answers by when they were given, lowering results but never raising them', async () => {
+    const { data, pirlo, zanetti } = await setup()
+    const earlier = { ...start, answeredAt: '2024-05-01T11:00:00Z' }
+
+    // Queued on another device: given before the answer on record, it lowers it
+    await data.submitAnswer(pirlo.id, 'career_path_progressive', 'Pirlo', start)
+    await data.submitAnswer(pirlo.id, 'career_path_progressive', 'Totti', earlier)
+    const skipped = await data.submitAnswer(pirlo.id, 'career_path_progressive', null, earlier)
+    expect(skipped).toMatchObject({ completed: true, attempts: 1, score_earned: 0, recorded: true })
+
+    // ...but can't raise it once the answer has been shown
+    await data.submitAnswer(zanetti.id, 'career_path_progressive', null, start)
+    const backdated = await data.submitAnswer(
+      zanetti.id,
+      'career_path_progressive',
+      'Zanetti',
+      earlier
+    )
+    expect(backdated).toMatchObject({ is_correct: true, score_earned: 0, recorded: false })
+
+    // Nor can anything given after it
+    const late = await data.submitAnswer(pirlo.id, 'career_path_progressive', 'Pirlo', start)
+    expect(late).toMatchObject({ recorded: false, score_earned: 0 })
+    expect(await data.getUserStats('ana')).toMatchObject({ total_score: 0, total_questions: 2 })
+  })
+
+  it('requires a signed-in user who can play the pack', async () => {
+    const { data, pirlo } = await setup({ userId: null })
+    await expect(
+      data.submitAnswer(pirlo.id, 'career_path_progressive', 'Pirlo', start)
+    ).rejects.toMatchObject({ kind: 'forbidden' })
+  })
+
+  it("only accepts today's daily challenge", async () => {
+    const { data } = await setup()
+    const daily = (await data.getDailyChallenge())!
+    const yesterday = '2024-04-30'
+
+    expect(daily.challenge_date).toBe('2024-05-01')
+    await expect(
+      data.submitAnswer(daily.player_id, 'career_path_progressive', null, {
+        ...start,
+        challengeDate: yesterday,
+      })
+    ).rejects.toMatchObject({ code: '22023' })
+
+    await data.submitAnswer(daily.player_id, 'career_path_progressive', null, {
+      ...start,
+      challengeDate: daily.challenge_date,
+    })
+    expect(await data.getDailyChallengeResult('ana', daily.challenge_date)).toMatchObject({
+      player_id: daily.player_id,
+      answered_correctly: false,
+    })
+  })
+
+  it('keeps late answers off the boards of periods that have closed', async () => {
+    // Wednesday 1 May 2024: the week began on Monday, the month today
+    const { data, pirlo } = await setup()
+    const lastWeek = '2024-04-26T18:00:00Z'
+
+    await data.submitAnswer(pirlo.id, 'career_path_progressive', 'Andrea Pirlo', {
+      ...start,
+      answeredAt: lastWeek,
+    })
+
+    const april = await data.getBoardLeaderboard(
+      { window: 'monthly', scope: 'global' },
+      10,
+      0,
+      new Date(lastWeek)
+    )
+    const may = await data.getBoardLeaderboard({ window: 'monthly', scope: 'global' }, 10, 0, NOW)
+    expect(april).toEqual([])
+    expect(may[0]).toMatchObject({ user_id: 'ana', total_score: 100 })
+    // The play day is still the day it was played
+    expect((await data.getStreak('ana', 'UTC', new Date(lastWeek))).current).toBe(1)
+  })
+
+  it('records the play day and unlocks achievements once', async () => {
+    const { data, pirlo } = await setup()
+    await data.submitAnswer(pirlo.id, 'career_path_progressive', 'Andrea Pirlo', start)
+
+    expect(await data.getStreak('ana', 'UTC', NOW)).toMatchObject({ current: 1 })
+    expect((await data.unlockAchievements()).map(row => row.achievement_id)).toContain(
+      'first_correct'
+    )
+    expect(await data.unlockAchievements()).toEqual([])
+  })
+})
+
+describe('submitAnswers', () => {
+  it('takes a batch in order, reporting the entries it rejects', async () => {
+    const { data, pirlo } = await setup()
+    const mode = 'career_path_progressive'
+
+    const errors = await data.submitAnswers([
+      { kind: 'clues', playerId: pirlo.id, gameMode: mode, clubsRevealed: 2, hintsUsed: 0 },
+      { kind: 'answer', playerId: 'missing', gameMode: mode, guess: 'Pirlo', ...start },
+      { kind: 'answer', playerId: pirlo.id, gameMode: mode, guess: 'Pirlo', ...start },
+    ])
+
+    expect(errors.map(error => error?.kind ?? null)).toEqual([null, 'not_found', null])
+    expect(await data.getUserStats('ana')).toMatchObject({ total_score: 70 })
+  })
+
+  it('refuses batches over the size limit', async () => {
+    const { data, pirlo } = await setup()
+    const entry = {
+      kind: 'answer' as const,
+      playerId: pirlo.id,
+      gameMode: 'career_path_progressive' as const,
+      guess: 'Totti',
+      ...start,
+    }
+
+    await expect(data.submitAnswers(Array(101).fill(entry))).rejects.toMatchObject({
+      code: '22023',
+    })
+    expect(await data.getUserStats('ana')).toBeNull()
+  })
+})
+
+describe('game sessions', () => {
+  it('saves, resumes and deletes a session', async () => {
+    const { data, freePack } = await setup()
+    const { players } = (await data.getPackWithPlayers('free'))!
+    const state = createSessionState({ gameMode: 'career_path_progressive', players })
+
+    const saved = await data.saveGameSession(
+      'ana',
+      freePack.id,
+      'career_path_progressive',
+      0,
+      0,
+      state
+    )
+    const again = await data.saveGameSession('ana', freePack.id, 'career_path_progressive', 1, 40)
+
+    expect(again.id).toBe(saved.id)
+    expect(await data.getGameSession('ana', freePack.id, 'career_path_progressive')).toMatchObject({
+      current_question_index: 1,
+      score: 40,
+    })
+
+    await data.deleteGameSession(saved.id)
+    expect(await data.getGameSession('ana', freePack.id, 'career_path_progressive')).toBeNull()
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import type { UserProgress } from '../types'
+import {
+  compareProgress,
+  mergeProgress,
+  progressKey,
+  resolveProgress,
+  type ProgressRecord,
+} from '../progress'
+
+function local(playerId: string, changes: Partial<ProgressRecord> = {}): ProgressRecord {
+  return {
+    user_id: 'user',
+    player_id: playerId,
+    game_mode: 'career_path_progressive',
+    answered_correctly: true,
+    attempts: 1,
+    score_earned: 100,
+    hints_used: 0,
+    completed_at: '2024-03-01T10:00:00Z',
+    ...changes,
+  }
+}
+
+function server(playerId: string, changes: Partial<ProgressRecord> = {}): UserProgress {
+  return { ...local(playerId, changes), id: `progress-${playerId}`, pack_id: 'pack' }
+}
+
+describe('compareProgress', () => {
+  it('ranks correct answers, then score, then fewer attempts, then the newer result', () => {
+    const wrong = local('a', { answered_correctly: false, score_earned: 0 })
+    expect(compareProgress(local('a'), wrong)).toBeGreaterThan(0)
+    expect(compareProgress(local('a', { score_earned: 40 }), local('a'))).toBeLessThan(0)
+    expect(compareProgress(local('a', { attempts: 2 }), local('a'))).toBeLessThan(0)
+    expect(
+      compareProgress(local('a', { completed_at: '2024-03-02T10:00:00Z' }), local('a'))
+    ).toBeGreaterThan(0)
+    expect(compareProgress(local('a'), server('a'))).toBe(0)
+  })
+})
+
+describe('resolveProgress', () => {
+  it('keeps a local record pending while the server has no result', () => {
+    expect(resolveProgress(local('a'), undefined)).toBe('pending')
+  })
+
+  it('lets the server record win, even over a better local one', () => {
+    const worse = server('a', { answered_correctly: false, score_earned: 0, attempts: 3 })
+    expect(resolveProgress(local('a'), worse)).toBe('keep_server')
+    expect(resolveProgress(local('a'), worse, true)).toBe('keep_server')
+    expect(resolveProgress(local('a'), server('a'))).toBe('keep_local')
+  })
+
+  it('keeps a queued local record given earlier that will lower the server record', () => {
+    const failed = { answered_correctly: false, score_earned: 0 }
+    const earlier = local('a', { ...failed, completed_at: '2024-03-01T09:00:00Z' })
+    const later = local('a', { ...failed, completed_at: '2024-03-01T11:00:00Z' })
+
+    expect(resolveProgress(earlier, server('a'), true)).toBe('pending')
+    expect(resolveProgress(earlier, server('a'))).toBe('keep_server')
+    expect(resolveProgress(later, server('a'), true)).toBe('keep_server')
+  })
+})
+
+describe('mergeProgress', () => {
+  it('plans every key once, restoring what only the server has', () => {
+    const plan = mergeProgress(
+      [
+        local('pending', { score_earned: 20 }),
+        local('pending', { score_earned: 60 }),
+        local('same'),
+        local('differs'),
+      ],
+      [
+        server('same'),
+        server('differs', { answered_correctly: false, score_earned: 0 }),
+        server('server-only'),
+      ]
+    )
+
+    expect(plan.pending).toEqual([local('pending', { score_earned: 60 })])
+    expect(plan.keepLocal).toEqual([local('same')])
+    expect(plan.keepServer.map(record => record.player_id)).toEqual(['differs', 'server-only'])
+  })
+
+  it('only restores server records that are missing or differ locally', () => {
+    const plan = mergeProgress(
+      [local('same'), local('hints'), local('older', { completed_at: '2024-02-01T10:00:00Z' })],
+      [server('same'), server('hints', { hints_used: 1 }), server('older'), server('missing')]
+    )
+
+    expect(plan.keepLocal).toEqual([local('same')])
+    expect(plan.keepServer.map(record => record.player_id)).toEqual(['hints', 'older', 'missing'])
+  })
+
+  it('leaves queued local records the server will take in place', () => {
+    const earlier = local('a', { score_earned: 40, completed_at: '2024-03-01T09:00:00Z' })
+    const plan = mergeProgress([earlier], [server('a')], new Set([progressKey(earlier)]))
+
+    expect(plan.pending).toEqual([earlier])
+    expect(plan.keepServer).toEqual([])
+  })
+
+  it('keeps the same player apart across game modes', () => {
+    const plan = mergeProgress(
+      [local('a'), local('a', { game_mode: 'transfer' })],
+      [server('a', { game_mode: 'transfer' })]
+    )
+
+    expect(plan.pending).toEqual([local('a')])
+    expect(plan.keepLocal).toEqual([local('a', { game_mode: 'transfer' })])
+  })
+})
@@ -0,0 +1,124 @@
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { PGlite } from '@electric-sql/pglite'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { calculateScore, difficultyMultiplier, maxScore, type ScoreInput } from '../scoring'
+import type { GameMode } from '../types'
+
+const GAME_MODES: GameMode[] = ['career_path_progressive', 'career_path_full', 'transfer']
+
+/**
+ * calculate_score exactly as 007_submit_answer.sql defines it
+ */
+function readCalculateScoreSql(): string {
+  const migration = readFileSync(
+    resolve(__dirname, '../../../supabase/migrations/007_submit_answer.sql'),
+    'utf8'
+  )
+  const definition = migration.match(
+    /CREATE OR REPLACE FUNCTION calculate_score\([\s\S]*?\$\$ LANGUAGE plpgsql IMMUTABLE;/
+  )
+  if (!definition) throw new Error('calculate_score not found in 007_submit_answer.sql')
+  return definition[0]
+}
+
+const base: ScoreInput = {
+  gameMode: 'career_path_progressive',
+  difficulty: 1,
+  answeredCorrectly: true,
+  clubsRevealed: 1,
+  totalClubs: 5,
+  hintsUsed: 0,
+  wrongAttempts: 0,
+}
+
+describe('calculateScore', () => {
+  it('gives the base points for a first-club answer at difficulty 1', () => {
+    expect(calculateScore(base).total).toBe(100)
+    expect(calculateScore({ ...base, gameMode: 'career_path_full' }).total).toBe(60)
+    expect(calculateScore({ ...base, gameMode: 'transfer' }).total).toBe(80)
+  })
+
+  it('scores wrong answers 0', () => {
+    expect(calculateScore({ ...base, answeredCorrectly: false }).total).toBe(0)
+  })
+
+  it('scales the reveal penalty with the share of clubs shown', () => {
+    // Half the extra clubs of a short and a long career cost the same
+    expect(calculateScore({ ...base, clubsRevealed: 3, totalClubs: 5 }).total).toBe(70)
+    expect(calculateScore({ ...base, clubsRevealed: 5, totalClubs: 9 }).total).toBe(70)
+    expect(calculateScore({ ...base, clubsRevealed: 5, totalClubs: 5 }).total).toBe(40)
+  })
+
+  it('never drops a correct answer below the floor', () => {
+    const score = calculateScore({ ...base, clubsRevealed: 5, hintsUsed: 3, wrongAttempts: 2 })
+    expect(score.total).toBe(10)
+  })
+
+  it('weights the score by difficulty', () => {
+    expect(difficultyMultiplier(0)).toBe(1)
+    expect(difficultyMultiplier(3)).toBe(1.5)
+    expect(difficultyMultiplier(9)).toBe(2)
+    expect(calculateScore({ ...base, difficulty: 5 }).total).toBe(maxScore(base.gameMode, 5))
+  })
+})
+
+describe('calculateScore matches calculate_score in SQL', () => {
+  let db: PGlite
+
+  beforeAll(async () => {
+    db = new PGlite()
+    await db.exec(`
+      CREATE TYPE game_mode_type AS ENUM ('career_path_progressive', 'career_path_full', 'transfer');
+      ${readCalculateScoreSql()}
+    `)
+  })
+
+  afterAll(async () => {
+    await db.close()
+  })
+
+  it('for every mode, difficulty and penalty combination', async () => {
+    const inputs: ScoreInput[] = []
+    for (const gameMode of GAME_MODES) {
+      for (const difficulty of [0, 1, 2, 3, 4, 5, 6]) {
+        for (const totalClubs of [1, 2, 3, 7]) {
+          for (let clubsRevealed = 0; clubsRevealed <= totalClubs + 1; clubsRevealed++) {
+            for (const hintsUsed of [0, 1, 3]) {
+              for (const wrongAttempts of [0, 1, 2]) {
+                for (const answeredCorrectly of [true, false]) {
+                  inputs.push({
+                    gameMode,
+                    difficulty,
+                    answeredCorrectly,
+                    clubsRevealed,
+                    totalClubs,
+                    hintsUsed,
+                    wrongAttempts,
+                  })
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+
+    const { rows } = await db.query<{ score: number }>(
+      `SELECT calculate_score(
+          (i.input->>'gameMode')::game_mode_type,
+          (i.input->>'difficulty')::INTEGER,
+          (i.input->>'answeredCorrectly')::BOOLEAN,
+          (i.input->>'clubsRevealed')::INTEGER,
+          (i.input->>'totalClubs')::INTEGER,
+          (i.input->>'hintsUsed')::INTEGER,
+          (i.input->>'wrongAttempts')::INTEGER
+        ) AS score
+      FROM jsonb_array_elements($1::jsonb) WITH ORDINALITY AS i(input, n)
+      ORDER BY i.n`,
+      [JSON.stringify(inputs)]
+    )
+
+    expect(rows.map(row => row.score)).toEqual(inputs.map(input => calculateScore(input).total))
+  })
+})
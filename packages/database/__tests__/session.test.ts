@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest'
+import { parseCareerPath } from '../career'
+import { getAnswerHashes } from '../matching'
+import {
+  countQuestions,
+  createSessionState,
+  getCurrentPlayer,
+  parseSessionState,
+  reduceSession,
+  SESSION_STATE_VERSION,
+  type SessionAction,
+  type SessionContext,
+  type SessionState,
+} from '../session'
+import type { Json, PlayerWithCareer } from '../types'
+
+function player(id: string, name: string, careerPath: string[], difficulty = 1): PlayerWithCareer {
+  return {
+    id,
+    pack_id: 'pack',
+    nationality: 'England',
+    position: null,
+    career_path: careerPath,
+    career_stints: parseCareerPath(careerPath).stints,
+    hints: { hint1: 'First hint', hint2: 'Second hint' },
+    difficulty,
+    answer_hashes: getAnswerHashes({ id, name, full_name: null, aliases: [] }),
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  }
+}
+
+const beckham = player('beckham', 'David Beckham', [
+  'Manchester United (1992-2003)',
+  'Real Madrid (2003-2007)',
+  'LA Galaxy (2007-2012)',
+  'Paris Saint-Germain (2013)',
+])
+const tony = player('tony', 'Tony Adams', ['Arsenal (1983-2002)'])
+const players = [beckham, tony]
+
+const progressive: SessionContext = { gameMode: 'career_path_progressive', players }
+
+/** State as it comes back from session_state */
+function toJson(value: unknown): Json {
+  return JSON.parse(JSON.stringify(value))
+}
+
+function play(context: SessionContext, ...actions: SessionAction[]): SessionState {
+  return actions.reduce(
+    (state, action) => reduceSession(state, action, context),
+    createSessionState(context)
+  )
+}
+
+describe('reduceSession', () => {
+  it('starts on the first player with one club revealed', () => {
+    const state = createSessionState(progressive)
+
+    expect(state.version).toBe(SESSION_STATE_VERSION)
+    expect(getCurrentPlayer(state, progressive)?.id).toBe('beckham')
+    expect(state.question).toMatchObject({ revealed_clubs: 1, status: 'in_progress' })
+  })
+
+  it('shows every club from the start in the full career mode', () => {
+    const state = createSessionState({ ...progressive, gameMode: 'career_path_full' })
+    expect(state.question.revealed_clubs).toBe(4)
+  })
+
+  it('scores a correct guess with what was revealed', () => {
+    const guess: SessionAction = { type: 'guess', guess: 'david beckham' }
+    const state = play(progressive, { type: 'reveal_club' }, { type: 'use_hint' }, guess)
+
+    // 100 - 20 for one of three extra clubs - 15 for a hint
+    expect(state.question).toMatchObject({ status: 'correct', score_earned: 65 })
+    expect(state.score).toBe(65)
+  })
+
+  it('fails a question after the allowed wrong guesses', () => {
+    const state = play(
+      { ...progressive, maxWrongGuesses: 2 },
+      { type: 'guess', guess: 'Gary Neville' },
+      { type: 'guess', guess: 'Paul Scholes' },
+      { type: 'guess', guess: 'David Beckham' }
+    )
+
+    expect(state.question.status).toBe('failed')
+    expect(state.question.wrong_guesses).toEqual(['Gary Neville', 'Paul Scholes'])
+    expect(state.score).toBe(0)
+  })
+
+  it("uses the server's grading when it is given", () => {
+    const state = play(progressive, {
+      type: 'guess',
+      guess: 'Bekham',
+      match: { verdict: 'exact', isCorrect: true, matched: 'David Beckham', distance: 1 },
+    })
+    expect(state.question.status).toBe('correct')
+  })
+
+  it('ignores reveals and hints beyond what the player has', () => {
+    const state = play(
+      progressive,
+      ...Array.from({ length: 6 }, (): SessionAction => ({ type: 'reveal_club' })),
+      ...Array.from({ length: 4 }, (): SessionAction => ({ type: 'use_hint' }))
+    )
+    expect(state.question).toMatchObject({ revealed_clubs: 4, hints_used: 2 })
+  })
+
+  it('records the result and moves on, completing after the last question', () => {
+    const first = play(progressive, { type: 'advance' }, { type: 'skip' }, { type: 'advance' })
+    expect(first.current_question_index).toBe(1)
+    expect(first.results).toEqual([
+      {
+        player_id: 'beckham',
+        answered_correctly: false,
+        attempts: 0,
+        score_earned: 0,
+        hints_used: 0,
+        revealed_clubs: 1,
+      },
+    ])
+
+    const answered = reduceSession(first, { type: 'guess', guess: 'Tony Adams' }, progressive)
+    const done = reduceSession(answered, { type: 'advance' }, progressive)
+    expect(done.completed).toBe(true)
+    expect(getCurrentPlayer(done, progressive)).toBeNull()
+    expect(reduceSession(done, { type: 'skip' }, progressive)).toBe(done)
+  })
+
+  it('asks about a move in transfer mode, leaving out players who never moved', () => {
+    const transfer: SessionContext = { gameMode: 'transfer', players }
+    const state = createSessionState(transfer)
+
+    expect(countQuestions(state, transfer)).toBe(1)
+    expect(state.question.transfer).toEqual({
+      from_club: 'Manchester United',
+      to_club: 'Real Madrid',
+      year: 2003,
+      loan: false,
+    })
+  })
+
+  it('follows a stored question order', () => {
+    const state = createSessionState(progressive, ['tony', 'beckham'])
+    expect(getCurrentPlayer(state, progressive)?.id).toBe('tony')
+  })
+
+  it('leaves players who never moved out of a stored transfer order too', () => {
+    const transfer: SessionContext = { gameMode: 'transfer', players }
+    const state = createSessionState(transfer, ['tony', 'beckham'])
+
+    expect(countQuestions(state, transfer)).toBe(1)
+    expect(getCurrentPlayer(state, transfer)?.id).toBe('beckham')
+    expect(state.question.transfer?.to_club).toBe('Real Madrid')
+  })
+})
+
+describe('parseSessionState', () => {
+  it('returns valid state as it is', () => {
+    const state = play(progressive, { type: 'guess', guess: 'Gary Neville' })
+    expect(parseSessionState(toJson(state))).toEqual(state)
+  })
+
+  it('upgrades the unversioned v0 shape using the session row', () => {
+    const state = parseSessionState(
+      { revealed_clubs: 2, hints_used: 1, wrong_guesses: ['Ronaldo'] },
+      { current_question_index: 1, score: 40 }
+    )
+
+    expect(state).toEqual({
+      version: SESSION_STATE_VERSION,
+      question_order: [],
+      current_question_index: 1,
+      score: 40,
+      question: {
+        revealed_clubs: 2,
+        hints_used: 1,
+        wrong_guesses: ['Ronaldo'],
+        status: 'in_progress',
+        last_verdict: null,
+        score_earned: 0,
+        transfer: null,
+      },
+      results: [],
+      completed: false,
+    })
+  })
+
+  it('upgrades v1 questions, which had no transfer', () => {
+    const { transfer: _, ...question } = createSessionState(progressive).question
+    const state = parseSessionState(
+      toJson({ ...createSessionState(progressive), version: 1, question })
+    )
+    expect(state?.question.transfer).toBeNull()
+  })
+
+  it('rejects missing, malformed and future state', () => {
+    expect(parseSessionState(null)).toBeNull()
+    expect(parseSessionState([1, 2])).toBeNull()
+    expect(parseSessionState({ version: SESSION_STATE_VERSION + 1 })).toBeNull()
+    expect(
+      parseSessionState(toJson({ ...createSessionState(progressive), current_question_index: -1 }))
+    ).toBeNull()
+  })
+})
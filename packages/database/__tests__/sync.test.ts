@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ConflictError, TransientError } from '../errors'
+import { backoffDelay, classifySyncError, withRetry } from '../sync'
+
+const noSleep = () => Promise.resolve()
+
+/**
+ * An operation that throws the given failures in turn, then succeeds
+ */
+function failing(...failures: unknown[]) {
+  return vi.fn(async (attempt: number) => {
+    if (attempt <= failures.length) throw failures[attempt - 1]
+    return `ok after ${attempt}`
+  })
+}
+
+describe('classifySyncError', () => {
+  it('retries network failures, timeouts, rate limits and server errors', () => {
+    expect(classifySyncError(new TypeError('Network request failed'))).toBe('transient')
+    expect(classifySyncError({ code: '40001', message: 'could not serialize access' })).toBe(
+      'transient'
+    )
+    expect(classifySyncError({ code: '57014', message: 'canceling statement' })).toBe('transient')
+    expect(classifySyncError(new TransientError('Service unavailable'))).toBe('transient')
+  })
+
+  it('sets aside rejections, constraint violations and bugs', () => {
+    expect(classifySyncError({ code: '42501', message: 'permission denied' })).toBe('permanent')
+    expect(classifySyncError({ code: '23505', message: 'duplicate key' })).toBe('permanent')
+    expect(classifySyncError({ code: '22P02', message: 'invalid input syntax' })).toBe('permanent')
+    expect(classifySyncError(new ConflictError('Already recorded'))).toBe('permanent')
+    // Without the response status, a gateway error looks like any other failure
+    expect(classifySyncError({ code: '', message: 'Gateway Timeout' })).toBe('permanent')
+    expect(classifySyncError(new TypeError('Cannot read properties of undefined'))).toBe(
+      'permanent'
+    )
+  })
+})
+
+describe('backoffDelay', () => {
+  const policy = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 1_000 }
+
+  it('doubles the ceiling each attempt, up to the maximum', () => {
+    expect([1, 2, 3, 4, 5].map(attempt => backoffDelay(attempt, policy, () => 1))).toEqual([
+      100, 200, 400, 800, 1_000,
+    ])
+  })
+
+  it('picks a random delay below the ceiling', () => {
+    expect(backoffDelay(3, policy, () => 0)).toBe(0)
+    expect(backoffDelay(3, policy, () => 0.5)).toBe(200)
+  })
+})
+
+describe('withRetry', () => {
+  it('retries transient failures until the operation succeeds', async () => {
+    const operation = failing(new TypeError('Failed to fetch'), {
+      code: '08006',
+      message: 'connection failure',
+    })
+    const sleep = vi.fn(noSleep)
+    const onRetry = vi.fn()
+
+    await expect(
+      withRetry(operation, { sleep, onRetry, baseDelayMs: 100, random: () => 1 })
+    ).resolves.toBe('ok after 3')
+
+    expect(operation).toHaveBeenCalledTimes(3)
+    expect(sleep.mock.calls).toEqual([[100], [200]])
+    expect(onRetry.mock.calls.map(([attempt, delayMs]) => [attempt, delayMs])).toEqual([
+      [1, 100],
+      [2, 200],
+    ])
+  })
+
+  it('rethrows a permanent failure without retrying', async () => {
+    const rejection = { code: '42501', message: 'new row violates row-level security policy' }
+    const operation = failing(rejection)
+    const sleep = vi.fn(noSleep)
+
+    await expect(withRetry(operation, { sleep })).rejects.toBe(rejection)
+    expect(operation).toHaveBeenCalledTimes(1)
+    expect(sleep).not.toHaveBeenCalled()
+  })
+
+  it('gives up after the last attempt with the last failure', async () => {
+    const failures = [1, 2, 3].map(attempt => new TransientError(`timeout ${attempt}`))
+    const operation = failing(...failures)
+
+    await expect(withRetry(operation, { sleep: noSleep, maxAttempts: 3 })).rejects.toBe(failures[2])
+    expect(operation).toHaveBeenCalledTimes(3)
+  })
+})
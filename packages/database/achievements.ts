@@ -0,0 +1,233 @@
+import type { Player, UserAchievement, UserProgress } from './types'
+import type { StreakSummary } from './streaks'
+import { normalizeAnswer } from './matching'
+
+/**
+ * Achievements for Football IQ
+ *
+ * The catalogue below is the single source of truth for badges. Each
+ * definition measures progress from a user's answers (user_progress), the
+ * content they can play and their play streak. Nothing here writes: the
+ * database grants unlocks (unlock_achievements in 007_submit_answer.sql, which
+ * mirrors these measures) into user_achievements, one row per user and badge,
+ * so evaluating the same progress again never grants a badge twice.
+ *
+ * Achievement ids are stored in the database, so never rename or reuse one,
+ * and add new ones to unlock_achievements too.
+ */
+
+export type AchievementId =
+  | 'first_correct'
+  | 'correct_10'
+  | 'correct_50'
+  | 'correct_100'
+  | 'clean_sheet'
+  | 'forza_azzurri'
+  | 'streak_7'
+  | 'streak_30'
+
+export type AchievementCategory = 'milestone' | 'collection' | 'streak'
+
+export interface AchievementContext {
+  progress: Pick<UserProgress, 'player_id' | 'answered_correctly' | 'hints_used'>[]
+  /** Players the user can play, used for "whole pack" and "all players from" badges */
+  players: Pick<Player, 'id' | 'pack_id' | 'nationality'>[]
+  streak: StreakSummary
+}
+
+export interface AchievementMeasure {
+  current: number
+  target: number
+}
+
+export interface AchievementDefinition {
+  id: AchievementId
+  name: string
+  description: string
+  category: AchievementCategory
+  measure: (context: AchievementContext) => AchievementMeasure
+}
+
+export interface AchievementProgress extends AchievementMeasure {
+  id: AchievementId
+  name: string
+  description: string
+  category: AchievementCategory
+  earned: boolean
+  unlocked_at: string | null
+}
+
+/**
+ * Every achievement, in display order
+ */
+export const ACHIEVEMENTS: readonly AchievementDefinition[] = [
+  {
+    id: 'first_correct',
+    name: 'Off the Mark',
+    description: 'Answer your first question correctly',
+    category: 'milestone',
+    measure: correctAnswers(1),
+  },
+  {
+    id: 'correct_10',
+    name: 'Squad Player',
+    description: 'Answer 10 questions correctly',
+    category: 'milestone',
+    measure: correctAnswers(10),
+  },
+  {
+    id: 'correct_50',
+    name: 'First Team Regular',
+    description: 'Answer 50 questions correctly',
+    category: 'milestone',
+    measure: correctAnswers(50),
+  },
+  {
+    id: 'correct_100',
+    name: 'Centurion',
+    description: 'Answer 100 questions correctly',
+    category: 'milestone',
+    measure: correctAnswers(100),
+  },
+  {
+    id: 'clean_sheet',
+    name: 'Clean Sheet',
+    description: 'Answer every player in a pack correctly without using a hint',
+    category: 'collection',
+    measure: wholePackWithoutHints,
+  },
+  {
+    id: 'forza_azzurri',
+    name: 'Forza Azzurri',
+    description: 'Answer every Italian player correctly',
+    category: 'collection',
+    measure: allFromNationality('Italy'),
+  },
+  {
+    id: 'streak_7',
+    name: 'Week In, Week Out',
+    description: 'Play 7 days in a row',
+    category: 'streak',
+    measure: longestStreak(7),
+  },
+  {
+    id: 'streak_30',
+    name: 'Ever Present',
+    description: 'Play 30 days in a row',
+    category: 'streak',
+    measure: longestStreak(30),
+  },
+]
+
+/**
+ * Looks up an achievement definition by id
+ */
+export function getAchievement(id: string): AchievementDefinition | undefined {
+  return ACHIEVEMENTS.find(achievement => achievement.id === id)
+}
+
+/**
+ * Measures every achievement for a user
+ * Achievements already unlocked stay earned even if the content has since
+ * changed (e.g. a new Italian player was added)
+ * @param unlocked - The user's stored unlocks
+ */
+export function evaluateAchievements(
+  context: AchievementContext,
+  unlocked: Pick<UserAchievement, 'achievement_id' | 'unlocked_at'>[] = []
+): AchievementProgress[] {
+  const unlockedAt = new Map(unlocked.map(row => [row.achievement_id, row.unlocked_at]))
+
+  return ACHIEVEMENTS.map(achievement => {
+    const { current, target } = achievement.measure(context)
+    const storedUnlock = unlockedAt.get(achievement.id) ?? null
+
+    return {
+      id: achievement.id,
+      name: achievement.name,
+      description: achievement.description,
+      category: achievement.category,
+      current: Math.min(current, target),
+      target,
+      earned: storedUnlock !== null || isMet({ current, target }),
+      unlocked_at: storedUnlock,
+    }
+  })
+}
+
+/**
+ * Lists the achievements the context meets that haven't been unlocked yet
+ */
+export function getNewlyEarnedAchievements(
+  context: AchievementContext,
+  unlockedIds: Iterable<string>
+): AchievementId[] {
+  const unlocked = new Set(unlockedIds)
+  return ACHIEVEMENTS.filter(
+    achievement => !unlocked.has(achievement.id) && isMet(achievement.measure(context))
+  ).map(achievement => achievement.id)
+}
+
+function isMet({ current, target }: AchievementMeasure): boolean {
+  return target > 0 && current >= target
+}
+
+function correctAnswers(target: number) {
+  return ({ progress }: AchievementContext): AchievementMeasure => ({
+    current: progress.filter(p => p.answered_correctly).length,
+    target,
+  })
+}
+
+function longestStreak(target: number) {
+  return ({ streak }: AchievementContext): AchievementMeasure => ({
+    current: streak.longest,
+    target,
+  })
+}
+
+/**
+ * Players answered correctly in any mode without a hint, measured against the
+ * pack closest to completion
+ */
+function wholePackWithoutHints({ progress, players }: AchievementContext): AchievementMeasure {
+  const clean = new Set(
+    progress.filter(p => p.answered_correctly && p.hints_used === 0).map(p => p.player_id)
+  )
+
+  const packs = new Map<string, AchievementMeasure>()
+  for (const player of players) {
+    const pack = packs.get(player.pack_id) ?? { current: 0, target: 0 }
+    pack.target++
+    if (clean.has(player.id)) pack.current++
+    packs.set(player.pack_id, pack)
+  }
+
+  let best: AchievementMeasure = { current: 0, target: 0 }
+  for (const pack of packs.values()) {
+    const remaining = pack.target - pack.current
+    const bestRemaining = best.target - best.current
+    if (
+      best.target === 0 ||
+      remaining < bestRemaining ||
+      (remaining === bestRemaining && pack.target < best.target)
+    ) {
+      best = pack
+    }
+  }
+  return best
+}
+
+function allFromNationality(nationality: string) {
+  const wanted = normalizeAnswer(nationality)
+
+  return ({ progress, players }: AchievementContext): AchievementMeasure => {
+    const correct = new Set(progress.filter(p => p.answered_correctly).map(p => p.player_id))
+    const matching = players.filter(player => normalizeAnswer(player.nationality) === wanted)
+
+    return {
+      current: matching.filter(player => correct.has(player.id)).length,
+      target: matching.length,
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import type { CareerStint, Json } from './types'
+
+/**
+ * Career path parsing for Football IQ
+ *
+ * players.career_path is stored as free-text strings in chronological order:
+ *   "Brescia (1995-1998)"          - a spell between two years
+ *   "Reggina (1999, loan)"         - a single-season loan
+ *   "Inter Miami (2023-present)"   - an ongoing spell
+ *   "New York Cosmos (1983)"       - a spell within a single year
+ *
+ * The parser turns each entry into a typed CareerStint and reports entries it
+ * cannot understand instead of throwing, so one bad row never breaks a pack.
+ */
+
+export interface CareerParseIssue {
+  index: number
+  entry: unknown
+  message: string
+}
+
+export interface CareerParseResult {
+  stints: CareerStint[]
+  issues: CareerParseIssue[]
+}
+
+// Earliest year we accept, anything before this is almost certainly a typo
+const MIN_YEAR = 1850
+
+const ENTRY_PATTERN = /^(.+?)\s*\(([^()]*)\)\s*$/
+const YEARS_PATTERN = /^(\d{4})(?:\s*[-–]\s*(\d{4}|present))?$/i
+
+/**
+ * Parses a single career_path entry
+ * @returns The parsed stint, or an error message describing why it could not be parsed
+ */
+export function parseCareerEntry(
+  entry: unknown,
+  currentYear: number = new Date().getFullYear()
+): { stint: CareerStint } | { error: string } {
+  if (typeof entry !== 'string') {
+    return { error: `Expected a string, got ${entry === null ? 'null' : typeof entry}` }
+  }
+
+  const match = entry.trim().match(ENTRY_PATTERN)
+  if (!match) {
+    return { error: `Expected "Club (start-end)" but got "${entry}"` }
+  }
+
+  const club = match[1].trim()
+  const details = match[2].split(',').map(part => part.trim())
+  const yearsPart = details[0]
+  const flags = details.slice(1).map(flag => flag.toLowerCase())
+
+  const unknownFlag = flags.find(flag => flag !== 'loan')
+  if (unknownFlag !== undefined) {
+    return { error: `Unknown qualifier "${unknownFlag}" in "${entry}"` }
+  }
+
+  const years = yearsPart.match(YEARS_PATTERN)
+  if (!years) {
+    return { error: `Could not read years "${yearsPart}" in "${entry}"` }
+  }
+
+  const startYear = parseInt(years[1], 10)
+  const ongoing = years[2]?.toLowerCase() === 'present'
+  const endYear = ongoing ? null : years[2] ? parseInt(years[2], 10) : startYear
+
+  if (startYear < MIN_YEAR || startYear > currentYear) {
+    return { error: `Start year ${startYear} is out of range in "${entry}"` }
+  }
+  if (endYear !== null && endYear > currentYear + 1) {
+    return { error: `End year ${endYear} is in the future in "${entry}"` }
+  }
+  if (endYear !== null && endYear < startYear) {
+    return { error: `End year ${endYear} is before start year ${startYear} in "${entry}"` }
+  }
+
+  return {
+    stint: {
+      club,
+      start_year: startYear,
+      end_year: endYear,
+      ongoing,
+      loan: flags.includes('loan'),
+      raw: entry,
+    },
+  }
+}
+
+/**
+ * Parses a full career_path value, collecting diagnostics for unparseable entries
+ */
+export function parseCareerPath(
+  careerPath: Json | string[],
+  currentYear: number = new Date().getFullYear()
+): CareerParseResult {
+  if (!Array.isArray(careerPath)) {
+    return {
+      stints: [],
+      issues: [{ index: -1, entry: careerPath, message: 'career_path is not an array' }],
+    }
+  }
+
+  const stints: CareerStint[] = []
+  const issues: CareerParseIssue[] = []
+
+  careerPath.forEach((entry, index) => {
+    const result = parseCareerEntry(entry, currentYear)
+    if ('stint' in result) {
+      stints.push(result.stint)
+    } else {
+      issues.push({ index, entry, message: result.error })
+    }
+  })
+
+  return { stints, issues }
+}
+
+/**
+ * Returns true when two stints share at least one calendar year.
+ * Ongoing stints are treated as running until the current year.
+ */
+export function stintsOverlap(
+  a: CareerStint,
+  b: CareerStint,
+  currentYear: number = new Date().getFullYear()
+): boolean {
+  const aEnd = a.end_year ?? currentYear
+  const bEnd = b.end_year ?? currentYear
+  return a.start_year <= bEnd && b.start_year <= aEnd
+}
@@ -1,3 +1,4 @@
+import { createBrowserClient, createServerClient, type CookieMethodsServer } from '@supabase/ssr'
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from './types'
 
@@ -19,4 +20,57 @@ export function createSupabaseClient(
   })
 }
 
+/**
+ * Creates a Supabase client with the service role key, for server code only
+ * It bypasses RLS, so never ship the key to a browser or device
+ * @param supabaseUrl - The Supabase project URL
+ * @param serviceRoleKey - The Supabase service role key
+ */
+export function createSupabaseAdminClient(
+  supabaseUrl: string,
+  serviceRoleKey: string
+): SupabaseClient<Database> {
+  return createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
+
+/**
+ * The cookies of the current request, e.g. Next.js request cookies
+ * setAll may throw where cookies are read-only (React server components); the
+ * session is then refreshed by whoever can write them, e.g. middleware.
+ * Values and options are passed on as they are: the store encodes them
+ */
+export type AuthCookieStore = CookieMethodsServer
+
+/**
+ * Creates a Supabase client for the browser that keeps its session in cookies
+ * The same session is then visible to server components, route handlers and
+ * middleware. Sign-ins use the PKCE flow, so email links come back with a
+ * code to exchange for a session
+ */
+export function createSupabaseBrowserClient(
+  supabaseUrl: string,
+  supabaseKey: string
+): SupabaseClient<Database> {
+  return createBrowserClient<Database>(supabaseUrl, supabaseKey)
+}
+
+/**
+ * Creates a Supabase client for server code that reads the session from the
+ * request's cookies, and writes it back when it is refreshed
+ * It never refreshes in the background or reads sessions from the URL
+ * @param cookies - The cookies of the current request
+ */
+export function createSupabaseServerClient(
+  supabaseUrl: string,
+  supabaseKey: string,
+  cookies: AuthCookieStore
+): SupabaseClient<Database> {
+  return createServerClient<Database>(supabaseUrl, supabaseKey, { cookies })
+}
+
 export type TypedSupabaseClient = SupabaseClient<Database>
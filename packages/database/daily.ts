@@ -0,0 +1,45 @@
+import { sha256Hex } from './sha256'
+
+/**
+ * Daily challenge selection for Football IQ
+ *
+ * Every device picks the same puzzle of the day without asking the server:
+ * each free-pack player gets a per-day hash of the date and their id, and the
+ * lowest hash wins. The pick doesn't depend on the order players were fetched
+ * in, and adding or removing a player only moves the days that player wins
+ * or won, so a device with slightly stale content still agrees on almost
+ * every day. submit_answer recomputes the pick (select_daily_player in
+ * 003_daily_challenge.sql) and only accepts answers for that player.
+ *
+ * Dates are calendar days in UTC ("YYYY-MM-DD"), which is also the key the
+ * one-attempt-per-day rule and the daily leaderboard use.
+ */
+
+/**
+ * Returns the challenge date (UTC calendar day) for a moment in time
+ */
+export function getDailyChallengeDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10)
+}
+
+/**
+ * Picks the puzzle of the day from the free packs' players: the one with the
+ * lowest SHA-256 of "date:id", compared as hex text
+ * @param date - Challenge date as "YYYY-MM-DD"
+ * @returns The selected player, or null if there are no players
+ */
+export function selectDailyPlayer<T extends { id: string }>(players: T[], date: string): T | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new Error(`Invalid challenge date: ${date}`)
+
+  let selected: T | null = null
+  let lowest = ''
+
+  for (const player of players) {
+    const hash = sha256Hex(`${date}:${player.id}`)
+    if (selected === null || hash < lowest) {
+      selected = player
+      lowest = hash
+    }
+  }
+  return selected
+}
@@ -0,0 +1,163 @@
+import type { TypedSupabaseClient } from './client'
+import type {
+  DailyChallenge,
+  DailyChallengeResult,
+  DailyLeaderboardEntry,
+  GameMode,
+  GameSession,
+  LeaderboardEntry,
+  Pack,
+  PackPreview,
+  PackWithPlayers,
+  RevealedAnswer,
+  RevealedClues,
+  SubmitAnswerResult,
+  UserAchievement,
+  UserStats,
+} from './types'
+import type { AchievementProgress } from './achievements'
+import type { DatabaseError } from './errors'
+import type { LeaderboardBoard } from './leaderboards'
+import type { GameSessionWithState, SessionState } from './session'
+import type { StreakSummary } from './streaks'
+import {
+  deleteGameSession,
+  getAchievementProgress,
+  getBoardLeaderboard,
+  getBoardLeaderboardAroundUser,
+  getDailyChallenge,
+  getDailyChallengeHistory,
+  getDailyChallengeResult,
+  getDailyLeaderboard,
+  getEarnedAchievements,
+  getGameSession,
+  getLeaderboard,
+  getLeaderboardAroundUser,
+  getOwnedPackIds,
+  getPackCompletion,
+  getPackPreview,
+  getPacks,
+  getPackWithPlayers,
+  getRevealedAnswers,
+  getStreak,
+  getUserStats,
+  revealClues,
+  saveGameSession,
+  submitAnswer,
+  submitAnswers,
+  unlockAchievements,
+  userOwnsPack,
+  type AnswerContext,
+  type QueuedAnswerEntry,
+  type ShownClues,
+} from './queries'
+
+/**
+ * Data access for Football IQ
+ *
+ * Every query in queries.ts, without the client argument, so code that reads
+ * or writes data can be handed either implementation:
+ *   - createSupabaseDataAccess runs the queries against Supabase
+ *   - createMemoryDataAccess ('@football-iq/database/memory') keeps everything
+ *     in memory, for tests and anything else that has to run offline
+ *
+ * Methods take the same arguments, apply the same defaults and throw the same
+ * DatabaseErrors as the queries they are named after.
+ */
+export interface DataAccess {
+  getPacks(): Promise<Pack[]>
+  getPackWithPlayers(slug: string): Promise<PackWithPlayers | null>
+  getPackPreview(slug: string, sampleSize?: number): Promise<PackPreview | null>
+  getRevealedAnswers(playerIds: string[]): Promise<RevealedAnswer[]>
+  userOwnsPack(userId: string, packId: string): Promise<boolean>
+  getOwnedPackIds(userId: string): Promise<string[]>
+  getPackCompletion(userId: string, packId?: string): Promise<Record<string, number>>
+  revealClues(playerId: string, gameMode: GameMode, clues: ShownClues): Promise<RevealedClues>
+  submitAnswer(
+    playerId: string,
+    gameMode: GameMode,
+    guess: string | null,
+    context?: AnswerContext
+  ): Promise<SubmitAnswerResult>
+  submitAnswers(entries: QueuedAnswerEntry[]): Promise<(DatabaseError | null)[]>
+  getUserStats(userId: string): Promise<UserStats | null>
+  getLeaderboard(limit?: number, offset?: number): Promise<LeaderboardEntry[]>
+  getLeaderboardAroundUser(userId: string, count?: number): Promise<LeaderboardEntry[]>
+  getBoardLeaderboard(
+    board: LeaderboardBoard,
+    limit?: number,
+    offset?: number,
+    at?: Date
+  ): Promise<LeaderboardEntry[]>
+  getBoardLeaderboardAroundUser(
+    board: LeaderboardBoard,
+    userId: string,
+    count?: number,
+    at?: Date
+  ): Promise<LeaderboardEntry[]>
+  saveGameSession(
+    userId: string,
+    packId: string,
+    gameMode: GameMode,
+    currentQuestionIndex: number,
+    score: number,
+    sessionState?: SessionState
+  ): Promise<GameSession>
+  getGameSession(
+    userId: string,
+    packId: string,
+    gameMode: GameMode
+  ): Promise<GameSessionWithState | null>
+  deleteGameSession(sessionId: string): Promise<void>
+  getDailyChallenge(challengeDate?: string): Promise<DailyChallenge | null>
+  getDailyChallengeResult(
+    userId: string,
+    challengeDate: string
+  ): Promise<DailyChallengeResult | null>
+  getDailyChallengeHistory(userId: string, limit?: number): Promise<DailyChallengeResult[]>
+  getDailyLeaderboard(challengeDate: string, limit?: number): Promise<DailyLeaderboardEntry[]>
+  getStreak(userId: string, timeZone: string, now?: Date): Promise<StreakSummary>
+  getEarnedAchievements(userId: string): Promise<UserAchievement[]>
+  getAchievementProgress(userId: string, timeZone: string): Promise<AchievementProgress[]>
+  unlockAchievements(): Promise<UserAchievement[]>
+}
+
+/**
+ * Data access backed by Supabase, acting as whoever the client is signed in as
+ */
+export function createSupabaseDataAccess(client: TypedSupabaseClient): DataAccess {
+  return {
+    getPacks: () => getPacks(client),
+    getPackWithPlayers: slug => getPackWithPlayers(client, slug),
+    getPackPreview: (slug, sampleSize) => getPackPreview(client, slug, sampleSize),
+    getRevealedAnswers: playerIds => getRevealedAnswers(client, playerIds),
+    userOwnsPack: (userId, packId) => userOwnsPack(client, userId, packId),
+    getOwnedPackIds: userId => getOwnedPackIds(client, userId),
+    getPackCompletion: (userId, packId) => getPackCompletion(client, userId, packId),
+    revealClues: (playerId, gameMode, clues) => revealClues(client, playerId, gameMode, clues),
+    submitAnswer: (playerId, gameMode, guess, context) =>
+      submitAnswer(client, playerId, gameMode, guess, context),
+    submitAnswers: entries => submitAnswers(client, entries),
+    getUserStats: userId => getUserStats(client, userId),
+    getLeaderboard: (limit, offset) => getLeaderboard(client, limit, offset),
+    getLeaderboardAroundUser: (userId, count) => getLeaderboardAroundUser(client, userId, count),
+    getBoardLeaderboard: (board, limit, offset, at) =>
+      getBoardLeaderboard(client, board, limit, offset, at),
+    getBoardLeaderboardAroundUser: (board, userId, count, at) =>
+      getBoardLeaderboardAroundUser(client, board, userId, count, at),
+    saveGameSession: (userId, packId, gameMode, currentQuestionIndex, score, sessionState) =>
+      saveGameSession(client, userId, packId, gameMode, currentQuestionIndex, score, sessionState),
+    getGameSession: (userId, packId, gameMode) => getGameSession(client, userId, packId, gameMode),
+    deleteGameSession: sessionId => deleteGameSession(client, sessionId),
+    getDailyChallenge: challengeDate => getDailyChallenge(client, challengeDate),
+    getDailyChallengeResult: (userId, challengeDate) =>
+      getDailyChallengeResult(client, userId, challengeDate),
+    getDailyChallengeHistory: (userId, limit) => getDailyChallengeHistory(client, userId, limit),
+    getDailyLeaderboard: (challengeDate, limit) =>
+      getDailyLeaderboard(client, challengeDate, limit),
+    getStreak: (userId, timeZone, now) => getStreak(client, userId, timeZone, now),
+    getEarnedAchievements: userId => getEarnedAchievements(client, userId),
+    getAchievementProgress: (userId, timeZone) => getAchievementProgress(client, userId, timeZone),
+    unlockAchievements: () => unlockAchievements(client),
+  }
+}
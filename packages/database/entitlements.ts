@@ -0,0 +1,126 @@
+import type { TypedSupabaseClient } from './client'
+import { toDatabaseError } from './errors'
+import type { Purchase, PurchaseStatus } from './types'
+
+/**
+ * Pack purchases for Football IQ
+ *
+ * The app never unlocks a paid pack itself. It sends the store receipt to the
+ * server, which verifies it with the store through a StoreProvider and
+ * records each transaction (record_store_purchase in 008_purchases.sql). The
+ * database grants a pack while an active purchase backs it, so refunds and
+ * revocations reported by the store take it away again.
+ *
+ * The service functions below need a service-role client
+ * (createSupabaseAdminClient). In tests, createFakeStore
+ * ('@football-iq/database/fake-store') stands in for the real stores.
+ */
+
+export interface StoreTransaction {
+  transactionId: string
+  /** Shared by a purchase and every restore of it */
+  originalTransactionId: string
+  productId: string
+  purchasedAt: string
+  status: PurchaseStatus
+}
+
+export type StoreNotification =
+  | { type: 'status_changed'; originalTransactionId: string; status: PurchaseStatus }
+  | { type: 'ignored' }
+
+export interface StoreProvider {
+  /** Stored in purchases.provider, e.g. "app_store" */
+  id: string
+  /**
+   * Verifies a receipt with the store
+   * @returns Every transaction the receipt covers (several for a restore), or null if the store rejects it
+   */
+  verifyReceipt(receipt: string): Promise<StoreTransaction[] | null>
+  /**
+   * Authenticates and parses a server-to-server notification from the store
+   * @returns null if the notification isn't genuine
+   */
+  parseNotification(
+    payload: string,
+    authorization: string | null
+  ): Promise<StoreNotification | null>
+}
+
+export interface PurchaseVerification {
+  /** Purchases recorded for the user */
+  purchases: Purchase[]
+  /** Transactions for products no pack is sold under, e.g. a delisted pack */
+  skipped: StoreTransaction[]
+}
+
+export type NotificationOutcome =
+  | { outcome: 'applied'; purchases: Purchase[] }
+  | { outcome: 'ignored' }
+  | { outcome: 'rejected' }
+
+/**
+ * Verifies a receipt and records its purchases for a user
+ * Used both right after buying a pack and to restore purchases on a new device.
+ * Transactions for products that aren't sold as a pack are skipped, so the
+ * rest of a mixed receipt is still restored
+ * @returns The recorded and skipped transactions, or null if the store rejected the receipt
+ * @throws ForbiddenError if a purchase was already claimed by another account
+ */
+export async function verifyPurchase(
+  admin: TypedSupabaseClient,
+  provider: StoreProvider,
+  userId: string,
+  receipt: string
+): Promise<PurchaseVerification | null> {
+  const transactions = await provider.verifyReceipt(receipt)
+  if (!transactions) return null
+
+  const purchases: Purchase[] = []
+  const skipped: StoreTransaction[] = []
+  for (const transaction of transactions) {
+    const { data, error, status } = await admin.rpc('record_store_purchase', {
+      p_user_id: userId,
+      p_provider: provider.id,
+      p_transaction_id: transaction.transactionId,
+      p_original_transaction_id: transaction.originalTransactionId,
+      p_product_id: transaction.productId,
+      p_purchased_at: transaction.purchasedAt,
+      p_status: transaction.status,
+    })
+
+    if (error) {
+      const failure = toDatabaseError(error, status)
+      if (failure.kind !== 'not_found') throw failure
+      skipped.push(transaction)
+      continue
+    }
+    purchases.push(data)
+  }
+
+  return { purchases, skipped }
+}
+
+/**
+ * Applies a store notification, such as a refund or revocation, to the
+ * purchase it is about
+ */
+export async function applyStoreNotification(
+  admin: TypedSupabaseClient,
+  provider: StoreProvider,
+  payload: string,
+  authorization: string | null
+): Promise<NotificationOutcome> {
+  const notification = await provider.parseNotification(payload, authorization)
+  if (!notification) return { outcome: 'rejected' }
+  if (notification.type === 'ignored') return { outcome: 'ignored' }
+
+  const { data, error, status } = await admin.rpc('set_store_purchase_status', {
+    p_provider: provider.id,
+    p_original_transaction_id: notification.originalTransactionId,
+    p_status: notification.status,
+  })
+
+  if (error) throw toDatabaseError(error, status)
+  return { outcome: 'applied', purchases: data ?? [] }
+}
@@ -0,0 +1,193 @@
+/**
+ * Database errors for Football IQ
+ *
+ * Queries never throw raw PostgREST errors. toDatabaseError maps Postgres
+ * SQLSTATEs and PostgREST codes to a DatabaseError of a kind callers can
+ * branch on, e.g. telling the player they already own a pack instead of
+ * failing. The original code is kept, and the original error is the cause.
+ *
+ * Codes nothing below recognises, such as bad input (22xxx) or a failed
+ * check in a database function, become a plain DatabaseError of kind 'unknown'.
+ */
+
+export type DatabaseErrorKind =
+  | 'not_found'
+  | 'already_owned'
+  | 'forbidden'
+  | 'conflict'
+  | 'transient'
+  | 'unknown'
+
+export interface DatabaseErrorOptions {
+  /** Postgres SQLSTATE or PostgREST code, '' if the request never reached the database */
+  code?: string
+  details?: string | null
+  hint?: string | null
+  cause?: unknown
+}
+
+export class DatabaseError extends Error {
+  readonly kind: DatabaseErrorKind
+  readonly code: string
+  readonly details: string | null
+  readonly hint: string | null
+
+  constructor(kind: DatabaseErrorKind, message: string, options: DatabaseErrorOptions = {}) {
+    super(message, { cause: options.cause })
+    this.name = 'DatabaseError'
+    this.kind = kind
+    this.code = options.code ?? ''
+    this.details = options.details ?? null
+    this.hint = options.hint ?? null
+  }
+}
+
+/** The row, player or product asked for doesn't exist (or isn't visible) */
+export class NotFoundError extends DatabaseError {
+  constructor(message: string, options?: DatabaseErrorOptions) {
+    super('not_found', message, options)
+    this.name = 'NotFoundError'
+  }
+}
+
+/** The user already has the pack */
+export class AlreadyOwnedError extends DatabaseError {
+  constructor(message: string, options?: DatabaseErrorOptions) {
+    super('already_owned', message, options)
+    this.name = 'AlreadyOwnedError'
+  }
+}
+
+/** Row level security or a database function refused the user */
+export class ForbiddenError extends DatabaseError {
+  constructor(message: string, options?: DatabaseErrorOptions) {
+    super('forbidden', message, options)
+    this.name = 'ForbiddenError'
+  }
+}
+
+/** A unique, foreign key or exclusion constraint rejected the write */
+export class ConflictError extends DatabaseError {
+  constructor(message: string, options?: DatabaseErrorOptions) {
+    super('conflict', message, options)
+    this.name = 'ConflictError'
+  }
+}
+
+/** Worth retrying: the database was unreachable, busy or timed out */
+export class TransientError extends DatabaseError {
+  constructor(message: string, options?: DatabaseErrorOptions) {
+    super('transient', message, options)
+    this.name = 'TransientError'
+  }
+}
+
+// Postgres SQLSTATE classes/codes and PostgREST codes worth retrying:
+// connection exceptions, serialization failures, deadlocks, resource
+// exhaustion, cancelled statements and PostgREST connection/pool timeouts
+const TRANSIENT_CODE_PREFIXES = [
+  '08',
+  '40001',
+  '40P01',
+  '53',
+  '57',
+  'PGRST000',
+  'PGRST001',
+  'PGRST002',
+  'PGRST003',
+]
+
+// One row was asked for (.single()) and none came back, or no_data_found
+// raised by a database function
+const NOT_FOUND_CODES = ['PGRST116', 'P0002']
+
+// insufficient_privilege (RLS and database functions) and PostgREST's
+// JWT errors
+const FORBIDDEN_CODE_PREFIXES = ['42501', 'PGRST3']
+
+// unique, foreign key and exclusion violations
+const CONFLICT_CODES = ['23505', '23503', '23P01']
+
+// UNIQUE (user_id, pack_id) in 001_initial_schema.sql
+const OWNERSHIP_CONSTRAINT = 'user_packs_user_id_pack_id_key'
+
+// fetch() failures in Node, browsers and React Native, and timeouts.
+// postgrest-js reports them without a code, as "<name>: <message>"
+const FETCH_FAILURE_PATTERN =
+  /fetch failed|failed to fetch|network request failed|load failed|AbortError|TimeoutError/i
+
+/**
+ * Classifies a Postgres or PostgREST error code
+ * Errors without a code never reached the database, or came back from
+ * something in front of it. Only network failures are transient: fetch
+ * failures (HTTP status 0), timeouts (408), rate limiting (429) and server or
+ * gateway errors (5xx). Anything else without a code is 'unknown', so a bug
+ * on our side fails once instead of being retried forever.
+ */
+export function getDatabaseErrorKind(
+  code: string | null | undefined,
+  message: string = '',
+  status?: number | null
+): DatabaseErrorKind {
+  if (!code) {
+    if (typeof status === 'number' && isTransientStatus(status)) return 'transient'
+    return FETCH_FAILURE_PATTERN.test(message) ? 'transient' : 'unknown'
+  }
+  if (TRANSIENT_CODE_PREFIXES.some(prefix => code.startsWith(prefix))) return 'transient'
+  if (NOT_FOUND_CODES.includes(code)) return 'not_found'
+  if (FORBIDDEN_CODE_PREFIXES.some(prefix => code.startsWith(prefix))) return 'forbidden'
+  if (code === '23505' && message.includes(OWNERSHIP_CONSTRAINT)) return 'already_owned'
+  if (CONFLICT_CODES.includes(code)) return 'conflict'
+  return 'unknown'
+}
+
+/**
+ * Converts anything a query can fail with into a DatabaseError
+ * Pass the response's HTTP status along with a PostgREST error: errors
+ * without a code are only transient when the status says so (see
+ * getDatabaseErrorKind). DatabaseErrors are returned as they are
+ */
+export function toDatabaseError(error: unknown, status?: number): DatabaseError {
+  if (error instanceof DatabaseError) return error
+
+  const fields =
+    typeof error === 'object' && error !== null ? (error as Record<string, unknown>) : {}
+  const code = typeof fields.code === 'string' ? fields.code : ''
+  const message =
+    typeof fields.message === 'string' && fields.message ? fields.message : String(error)
+  const options: DatabaseErrorOptions = {
+    code,
+    details: typeof fields.details === 'string' ? fields.details : null,
+    hint: typeof fields.hint === 'string' ? fields.hint : null,
+    cause: error,
+  }
+
+  // Auth and storage errors carry their own status
+  const httpStatus = status ?? (typeof fields.status === 'number' ? fields.status : undefined)
+
+  switch (getDatabaseErrorKind(code, message, httpStatus)) {
+    case 'not_found':
+      return new NotFoundError(message, options)
+    case 'already_owned':
+      return new AlreadyOwnedError(message, options)
+    case 'forbidden':
+      return new ForbiddenError(message, options)
+    case 'conflict':
+      return new ConflictError(message, options)
+    case 'transient':
+      return new TransientError(message, options)
+    case 'unknown':
+      return new DatabaseError('unknown', message, options)
+  }
+}
+
+/**
+ * Checks for a DatabaseError, optionally of one kind
+ */
+export function isDatabaseError(error: unknown, kind?: DatabaseErrorKind): error is DatabaseError {
+  return error instanceof DatabaseError && (kind === undefined || error.kind === kind)
+}
+
+function isTransientStatus(status: number): boolean {
+  return status === 0 || status === 408 || status === 429 || status >= 500
+}
@@ -0,0 +1,122 @@
+import type { StoreProvider, StoreTransaction } from './entitlements'
+
+/**
+ * Fake app store for Football IQ
+ *
+ * A StoreProvider that issues and verifies its own receipts, so the purchase
+ * flow in entitlements.ts can be exercised without a real store. It accepts
+ * any purchase, so it must never be registered in a deployed app: import it
+ * from '@football-iq/database/fake-store' in tests only.
+ */
+
+export interface FakeStoreNotification {
+  payload: string
+  authorization: string
+}
+
+export interface FakeStore extends StoreProvider {
+  /** Buys a product and returns the receipt the app would send */
+  purchase(productId: string, purchasedAt?: string): string
+  /** Returns a receipt restoring everything bought so far, as on a new device */
+  restore(): string
+  /** Refunds a purchase and returns the notification the store would send */
+  refund(originalTransactionId: string): FakeStoreNotification
+  /** Revokes a purchase and returns the notification the store would send */
+  revoke(originalTransactionId: string): FakeStoreNotification
+}
+
+/**
+ * In-memory store for tests
+ * Receipts are opaque ids that only the store that issued them can verify,
+ * and notifications are authenticated with the store's secret
+ */
+export function createFakeStore(id = 'fake', secret = 'fake-store-secret'): FakeStore {
+  const purchases = new Map<string, Omit<StoreTransaction, 'transactionId'>>()
+  const receipts = new Map<string, StoreTransaction[]>()
+  let sequence = 0
+
+  const nextId = (prefix: string) => `${id}-${prefix}-${++sequence}`
+
+  const issueReceipt = (transactions: StoreTransaction[]) => {
+    const receipt = nextId('receipt')
+    receipts.set(receipt, transactions)
+    return receipt
+  }
+
+  const notify = (type: string, originalTransactionId: string): FakeStoreNotification => {
+    const purchase = purchases.get(originalTransactionId)
+    if (!purchase) throw new Error(`Unknown fake store purchase: ${originalTransactionId}`)
+
+    purchase.status = type === 'REFUND' ? 'refunded' : 'revoked'
+    return {
+      payload: JSON.stringify({ type, originalTransactionId }),
+      authorization: `Bearer ${secret}`,
+    }
+  }
+
+  return {
+    id,
+
+    async verifyReceipt(receipt) {
+      const transactions = receipts.get(receipt)
+      if (!transactions) return null
+
+      // Report the current status, as the real stores do
+      return transactions.map(transaction => ({
+        ...transaction,
+        status: purchases.get(transaction.originalTransactionId)?.status ?? transaction.status,
+      }))
+    },
+
+    async parseNotification(payload, authorization) {
+      if (authorization !== `Bearer ${secret}`) return null
+
+      let body: { type?: string; originalTransactionId?: string }
+      try {
+        body = JSON.parse(payload)
+      } catch {
+        return null
+      }
+
+      const { type, originalTransactionId } = body
+      if (typeof originalTransactionId !== 'string') return null
+      if (type === 'REFUND') {
+        return { type: 'status_changed', originalTransactionId, status: 'refunded' }
+      }
+      if (type === 'REVOKE') {
+        return { type: 'status_changed', originalTransactionId, status: 'revoked' }
+      }
+      return { type: 'ignored' }
+    },
+
+    purchase(productId, purchasedAt = new Date().toISOString()) {
+      const transactionId = nextId('transaction')
+      const purchase = {
+        originalTransactionId: transactionId,
+        productId,
+        purchasedAt,
+        status: 'active' as const,
+      }
+      purchases.set(transactionId, purchase)
+      return issueReceipt([{ ...purchase, transactionId }])
+    },
+
+    restore() {
+      // Restores come back as new transactions of the original purchases
+      return issueReceipt(
+        [...purchases.values()].map(purchase => ({
+          ...purchase,
+          transactionId: nextId('transaction'),
+        }))
+      )
+    },
+
+    refund(originalTransactionId) {
+      return notify('REFUND', originalTransactionId)
+    },
+
+    revoke(originalTransactionId) {
+      return notify('REVOKE', originalTransactionId)
+    },
+  }
+}
@@ -0,0 +1,509 @@
+import type { Database, Pack } from './types'
+import { parseCareerEntry } from './career'
+import { normalizeAnswer } from './matching'
+
+/**
+ * Pack importer for Football IQ
+ *
+ * Content editors write a pack as JSON (the pack and its players) or as JSON
+ * for the pack plus a CSV of players. The importer checks the definition
+ * against the packs and players Insert types and the content rules, then
+ * generates SQL that can be run any number of times: packs are upserted on
+ * their slug and players on (pack_id, name) (see 010_player_import_keys.sql).
+ *
+ * Renaming a player in a definition adds a new player; remove the old one by
+ * hand. Players missing from a definition are left in place.
+ */
+
+type PackInsert = Database['public']['Tables']['packs']['Insert']
+type PlayerInsert = Database['public']['Tables']['players']['Insert']
+
+export interface PlayerHints {
+  hint1?: string
+  hint2?: string
+  hint3?: string
+}
+
+/** A player as written by editors: a players Insert row without the generated columns */
+export type PlayerDefinition = Omit<
+  PlayerInsert,
+  | 'id'
+  | 'pack_id'
+  | 'answer_hashes'
+  | 'created_at'
+  | 'updated_at'
+  | 'career_path'
+  | 'aliases'
+  | 'hints'
+> & {
+  career_path: string[]
+  aliases?: string[]
+  hints?: PlayerHints | null
+}
+
+/** question_count and the difficulty range are derived from the players by the database */
+export type PackFields = Omit<
+  PackInsert,
+  'id' | 'created_at' | 'updated_at' | 'question_count' | 'difficulty_min' | 'difficulty_max'
+>
+
+export interface PackDefinition {
+  pack: PackFields
+  players: PlayerDefinition[]
+}
+
+export interface ImportIssue {
+  /** File (or other source) the definition came from */
+  source: string
+  /** Where in the definition, e.g. "players[3].career_path[1]" */
+  path: string
+  message: string
+}
+
+export interface PackSource {
+  source: string
+  /** Parsed JSON of the pack file. A CSV of players replaces its players */
+  definition: unknown
+  playersCsv?: string
+}
+
+export interface PackImport {
+  /** Every definition that passed validation on its own */
+  packs: PackDefinition[]
+  issues: ImportIssue[]
+}
+
+const PACK_FIELDS = ['name', 'slug', 'description', 'price', 'is_free', 'store_product_id']
+const PLAYER_FIELDS = [
+  'name',
+  'full_name',
+  'nationality',
+  'position',
+  'career_path',
+  'aliases',
+  'hints',
+  'difficulty',
+]
+const HINT_FIELDS = ['hint1', 'hint2', 'hint3']
+
+/** Separates career entries and aliases within a CSV cell */
+const CSV_LIST_SEPARATOR = ';'
+
+/**
+ * Reads players from CSV with a header row naming the player fields
+ * career_path and aliases hold several values separated by ";", and the
+ * hints are given as hint1, hint2 and hint3 columns. Empty cells are left out.
+ */
+export function parsePlayersCsv(csv: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(csv)
+  if (!header) return []
+
+  const columns = header.map(column => column.trim())
+
+  return rows.map(row => {
+    const player: Record<string, unknown> = {}
+    const hints: Record<string, string> = {}
+
+    columns.forEach((column, index) => {
+      const value = (row[index] ?? '').trim()
+      if (!value) return
+
+      if (HINT_FIELDS.includes(column)) {
+        hints[column] = value
+      } else if (column === 'career_path' || column === 'aliases') {
+        player[column] = value
+          .split(CSV_LIST_SEPARATOR)
+          .map(item => item.trim())
+          .filter(Boolean)
+      } else if (column === 'difficulty') {
+        player[column] = Number(value)
+      } else {
+        player[column] = value
+      }
+    })
+
+    if (Object.keys(hints).length > 0) player.hints = hints
+    return player
+  })
+}
+
+/**
+ * Validates one pack definition
+ * @returns The definition when it has no issues, otherwise null
+ */
+export function validatePackDefinition(
+  input: unknown,
+  source: string
+): { definition: PackDefinition | null; issues: ImportIssue[] } {
+  const issues: ImportIssue[] = []
+  const report = (path: string, message: string) => issues.push({ source, path, message })
+
+  if (!isRecord(input)) {
+    report('', 'definition must be an object with "pack" and "players"')
+    return { definition: null, issues }
+  }
+
+  reportUnknownFields(input, ['pack', 'players'], '', report)
+  validatePack(input.pack, report)
+
+  if (!Array.isArray(input.players)) {
+    report('players', 'must be an array of players')
+  } else {
+    if (input.players.length === 0) report('players', 'a pack needs at least one player')
+    input.players.forEach((player, index) => validatePlayer(player, `players[${index}]`, report))
+  }
+
+  return { definition: issues.length === 0 ? (input as unknown as PackDefinition) : null, issues }
+}
+
+/**
+ * Finds players that appear more than once, within a pack or across packs
+ * A player is identified by their full name (or name) and nationality
+ */
+export function findDuplicatePlayers(
+  packs: { source: string; definition: PackDefinition }[]
+): ImportIssue[] {
+  const issues: ImportIssue[] = []
+  const seen = new Map<string, { slug: string; index: number }>()
+
+  for (const { source, definition } of packs) {
+    definition.players.forEach((player, index) => {
+      const key = `${normalizeAnswer(player.full_name || player.name)}|${normalizeAnswer(player.nationality)}`
+      const first = seen.get(key)
+
+      if (!first) {
+        seen.set(key, { slug: definition.pack.slug, index })
+        return
+      }
+
+      const where =
+        first.slug === definition.pack.slug
+          ? `players[${first.index}]`
+          : `players[${first.index}] of pack "${first.slug}"`
+      issues.push({
+        source,
+        path: `players[${index}]`,
+        message: `${player.name} is already in ${where}`,
+      })
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Validates a set of pack definitions together, so that duplicates across
+ * packs, slugs and store product ids are caught as well
+ */
+export function importPacks(sources: PackSource[]): PackImport {
+  const issues: ImportIssue[] = []
+  const valid: { source: string; definition: PackDefinition }[] = []
+
+  for (const { source, definition, playersCsv } of sources) {
+    const input =
+      playersCsv !== undefined && isRecord(definition)
+        ? { ...definition, players: parsePlayersCsv(playersCsv) }
+        : definition
+
+    const result = validatePackDefinition(input, source)
+    issues.push(...result.issues)
+    if (result.definition) valid.push({ source, definition: result.definition })
+  }
+
+  const slugs = new Map<string, string>()
+  const productIds = new Map<string, string>()
+  for (const { source, definition } of valid) {
+    const { slug, store_product_id } = definition.pack
+
+    const slugSource = slugs.get(slug)
+    if (slugSource) {
+      issues.push({
+        source,
+        path: 'pack.slug',
+        message: `"${slug}" is also used by ${slugSource}`,
+      })
+    } else {
+      slugs.set(slug, source)
+    }
+
+    if (!store_product_id) continue
+    const productSource = productIds.get(store_product_id)
+    if (productSource) {
+      issues.push({
+        source,
+        path: 'pack.store_product_id',
+        message: `"${store_product_id}" is also used by ${productSource}`,
+      })
+    } else {
+      productIds.set(store_product_id, source)
+    }
+  }
+
+  issues.push(...findDuplicatePlayers(valid))
+
+  return { packs: valid.map(({ definition }) => definition), issues }
+}
+
+/**
+ * The pack fields that follow from its players, as derive_pack_metadata in
+ * 011_derived_pack_metadata.sql computes them
+ */
+export function getDerivedPackFields(
+  players: Pick<PlayerInsert, 'difficulty'>[]
+): Pick<Pack, 'question_count' | 'difficulty_min' | 'difficulty_max'> {
+  if (players.length === 0) return { question_count: 0, difficulty_min: null, difficulty_max: null }
+
+  const difficulties = players.map(player => player.difficulty)
+  return {
+    question_count: players.length,
+    difficulty_min: Math.min(...difficulties),
+    difficulty_max: Math.max(...difficulties),
+  }
+}
+
+/**
+ * Generates the SQL that creates or updates a pack and its players
+ * Running it again with the same definition changes nothing
+ */
+export function generatePackSql(definition: PackDefinition): string {
+  const { pack, players } = definition
+  const isFree = pack.is_free ?? false
+
+  const lines = [
+    `-- Pack: ${pack.name} (${pack.slug})`,
+    'DO $$',
+    'DECLARE',
+    '    v_pack_id UUID;',
+    'BEGIN',
+    '    INSERT INTO packs (name, description, slug, price, is_free, store_product_id)',
+    '    VALUES (',
+    `        ${sqlText(pack.name)},`,
+    `        ${sqlText(pack.description ?? null)},`,
+    `        ${sqlText(pack.slug)},`,
+    `        ${pack.price == null ? 'NULL' : String(pack.price)},`,
+    `        ${isFree ? 'true' : 'false'},`,
+    `        ${sqlText(pack.store_product_id ?? null)}`,
+    '    )',
+    '    ON CONFLICT (slug) DO UPDATE SET',
+    '        name = EXCLUDED.name,',
+    '        description = EXCLUDED.description,',
+    '        price = EXCLUDED.price,',
+    '        is_free = EXCLUDED.is_free,',
+    '        store_product_id = EXCLUDED.store_product_id,',
+    '        updated_at = NOW()',
+    '    WHERE (packs.name, packs.description, packs.price, packs.is_free, packs.store_product_id)',
+    '        IS DISTINCT FROM (EXCLUDED.name, EXCLUDED.description, EXCLUDED.price,',
+    '           EXCLUDED.is_free, EXCLUDED.store_product_id);',
+    '',
+    // RETURNING skips rows the WHERE above left alone
+    `    SELECT id INTO v_pack_id FROM packs WHERE slug = ${sqlText(pack.slug)};`,
+  ]
+
+  for (const player of players) {
+    lines.push(
+      '',
+      `    -- ${player.name}`,
+      '    INSERT INTO players (pack_id, name, full_name, nationality, position, career_path, aliases, hints, difficulty)',
+      '    VALUES (',
+      '        v_pack_id,',
+      `        ${sqlText(player.name)},`,
+      `        ${sqlText(player.full_name ?? null)},`,
+      `        ${sqlText(player.nationality)},`,
+      `        ${sqlText(player.position ?? null)},`,
+      `        ${sqlJson(player.career_path)},`,
+      `        ${sqlJson(player.aliases ?? [])},`,
+      `        ${player.hints ? sqlJson(player.hints) : 'NULL'},`,
+      `        ${player.difficulty}`,
+      '    )',
+      '    ON CONFLICT (pack_id, name) DO UPDATE SET',
+      '        full_name = EXCLUDED.full_name,',
+      '        nationality = EXCLUDED.nationality,',
+      '        position = EXCLUDED.position,',
+      '        career_path = EXCLUDED.career_path,',
+      '        aliases = EXCLUDED.aliases,',
+      '        hints = EXCLUDED.hints,',
+      '        difficulty = EXCLUDED.difficulty,',
+      '        updated_at = NOW()',
+      // Only touch rows that changed, so re-running doesn't bump updated_at
+      '    WHERE (players.full_name, players.nationality, players.position, players.career_path,',
+      '           players.aliases, players.hints, players.difficulty)',
+      '        IS DISTINCT FROM (EXCLUDED.full_name, EXCLUDED.nationality, EXCLUDED.position,',
+      '           EXCLUDED.career_path, EXCLUDED.aliases, EXCLUDED.hints, EXCLUDED.difficulty);'
+    )
+  }
+
+  lines.push('END $$;', '')
+  return lines.join('\n')
+}
+
+type Report = (path: string, message: string) => void
+
+function validatePack(pack: unknown, report: Report): void {
+  if (!isRecord(pack)) {
+    report('pack', 'must be an object')
+    return
+  }
+
+  reportUnknownFields(pack, PACK_FIELDS, 'pack', report)
+
+  if (!isNonEmptyString(pack.name)) report('pack.name', 'is required')
+  if (!isNonEmptyString(pack.slug) || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(pack.slug)) {
+    report('pack.slug', 'must be lowercase letters, digits and single hyphens')
+  }
+  if (pack.description != null && typeof pack.description !== 'string') {
+    report('pack.description', 'must be a string')
+  }
+  if (pack.is_free != null && typeof pack.is_free !== 'boolean') {
+    report('pack.is_free', 'must be true or false')
+  }
+  if (pack.store_product_id != null && !isNonEmptyString(pack.store_product_id)) {
+    report('pack.store_product_id', 'must be a non-empty string')
+  }
+
+  if (pack.is_free === true) {
+    if (pack.price != null) report('pack.price', 'a free pack has no price')
+  } else if (typeof pack.price !== 'number' || !(pack.price > 0) || !isCents(pack.price)) {
+    report('pack.price', 'a paid pack needs a price in dollars, e.g. 2.99')
+  }
+}
+
+function validatePlayer(player: unknown, path: string, report: Report): void {
+  if (!isRecord(player)) {
+    report(path, 'must be an object')
+    return
+  }
+
+  reportUnknownFields(player, PLAYER_FIELDS, path, report)
+
+  if (!isNonEmptyString(player.name)) report(`${path}.name`, 'is required')
+  if (!isNonEmptyString(player.nationality)) report(`${path}.nationality`, 'is required')
+  if (player.full_name != null && !isNonEmptyString(player.full_name)) {
+    report(`${path}.full_name`, 'must be a non-empty string')
+  }
+  if (player.position != null && !isNonEmptyString(player.position)) {
+    report(`${path}.position`, 'must be a non-empty string')
+  }
+
+  const { difficulty } = player
+  if (
+    typeof difficulty !== 'number' ||
+    !Number.isInteger(difficulty) ||
+    difficulty < 1 ||
+    difficulty > 5
+  ) {
+    report(`${path}.difficulty`, 'must be a whole number from 1 to 5')
+  }
+
+  if (!Array.isArray(player.career_path) || player.career_path.length === 0) {
+    report(`${path}.career_path`, 'must list at least one club')
+  } else {
+    player.career_path.forEach((entry, index) => {
+      const result = parseCareerEntry(entry)
+      if ('error' in result) report(`${path}.career_path[${index}]`, result.error)
+    })
+  }
+
+  if (player.aliases != null) {
+    if (!Array.isArray(player.aliases)) {
+      report(`${path}.aliases`, 'must be an array of names')
+    } else {
+      player.aliases.forEach((alias, index) => {
+        if (!isNonEmptyString(alias) || !normalizeAnswer(alias)) {
+          report(`${path}.aliases[${index}]`, 'must be a name')
+        }
+      })
+    }
+  }
+
+  if (player.hints != null) {
+    if (!isRecord(player.hints)) {
+      report(`${path}.hints`, 'must be an object with hint1, hint2 and hint3')
+    } else {
+      reportUnknownFields(player.hints, HINT_FIELDS, `${path}.hints`, report)
+      for (const field of HINT_FIELDS) {
+        const hint = player.hints[field]
+        if (hint != null && !isNonEmptyString(hint)) {
+          report(`${path}.hints.${field}`, 'must be a non-empty string')
+        }
+      }
+    }
+  }
+}
+
+function reportUnknownFields(
+  value: Record<string, unknown>,
+  known: string[],
+  path: string,
+  report: Report
+): void {
+  for (const field of Object.keys(value)) {
+    if (!known.includes(field)) report(path ? `${path}.${field}` : field, 'is not a known field')
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function isCents(value: number): boolean {
+  return Math.abs(Math.round(value * 100) - value * 100) < 1e-6
+}
+
+function sqlText(value: string | null): string {
+  return value === null ? 'NULL' : `'${value.replace(/'/g, "''")}'`
+}
+
+function sqlJson(value: unknown): string {
+  return `${sqlText(JSON.stringify(value))}::jsonb`
+}
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180: quoted cells may contain
+ * commas, newlines and doubled quotes)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // Blank lines carry no player
+  return rows.filter(cells => cells.some(value => value.trim()))
+}
@@ -6,3 +6,50 @@ export * from './client'
 
 // Re-export queries
 export * from './queries'
+
+// Re-export database errors
+export * from './errors'
+
+// Re-export data access
+export * from './data'
+
+// Re-export answer matching
+export * from './matching'
+
+// Re-export career path parsing
+export * from './career'
+
+// Re-export scoring rules
+export * from './scoring'
+
+// Re-export game session state
+export * from './session'
+
+// Re-export transfer questions
+export * from './transfer'
+
+// Re-export daily challenge selection
+export * from './daily'
+
+// Re-export streaks and achievements
+export * from './streaks'
+export * from './achievements'
+
+// Re-export leaderboard boards
+export * from './leaderboards'
+
+// Re-export live leaderboards
+export * from './realtime'
+
+// Re-export offline sync helpers
+export * from './sync'
+export * from './progress'
+
+// Re-export purchase verification and entitlements
+export * from './entitlements'
+
+// Re-export pack importer
+export * from './importer'
+
+// Re-export content linting
+export * from './lint'
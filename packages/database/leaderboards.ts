@@ -0,0 +1,65 @@
+import type { GameMode, LeaderboardWindow } from './types'
+
+/**
+ * Leaderboard boards for Football IQ
+ *
+ * Besides the all-time global leaderboard there are weekly and monthly
+ * boards, each of which can be global, per pack or per game mode. A board is
+ * identified by a key the database builds the same way (leaderboard_board_key
+ * in 006_scoped_leaderboards.sql), e.g. "weekly:2026-10-12:pack:<pack id>".
+ *
+ * Periods reset on UTC boundaries: weeks start on Monday 00:00 UTC, months on
+ * the 1st at 00:00 UTC.
+ */
+
+export type LeaderboardBoard =
+  | { window: LeaderboardWindow; scope: 'global' }
+  | { window: LeaderboardWindow; scope: 'pack'; packId: string }
+  | { window: LeaderboardWindow; scope: 'game_mode'; gameMode: GameMode }
+
+export interface LeaderboardPeriod {
+  /** First day of the period as "YYYY-MM-DD", null for all_time */
+  start: string | null
+  /** When the board resets (ISO timestamp), null for all_time */
+  resetsAt: string | null
+}
+
+/**
+ * Returns the period of a window that contains a moment
+ */
+export function getLeaderboardPeriod(
+  window: LeaderboardWindow,
+  at: Date = new Date()
+): LeaderboardPeriod {
+  const year = at.getUTCFullYear()
+  const month = at.getUTCMonth()
+  const day = at.getUTCDate()
+
+  switch (window) {
+    case 'weekly': {
+      const sinceMonday = (at.getUTCDay() + 6) % 7
+      const start = new Date(Date.UTC(year, month, day - sinceMonday))
+      const end = new Date(Date.UTC(year, month, day - sinceMonday + 7))
+      return { start: start.toISOString().slice(0, 10), resetsAt: end.toISOString() }
+    }
+    case 'monthly': {
+      const start = new Date(Date.UTC(year, month, 1))
+      const end = new Date(Date.UTC(year, month + 1, 1))
+      return { start: start.toISOString().slice(0, 10), resetsAt: end.toISOString() }
+    }
+    case 'all_time':
+      return { start: null, resetsAt: null }
+  }
+}
+
+/**
+ * Builds the key of a board for the period containing `at`
+ * Pass a moment in an earlier period to read a past board (e.g. last week's winners)
+ */
+export function getLeaderboardBoardKey(board: LeaderboardBoard, at: Date = new Date()): string {
+  const { start } = getLeaderboardPeriod(board.window, at)
+  const scopeId =
+    board.scope === 'pack' ? board.packId : board.scope === 'game_mode' ? board.gameMode : null
+
+  return `${board.window}:${start ?? 'all'}:${board.scope}:${scopeId ?? 'all'}`
+}
@@ -0,0 +1,220 @@
+import type { CareerStint, Database, Pack, Player } from './types'
+import { parseCareerEntry } from './career'
+import { getDerivedPackFields } from './importer'
+import { normalizeAnswer } from './matching'
+
+/**
+ * Content linter for Football IQ
+ *
+ * Checks packs and their players for problems the database doesn't catch:
+ * - question_count and difficulty range that don't match the players (the
+ *   database derives them since 011_derived_pack_metadata.sql, older exports
+ *   may still be off)
+ * - answers shared by two players of a pack, so a guess could mean either
+ * - career entries that can't be parsed, are out of order or overlap
+ * - players without all three hints or without aliases
+ *
+ * Errors make a pack wrong or unplayable; warnings are worth a second look
+ * (two clubs in one season do happen). Runs on pack definitions
+ * (supabase/packs, which the seed is generated from) and on exported rows,
+ * see scripts/lint-content.ts.
+ */
+
+type PlayerInsert = Database['public']['Tables']['players']['Insert']
+
+export type ContentLintSeverity = 'error' | 'warning'
+
+export type ContentLintRule =
+  | 'question_count'
+  | 'difficulty_range'
+  | 'ambiguous_answer'
+  | 'career_entry'
+  | 'career_order'
+  | 'career_overlap'
+  | 'missing_hints'
+  | 'missing_aliases'
+
+export interface ContentLintFinding {
+  severity: ContentLintSeverity
+  rule: ContentLintRule
+  /** Slug of the pack */
+  pack: string
+  /** Name of the player, null for findings about the pack itself */
+  player: string | null
+  message: string
+}
+
+export interface LintPack {
+  pack: Pick<Pack, 'slug'> &
+    Partial<Pick<Pack, 'question_count' | 'difficulty_min' | 'difficulty_max'>>
+  players: Pick<
+    PlayerInsert,
+    'name' | 'full_name' | 'aliases' | 'career_path' | 'hints' | 'difficulty'
+  >[]
+}
+
+const HINT_KEYS = ['hint1', 'hint2', 'hint3']
+
+/**
+ * Lints one pack and its players
+ * question_count and the difficulty range are only checked when given
+ */
+export function lintPack(
+  { pack, players }: LintPack,
+  currentYear: number = new Date().getFullYear()
+): ContentLintFinding[] {
+  const findings: ContentLintFinding[] = []
+  const report = (
+    severity: ContentLintSeverity,
+    rule: ContentLintRule,
+    player: string | null,
+    message: string
+  ) => findings.push({ severity, rule, pack: pack.slug, player, message })
+
+  const derived = getDerivedPackFields(players)
+  if (pack.question_count !== undefined && pack.question_count !== derived.question_count) {
+    report(
+      'error',
+      'question_count',
+      null,
+      `question_count is ${pack.question_count} but the pack has ${derived.question_count} players`
+    )
+  }
+  if (
+    (pack.difficulty_min !== undefined && pack.difficulty_min !== derived.difficulty_min) ||
+    (pack.difficulty_max !== undefined && pack.difficulty_max !== derived.difficulty_max)
+  ) {
+    report(
+      'error',
+      'difficulty_range',
+      null,
+      `difficulty range is ${formatRange(pack.difficulty_min, pack.difficulty_max)} but the players span ${formatRange(derived.difficulty_min, derived.difficulty_max)}`
+    )
+  }
+
+  // Every answer a player accepts, and which players accept it
+  const answerOwners = new Map<string, Set<number>>()
+  players.forEach((player, index) => {
+    for (const answer of getAnswers(player)) {
+      const owners = answerOwners.get(answer) ?? new Set<number>()
+      owners.add(index)
+      answerOwners.set(answer, owners)
+    }
+  })
+  for (const [answer, owners] of answerOwners) {
+    if (owners.size < 2) continue
+    const [first, ...others] = [...owners].map(index => players[index].name)
+    report(
+      'error',
+      'ambiguous_answer',
+      first,
+      `"${answer}" is also an answer for ${others.join(', ')}`
+    )
+  }
+
+  for (const player of players) {
+    lintCareer(player.career_path, currentYear, (severity, rule, message) =>
+      report(severity, rule, player.name, message)
+    )
+
+    const hints = isRecord(player.hints) ? player.hints : {}
+    const missing = HINT_KEYS.filter(key => {
+      const hint = hints[key]
+      return typeof hint !== 'string' || !hint.trim()
+    })
+    if (missing.length > 0) {
+      report('warning', 'missing_hints', player.name, `Missing ${missing.join(', ')}`)
+    }
+
+    if (!Array.isArray(player.aliases) || player.aliases.length === 0) {
+      report('warning', 'missing_aliases', player.name, 'Has no aliases')
+    }
+  }
+
+  return findings
+}
+
+/**
+ * Lints exported packs and players rows, e.g. a JSON dump of both tables
+ */
+export function lintExportedContent(
+  packs: Pack[],
+  players: Pick<
+    Player,
+    'pack_id' | 'name' | 'full_name' | 'aliases' | 'career_path' | 'hints' | 'difficulty'
+  >[],
+  currentYear: number = new Date().getFullYear()
+): ContentLintFinding[] {
+  return packs.flatMap(pack =>
+    lintPack({ pack, players: players.filter(player => player.pack_id === pack.id) }, currentYear)
+  )
+}
+
+/**
+ * Normalized names, full names and aliases of a player
+ */
+function getAnswers(player: LintPack['players'][number]): Set<string> {
+  const values = [player.name, player.full_name]
+  if (Array.isArray(player.aliases)) values.push(...player.aliases.filter(isString))
+
+  const answers = new Set<string>()
+  for (const value of values) {
+    const normalized = value ? normalizeAnswer(value) : ''
+    if (normalized) answers.add(normalized)
+  }
+  return answers
+}
+
+function lintCareer(
+  careerPath: unknown,
+  currentYear: number,
+  report: (severity: ContentLintSeverity, rule: ContentLintRule, message: string) => void
+): void {
+  if (!Array.isArray(careerPath) || careerPath.length === 0) {
+    report('error', 'career_entry', 'career_path has no entries')
+    return
+  }
+
+  const stints: CareerStint[] = []
+  for (const entry of careerPath) {
+    const result = parseCareerEntry(entry, currentYear)
+    if ('error' in result) {
+      report('error', 'career_entry', result.error)
+    } else {
+      stints.push(result.stint)
+    }
+  }
+
+  stints.forEach((stint, index) => {
+    const previous = stints[index - 1]
+    if (previous && stint.start_year < previous.start_year) {
+      report('error', 'career_order', `"${stint.raw}" starts before "${previous.raw}"`)
+    }
+    if (stint.ongoing && index < stints.length - 1) {
+      report('error', 'career_order', `"${stint.raw}" is ongoing but isn't the last club`)
+    }
+
+    // Loans run alongside the parent club's spell, and a transfer year can
+    // end one spell and start the next
+    if (stint.loan || stint.ongoing) return
+    for (const other of stints.slice(index + 1)) {
+      if (other.loan) continue
+      const end = stint.end_year ?? currentYear
+      if (other.start_year < end && stint.start_year < (other.end_year ?? currentYear)) {
+        report('warning', 'career_overlap', `"${stint.raw}" overlaps "${other.raw}"`)
+      }
+    }
+  })
+}
+
+function formatRange(min: number | null | undefined, max: number | null | undefined): string {
+  return min == null && max == null ? 'not set' : `${min ?? '?'}-${max ?? '?'}`
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string'
+}
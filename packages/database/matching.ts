@@ -0,0 +1,275 @@
+import type { Player, PlayerContent } from './types'
+import { sha256Hex } from './sha256'
+
+/**
+ * Answer matching for Football IQ
+ *
+ * Decides whether a typed guess identifies a player. The database grades
+ * submitted answers with a SQL port of the same rules (match_answer in
+ * 007_submit_answer.sql); change both together.
+ *
+ * Clients never receive the answers themselves. They get a hash of every
+ * answer accepted without typos, tagged with its verdict
+ * (players.answer_hashes), and check guesses with matchHashedAnswer, so
+ * offline play can still recognise a correct name and grade it as the server will.
+ *
+ * Rules:
+ * - Case, punctuation and diacritics are ignored ("andres iniesta" = "Andrés Iniesta")
+ * - The display name and full name are exact answers, aliases are alias answers
+ * - A surname on its own is accepted when no other player in the pack shares it
+ * - Small typos are tolerated, scaled to the length of the answer
+ * - Guesses just outside the tolerance are reported as close misses
+ */
+
+export type AnswerVerdict = 'exact' | 'alias' | 'close_miss' | 'wrong'
+
+export interface AnswerMatch {
+  verdict: AnswerVerdict
+  /** True when the guess should be graded as correct */
+  isCorrect: boolean
+  /** The accepted answer the guess was matched against, if any */
+  matched: string | null
+  /** Edit distance between the normalized guess and the matched answer */
+  distance: number
+}
+
+/** The player fields answer matching needs, only readable on the server */
+export type AnswerTarget = Pick<Player, 'id' | 'name' | 'full_name'> & { aliases: string[] }
+
+/** The player fields hashed matching needs, as clients read them */
+export type HashedAnswerTarget = Pick<PlayerContent, 'id' | 'answer_hashes'>
+
+export interface MatchOptions {
+  /**
+   * All players in the pack, used to decide whether a surname-only answer is
+   * unambiguous. When omitted, surnames are always accepted.
+   */
+  packPlayers?: AnswerTarget[]
+}
+
+/** Verdicts of answers accepted without typos */
+export type CandidateKind = 'exact' | 'alias'
+
+interface Candidate {
+  kind: CandidateKind
+  value: string
+  normalized: string
+}
+
+// Letters that NFD does not decompose into a base letter + combining mark
+const SPECIAL_LETTERS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  ł: 'l',
+  đ: 'd',
+  ð: 'd',
+  þ: 'th',
+  ı: 'i',
+}
+
+/**
+ * Normalizes an answer for comparison: folds diacritics, lowercases,
+ * drops apostrophes and turns any other punctuation into whitespace
+ */
+export function normalizeAnswer(input: string): string {
+  return input
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[ßæœøłđðþı]/g, char => SPECIAL_LETTERS[char] ?? char)
+    .replace(/['’`´]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Returns true for verdicts that count as a correct answer
+ */
+export function isCorrectVerdict(verdict: AnswerVerdict): boolean {
+  return verdict === 'exact' || verdict === 'alias'
+}
+
+/**
+ * Number of typos tolerated for an answer of the given (normalized) length
+ */
+export function typoTolerance(length: number): number {
+  if (length <= 4) return 0
+  if (length <= 8) return 1
+  if (length <= 12) return 2
+  return 3
+}
+
+/**
+ * Grades a guess against a player
+ */
+export function matchAnswer(
+  guess: string,
+  player: AnswerTarget,
+  options: MatchOptions = {}
+): AnswerMatch {
+  const normalizedGuess = normalizeAnswer(guess)
+  if (!normalizedGuess) {
+    return { verdict: 'wrong', isCorrect: false, matched: null, distance: 0 }
+  }
+
+  const candidates = getCandidates(player, options.packPlayers)
+
+  // Exact matches on any accepted answer win outright
+  const direct = candidates.find(c => c.normalized === normalizedGuess)
+  if (direct) {
+    return { verdict: direct.kind, isCorrect: true, matched: direct.value, distance: 0 }
+  }
+
+  // Otherwise find the closest accepted answer
+  let best: Candidate | null = null
+  let bestDistance = Infinity
+  for (const candidate of candidates) {
+    const distance = editDistance(normalizedGuess, candidate.normalized)
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+
+  if (!best) {
+    return { verdict: 'wrong', isCorrect: false, matched: null, distance: 0 }
+  }
+
+  const tolerance = typoTolerance(best.normalized.replace(/ /g, '').length)
+  if (bestDistance <= tolerance) {
+    return { verdict: best.kind, isCorrect: true, matched: best.value, distance: bestDistance }
+  }
+  if (bestDistance <= tolerance + 2) {
+    return { verdict: 'close_miss', isCorrect: false, matched: best.value, distance: bestDistance }
+  }
+
+  return { verdict: 'wrong', isCorrect: false, matched: null, distance: bestDistance }
+}
+
+/**
+ * Hash of a normalized answer and the verdict it earns, as stored in
+ * players.answer_hashes (answer_hash in 009_protect_pack_content.sql). The
+ * player id salts it, so players sharing a name don't share a hash.
+ *
+ * Devices must be able to compute it offline, so nothing secret goes in and
+ * the salt is public. The hashes keep answers out of plain sight, but anyone
+ * who can read a pack can recover them by hashing a list of footballers'
+ * names. Access to paid packs (RLS on players) is what protects them.
+ */
+export function hashAnswer(
+  playerId: string,
+  kind: CandidateKind,
+  normalizedAnswer: string
+): string {
+  return sha256Hex(`${playerId}:${kind}:${normalizedAnswer}`)
+}
+
+/**
+ * Hashes of every answer accepted without typos, sorted, as
+ * refresh_pack_answer_hashes stores them in players.answer_hashes
+ */
+export function getAnswerHashes(player: AnswerTarget, packPlayers?: AnswerTarget[]): string[] {
+  return getCandidates(player, packPlayers)
+    .map(candidate => hashAnswer(player.id, candidate.kind, candidate.normalized))
+    .sort()
+}
+
+/**
+ * Checks a guess against a player's answer hashes
+ * Only answers accepted without typos can be recognised this way, so a guess
+ * with a typo is wrong here until submit_answer grades it. The accepted
+ * answer stays unknown, so `matched` is always null.
+ */
+export function matchHashedAnswer(guess: string, player: HashedAnswerTarget): AnswerMatch {
+  const normalizedGuess = normalizeAnswer(guess)
+  if (normalizedGuess) {
+    for (const kind of ['exact', 'alias'] as const) {
+      if (player.answer_hashes.includes(hashAnswer(player.id, kind, normalizedGuess))) {
+        return { verdict: kind, isCorrect: true, matched: null, distance: 0 }
+      }
+    }
+  }
+  return { verdict: 'wrong', isCorrect: false, matched: null, distance: 0 }
+}
+
+/**
+ * Builds the list of accepted answers for a player
+ */
+function getCandidates(player: AnswerTarget, packPlayers?: AnswerTarget[]): Candidate[] {
+  const candidates: Candidate[] = []
+  const seen = new Set<string>()
+
+  const add = (kind: CandidateKind, value: string) => {
+    const normalized = normalizeAnswer(value)
+    if (!normalized || seen.has(normalized)) return
+    seen.add(normalized)
+    candidates.push({ kind, value, normalized })
+  }
+
+  add('exact', player.name)
+  if (player.full_name) add('exact', player.full_name)
+  for (const alias of player.aliases ?? []) add('alias', alias)
+
+  // Surname-only answers, unless another player in the pack answers to the same word(s)
+  const others = (packPlayers ?? []).filter(p => p.id !== player.id)
+  const takenByOthers = new Set<string>()
+  for (const other of others) {
+    for (const value of [other.name, other.full_name ?? '', ...(other.aliases ?? [])]) {
+      const normalized = normalizeAnswer(value)
+      if (!normalized) continue
+      takenByOthers.add(normalized)
+      for (const surname of surnameForms(normalized)) takenByOthers.add(surname)
+    }
+  }
+
+  for (const value of [player.name, player.full_name ?? '']) {
+    for (const surname of surnameForms(normalizeAnswer(value))) {
+      if (!takenByOthers.has(surname)) add('alias', surname)
+    }
+  }
+
+  return candidates
+}
+
+/**
+ * Trailing word groups of a normalized name: "ruud van nistelrooy" gives
+ * "van nistelrooy" and "nistelrooy"
+ */
+function surnameForms(normalizedName: string): string[] {
+  const words = normalizedName.split(' ').filter(Boolean)
+  const forms: string[] = []
+  for (let i = 1; i < words.length; i++) {
+    forms.push(words.slice(i).join(' '))
+  }
+  return forms
+}
+
+/**
+ * Levenshtein distance with adjacent transpositions counted as one edit
+ */
+function editDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  const rows: number[][] = []
+  for (let i = 0; i <= a.length; i++) {
+    rows.push(new Array<number>(b.length + 1).fill(0))
+    rows[i][0] = i
+  }
+  for (let j = 0; j <= b.length; j++) rows[0][j] = j
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+
+  return rows[a.length][b.length]
+}
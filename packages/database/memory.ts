@@ -0,0 +1,979 @@
+import footballLegends from '../../supabase/packs/football-legends.json'
+import type {
+  AnswerAttempt,
+  DailyChallenge,
+  DailyChallengeResult,
+  DailyLeaderboardEntry,
+  GameMode,
+  GameSession,
+  Json,
+  Leaderboard,
+  LeaderboardBoardEntry,
+  LeaderboardEntry,
+  LeaderboardWindow,
+  Pack,
+  Player,
+  UserAchievement,
+  UserPack,
+  UserPlayDay,
+  UserProgress,
+} from './types'
+import type { DataAccess } from './data'
+import {
+  evaluateAchievements,
+  getNewlyEarnedAchievements,
+  type AchievementContext,
+} from './achievements'
+import { parseCareerPath } from './career'
+import { selectDailyPlayer } from './daily'
+import { DatabaseError, toDatabaseError } from './errors'
+import { getDerivedPackFields, type PackDefinition, type PlayerHints } from './importer'
+import { getLeaderboardBoardKey, getLeaderboardPeriod, type LeaderboardBoard } from './leaderboards'
+import { getAnswerHashes, matchAnswer, type AnswerMatch } from './matching'
+import { compareLeaderboardEntries } from './realtime'
+import { MAX_ANSWER_BATCH_SIZE } from './queries'
+import { calculateScore } from './scoring'
+import { DEFAULT_MAX_WRONG_GUESSES, parseSessionState } from './session'
+import { calculateStreak, getLocalTimeZone, toLocalDate } from './streaks'
+
+/**
+ * In-memory data access for Football IQ
+ *
+ * Stands in for the database behind createSupabaseDataAccess in tests and
+ * offline tools. It is seeded with the packs supabase/seed.sql is generated
+ * from and keeps the rules the database enforces:
+ *   - the unique constraints, e.g. one user_packs row per user and pack and
+ *     one user_progress row per user, player and game mode
+ *   - submit_answer's grading and scoring, with each question's attempts
+ *     tracked and answers ordered by when they were given, so a late upload
+ *     can lower a result but never raise it
+ *   - leaderboard totals maintained the way the user_progress triggers do
+ *   - row level security: users only see and write their own rows, and
+ *     players of paid packs stay hidden until the pack is owned
+ * Failures are the DatabaseErrors the real queries throw for the same
+ * Postgres errors.
+ *
+ * Ids are sequential and time comes from the `now` option, so the same calls
+ * give the same results on every run.
+ *
+ * Not part of the package index: the seed packs include every answer, so
+ * import it from '@football-iq/database/memory' in tests and dev tools only.
+ */
+
+export interface MemoryDataAccessOptions {
+  /** Packs to start with, defaults to SEED_PACKS */
+  packs?: PackDefinition[]
+  /** The signed-in user (auth.uid()), null when nobody is signed in */
+  userId?: string | null
+  /** Clock for every timestamp written, defaults to the real time */
+  now?: () => Date
+}
+
+export interface MemoryDataAccess extends DataAccess {
+  /** Acts as another user from now on, or as nobody with null */
+  signIn(userId: string | null): void
+  /**
+   * Gives a user a pack, as a verified store purchase does
+   * @throws AlreadyOwnedError if the user already has it
+   */
+  grantPack(userId: string, packId: string): Promise<UserPack>
+}
+
+/** The pack definitions supabase/seed.sql is generated from */
+export const SEED_PACKS: PackDefinition[] = [footballLegends]
+
+const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ['all_time', 'weekly', 'monthly']
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+// submit_answer accepts answers queued offline for this long
+const MAX_ANSWER_AGE_MS = 30 * MS_PER_DAY
+
+interface PlayerRow extends Omit<Player, 'aliases' | 'career_path' | 'hints'> {
+  aliases: string[]
+  career_path: string[]
+  hints: PlayerHints | null
+}
+
+type LeaderboardTotals = Pick<
+  Leaderboard,
+  | 'total_score'
+  | 'total_questions'
+  | 'correct_answers'
+  | 'accuracy_rate'
+  | 'score_reached_at'
+  | 'updated_at'
+>
+
+/**
+ * Creates an empty database seeded with `packs`
+ */
+export function createMemoryDataAccess(options: MemoryDataAccessOptions = {}): MemoryDataAccess {
+  const now = options.now ?? (() => new Date())
+  let userId = options.userId ?? null
+  let sequence = 0
+
+  const packs: Pack[] = []
+  const players: PlayerRow[] = []
+  const userPacks: UserPack[] = []
+  const progress: UserProgress[] = []
+  const answerAttempts: AnswerAttempt[] = []
+  const sessions: GameSession[] = []
+  const dailyResults: DailyChallengeResult[] = []
+  const playDays: UserPlayDay[] = []
+  const achievements: UserAchievement[] = []
+  const leaderboards: Leaderboard[] = []
+  const boardEntries: LeaderboardBoardEntry[] = []
+
+  const nextId = () => `00000000-0000-4000-8000-${(++sequence).toString(16).padStart(12, '0')}`
+  const timestamp = () => now().toISOString()
+
+  const isSignedInAs = (id: string) => userId !== null && id === userId
+  const ownsPack = (id: string, packId: string) =>
+    userPacks.some(row => row.user_id === id && row.pack_id === packId)
+
+  // Players of free packs and packs the signed-in user owns, as RLS allows
+  const canReadPlayer = (player: PlayerRow) =>
+    packs.some(pack => pack.id === player.pack_id && pack.is_free) ||
+    (userId !== null && ownsPack(userId, player.pack_id))
+
+  function addPack({ pack, players: definitions }: PackDefinition) {
+    if (packs.some(row => row.slug === pack.slug)) throw uniqueViolation('packs_slug_key')
+
+    const createdAt = timestamp()
+    const row: Pack = {
+      id: nextId(),
+      name: pack.name,
+      slug: pack.slug,
+      description: pack.description ?? null,
+      price: pack.price ?? null,
+      is_free: pack.is_free ?? false,
+      store_product_id: pack.store_product_id ?? null,
+      ...getDerivedPackFields(definitions),
+      created_at: createdAt,
+      updated_at: createdAt,
+    }
+    packs.push(row)
+
+    const added: PlayerRow[] = []
+    for (const definition of definitions) {
+      if (added.some(player => player.name === definition.name)) {
+        throw uniqueViolation('players_pack_id_name_key')
+      }
+      added.push({
+        id: nextId(),
+        pack_id: row.id,
+        name: definition.name,
+        full_name: definition.full_name ?? null,
+        nationality: definition.nationality,
+        position: definition.position ?? null,
+        career_path: [...definition.career_path],
+        aliases: [...(definition.aliases ?? [])],
+        hints: definition.hints ? { ...definition.hints } : null,
+        difficulty: definition.difficulty,
+        answer_hashes: [],
+        created_at: createdAt,
+        updated_at: createdAt,
+      })
+    }
+
+    // Surnames depend on the other players, like refresh_pack_answer_hashes
+    for (const player of added) player.answer_hashes = getAnswerHashes(player, added)
+    players.push(...added)
+  }
+
+  /**
+   * Records a finished question like submit_answer: a result already on record
+   * is replaced unless the new one ranks above it. New rows are stamped with
+   * their player's pack like set_progress_pack
+   * @returns Whether the result was recorded
+   */
+  function recordProgress(result: Omit<UserProgress, 'id' | 'pack_id'>): boolean {
+    const existing = findProgress(result.user_id, result.player_id, result.game_mode)
+    if (existing) {
+      if (ranksAbove(result, existing)) return false
+      const previous = { ...existing }
+      Object.assign(existing, result)
+      updateLeaderboards(previous, existing)
+      return true
+    }
+
+    const packId = players.find(player => player.id === result.player_id)?.pack_id ?? null
+    const row: UserProgress = { ...result, id: nextId(), pack_id: packId }
+    progress.push(row)
+    updateLeaderboards(null, row)
+    return true
+  }
+
+  function findProgress(id: string, playerId: string, gameMode: GameMode) {
+    return progress.find(
+      row => row.user_id === id && row.player_id === playerId && row.game_mode === gameMode
+    )
+  }
+
+  // open_answer_attempt: checks the signed-in user may play a question and
+  // returns its answer_attempts row, added on first use. A result already on
+  // record means the answer was revealed
+  function openAnswerAttempt(
+    playerId: string,
+    gameMode: GameMode,
+    challengeDate: string | null
+  ): { signedInUser: string; player: PlayerRow; state: AnswerAttempt } {
+    const user = userId
+    if (user === null) throw fail('42501', 'Sign in to submit answers')
+
+    const player = players.find(row => row.id === playerId)
+    if (!player) throw fail('P0002', `Player ${playerId} not found`)
+
+    if (
+      !packs.some(pack => pack.id === player.pack_id && pack.is_free) &&
+      !ownsPack(user, player.pack_id)
+    ) {
+      throw fail('42501', 'Pack not owned')
+    }
+
+    if (challengeDate) {
+      const today = toLocalDate(now(), 'UTC')
+      if (challengeDate !== today) {
+        throw fail('22023', `Only today's daily challenge (${today}) can be played`)
+      }
+      if (getDailyChallenge(today)?.player_id !== playerId) {
+        throw fail('22023', `Player ${playerId} is not the daily challenge for ${today}`)
+      }
+    }
+
+    let state = answerAttempts.find(
+      attempt =>
+        attempt.user_id === user &&
+        attempt.player_id === playerId &&
+        attempt.game_mode === gameMode &&
+        attempt.challenge_date === challengeDate
+    )
+    if (!state) {
+      const recorded = challengeDate
+        ? dailyResults.find(
+            result => result.user_id === user && result.challenge_date === challengeDate
+          )
+        : findProgress(user, playerId, gameMode)
+      state = {
+        id: nextId(),
+        user_id: user,
+        player_id: playerId,
+        game_mode: gameMode,
+        challenge_date: challengeDate,
+        clubs_revealed: 1,
+        hints_used: 0,
+        wrong_attempts: 0,
+        revealed_at: recorded?.completed_at ?? null,
+        answered_at: recorded?.completed_at ?? null,
+        updated_at: timestamp(),
+      }
+      answerAttempts.push(state)
+    }
+    return { signedInUser: user, player, state }
+  }
+
+  // The update_leaderboard and update_scoped_leaderboards triggers
+  function updateLeaderboards(previous: UserProgress | null, next: UserProgress) {
+    const sameResult =
+      previous !== null &&
+      previous.score_earned === next.score_earned &&
+      previous.answered_correctly === next.answered_correctly
+
+    // A replay that changes nothing leaves totals alone
+    if (!sameResult) {
+      if (previous) addToLeaderboard(previous, -1)
+      addToLeaderboard(next, 1)
+    }
+
+    // Scoped boards also move a result to the period it was replayed in
+    if (!sameResult || Date.parse(previous.completed_at) !== Date.parse(next.completed_at)) {
+      if (previous) addToBoards(previous, -1)
+      addToBoards(next, 1)
+    }
+  }
+
+  function addToLeaderboard(result: UserProgress, sign: 1 | -1) {
+    let row = leaderboards.find(entry => entry.user_id === result.user_id)
+    if (!row) {
+      row = { id: nextId(), user_id: result.user_id, ...emptyTotals(timestamp()) }
+      leaderboards.push(row)
+    }
+    addResult(row, result, sign, timestamp())
+  }
+
+  function addToBoards(result: UserProgress, sign: 1 | -1) {
+    const completedAt = new Date(result.completed_at)
+    const packId = result.pack_id
+
+    for (const window of LEADERBOARD_WINDOWS) {
+      const scopes: { board: LeaderboardBoard; scopeId: string | null }[] = [
+        { board: { window, scope: 'global' }, scopeId: null },
+        {
+          board: { window, scope: 'game_mode', gameMode: result.game_mode },
+          scopeId: result.game_mode,
+        },
+      ]
+      if (packId) scopes.push({ board: { window, scope: 'pack', packId }, scopeId: packId })
+
+      for (const { board, scopeId } of scopes) {
+        const key = getLeaderboardBoardKey(board, completedAt)
+        let entry = boardEntries.find(row => row.board === key && row.user_id === result.user_id)
+        if (!entry) {
+          entry = {
+            board: key,
+            user_id: result.user_id,
+            time_window: window,
+            period_start: getLeaderboardPeriod(window, completedAt).start,
+            scope: board.scope,
+            scope_id: scopeId,
+            ...emptyTotals(timestamp()),
+          }
+          boardEntries.push(entry)
+        }
+        addResult(entry, result, sign, timestamp())
+      }
+    }
+  }
+
+  // get_daily_challenge: nothing is stored, the pick is worked out from the date
+  function getDailyChallenge(challengeDate?: string): DailyChallenge | null {
+    const date = challengeDate ?? toLocalDate(now(), 'UTC')
+    const freePlayers = players.filter(player =>
+      packs.some(pack => pack.id === player.pack_id && pack.is_free)
+    )
+    const player = selectDailyPlayer(freePlayers, date)
+    return player ? { challenge_date: date, player_id: player.id } : null
+  }
+
+  function getBoardRanking(board: LeaderboardBoard, at: Date): LeaderboardEntry[] {
+    const key = getLeaderboardBoardKey(board, at)
+    return rankEntries(boardEntries.filter(row => row.board === key && row.total_questions > 0))
+  }
+
+  async function getStreak(id: string, timeZone: string, at: Date = now()) {
+    const dates = playDays.filter(row => isSignedInAs(id) && row.user_id === id)
+    return calculateStreak(
+      dates.map(row => row.play_date),
+      toLocalDate(at, timeZone)
+    )
+  }
+
+  async function getEarnedAchievements(id: string) {
+    return copy(
+      achievements
+        .filter(row => isSignedInAs(id) && row.user_id === id)
+        .sort((a, b) => Date.parse(b.unlocked_at) - Date.parse(a.unlocked_at))
+    )
+  }
+
+  async function getAchievementContext(id: string, timeZone: string): Promise<AchievementContext> {
+    return {
+      progress: progress
+        .filter(row => isSignedInAs(id) && row.user_id === id)
+        .map(({ player_id, answered_correctly, hints_used }) => ({
+          player_id,
+          answered_correctly,
+          hints_used,
+        })),
+      players: players
+        .filter(canReadPlayer)
+        .map(({ id: playerId, pack_id, nationality }) => ({ id: playerId, pack_id, nationality })),
+      streak: await getStreak(id, timeZone),
+    }
+  }
+
+  for (const definition of options.packs ?? SEED_PACKS) addPack(definition)
+
+  const access: MemoryDataAccess = {
+    signIn(id) {
+      userId = id
+    },
+
+    async grantPack(id, packId) {
+      if (!packs.some(pack => pack.id === packId)) {
+        throw foreignKeyViolation('user_packs', 'user_packs_pack_id_fkey')
+      }
+      if (ownsPack(id, packId)) throw uniqueViolation('user_packs_user_id_pack_id_key')
+
+      // There is no purchases table here, so the purchase is made up
+      const row: UserPack = {
+        id: nextId(),
+        user_id: id,
+        pack_id: packId,
+        purchase_id: nextId(),
+        purchased_at: timestamp(),
+      }
+      userPacks.push(row)
+      return copy(row)
+    },
+
+    async getPacks() {
+      return copy(packs)
+    },
+
+    async getPackWithPlayers(slug) {
+      const pack = packs.find(row => row.slug === slug)
+      if (!pack) return null
+
+      return copy({
+        ...pack,
+        players: players
+          .filter(player => player.pack_id === pack.id && canReadPlayer(player))
+          .sort(compareByDifficulty)
+          .map(player => ({
+            id: player.id,
+            pack_id: player.pack_id,
+            nationality: player.nationality,
+            position: player.position,
+            career_path: player.career_path,
+            career_stints: parseCareerPath(player.career_path, now().getFullYear()).stints,
+            hints: player.hints ?? undefined,
+            difficulty: player.difficulty,
+            answer_hashes: player.answer_hashes,
+            created_at: player.created_at,
+            updated_at: player.updated_at,
+          })),
+      })
+    },
+
+    async getPackPreview(slug, sampleSize = 3) {
+      const pack = packs.find(row => row.slug === slug)
+      if (!pack) return null
+
+      return copy({
+        ...pack,
+        sample: players
+          .filter(player => player.pack_id === pack.id)
+          .sort(compareByDifficulty)
+          .slice(0, Math.min(Math.max(sampleSize, 0), 5))
+          .map(player => ({
+            id: player.id,
+            nationality: player.nationality,
+            position: player.position,
+            career_path: player.career_path,
+            difficulty: player.difficulty,
+          })),
+      })
+    },
+
+    async getRevealedAnswers(playerIds) {
+      const finished = (playerId: string) =>
+        progress.some(row => row.player_id === playerId && row.user_id === userId) ||
+        dailyResults.some(row => row.player_id === playerId && row.user_id === userId)
+
+      return players
+        .filter(player => playerIds.includes(player.id) && finished(player.id))
+        .map(player => ({ player_id: player.id, name: player.name, full_name: player.full_name }))
+    },
+
+    async userOwnsPack(id, packId) {
+      return isSignedInAs(id) && ownsPack(id, packId)
+    },
+
+    async getOwnedPackIds(id) {
+      return userPacks.filter(row => isSignedInAs(id) && row.user_id === id).map(row => row.pack_id)
+    },
+
+    async getPackCompletion(id, packId) {
+      // A question played in several modes counts once
+      const finished = new Map<string, Set<string>>()
+      for (const row of progress) {
+        if (!isSignedInAs(id) || row.user_id !== id) continue
+        const player = players.find(candidate => candidate.id === row.player_id)
+        if (!player || !canReadPlayer(player) || (packId && player.pack_id !== packId)) continue
+
+        const finishedPlayers = finished.get(player.pack_id) ?? new Set<string>()
+        finishedPlayers.add(player.id)
+        finished.set(player.pack_id, finishedPlayers)
+      }
+
+      return Object.fromEntries([...finished].map(([key, ids]) => [key, ids.size]))
+    },
+
+    async revealClues(playerId, gameMode, clues) {
+      const { player, state } = openAnswerAttempt(playerId, gameMode, clues.challengeDate ?? null)
+
+      // Clamped to what the player has, and never lowered
+      if (state.revealed_at === null) {
+        const availableHints = [player.hints?.hint1, player.hints?.hint2, player.hints?.hint3]
+        state.clubs_revealed = Math.max(
+          state.clubs_revealed,
+          Math.min(clues.clubsRevealed, player.career_path.length)
+        )
+        state.hints_used = Math.max(
+          state.hints_used,
+          Math.min(clues.hintsUsed, availableHints.filter(Boolean).length)
+        )
+        state.updated_at = timestamp()
+      }
+
+      return { clubs_revealed: state.clubs_revealed, hints_used: state.hints_used }
+    },
+
+    async submitAnswer(playerId, gameMode, guess, context = {}) {
+      const challengeDate = context.challengeDate ?? null
+      const { signedInUser, player, state } = openAnswerAttempt(playerId, gameMode, challengeDate)
+      const moment = now()
+
+      // Queued offline answers keep their time, up to 30 days back
+      const answeredAt = context.answeredAt ? Date.parse(context.answeredAt) : moment.getTime()
+      if (Number.isNaN(answeredAt)) {
+        throw fail(
+          '22007',
+          `invalid input syntax for type timestamp with time zone: "${context.answeredAt}"`
+        )
+      }
+      const answeredAtIso = new Date(
+        Math.min(Math.max(answeredAt, moment.getTime() - MAX_ANSWER_AGE_MS), moment.getTime())
+      ).toISOString()
+      // Results count on the boards in an open period: an answer given before
+      // the current week or month began counts from its start
+      const openSince = (['weekly', 'monthly'] as const).map(window =>
+        Date.parse(getLeaderboardPeriod(window, moment).start!)
+      )
+      const completedAt = new Date(Math.max(Date.parse(answeredAtIso), ...openSince)).toISOString()
+
+      // What the player was shown, as recorded
+      const totalClubs = player.career_path.length
+      const clubsRevealed =
+        gameMode === 'career_path_full'
+          ? totalClubs
+          : Math.min(state.clubs_revealed, Math.max(totalClubs, 1))
+      const hintsUsed = state.hints_used
+      const wrongAttempts = state.wrong_attempts
+
+      const match: AnswerMatch =
+        guess === null
+          ? { verdict: 'wrong', isCorrect: false, matched: null, distance: 0 }
+          : matchAnswer(guess, player, {
+              packPlayers: players.filter(other => other.pack_id === player.pack_id),
+            })
+
+      const onRecord = () =>
+        challengeDate
+          ? dailyResults.find(
+              row => row.user_id === signedInUser && row.challenge_date === challengeDate
+            )
+          : findProgress(signedInUser, playerId, gameMode)
+      const resultOnRecord = () => {
+        const final = onRecord()
+        return {
+          verdict: match.verdict,
+          is_correct: match.isCorrect,
+          completed: true,
+          attempts: final?.attempts ?? 0,
+          score_earned: final?.score_earned ?? 0,
+          matched_answer: match.matched ?? player.name,
+          recorded: false,
+        }
+      }
+
+      // Given after the question ended: the answer is out, return the result on record
+      if (
+        state.revealed_at !== null &&
+        Date.parse(answeredAtIso) >= Date.parse(state.answered_at ?? state.revealed_at)
+      ) {
+        return resultOnRecord()
+      }
+
+      const completed =
+        match.isCorrect || guess === null || wrongAttempts + 1 >= DEFAULT_MAX_WRONG_GUESSES
+      const attempts = match.isCorrect || guess !== null ? wrongAttempts + 1 : wrongAttempts
+
+      const score = calculateScore({
+        gameMode,
+        difficulty: player.difficulty,
+        answeredCorrectly: match.isCorrect,
+        clubsRevealed,
+        totalClubs,
+        hintsUsed,
+        wrongAttempts,
+      }).total
+
+      Object.assign(state, {
+        wrong_attempts: wrongAttempts + (guess !== null && !match.isCorrect ? 1 : 0),
+        revealed_at: state.revealed_at ?? (completed ? moment.toISOString() : null),
+        answered_at: completed ? answeredAtIso : state.answered_at,
+        updated_at: moment.toISOString(),
+      })
+
+      if (completed) {
+        const playDate = toPlayDate(answeredAtIso, context.timeZone ?? getLocalTimeZone())
+        if (!playDays.some(row => row.user_id === signedInUser && row.play_date === playDate)) {
+          playDays.push({ user_id: signedInUser, play_date: playDate })
+        }
+      }
+
+      // An answer given before the recorded one replaces it, unless it ranks above it
+      let recorded = false
+      if (completed && challengeDate) {
+        const result = {
+          answered_correctly: match.isCorrect,
+          attempts,
+          score_earned: score,
+          completed_at: answeredAtIso,
+        }
+        const existing = onRecord()
+        if (!existing) {
+          dailyResults.push({
+            id: nextId(),
+            user_id: signedInUser,
+            challenge_date: challengeDate,
+            player_id: playerId,
+            game_mode: gameMode,
+            ...result,
+          })
+          recorded = true
+        } else if (!ranksAbove(result, existing)) {
+          Object.assign(existing, result)
+          recorded = true
+        }
+      } else if (completed) {
+        recorded = recordProgress({
+          user_id: signedInUser,
+          player_id: playerId,
+          game_mode: gameMode,
+          answered_correctly: match.isCorrect,
+          attempts,
+          score_earned: score,
+          hints_used: hintsUsed,
+          completed_at: completedAt,
+        })
+      }
+      if (completed && !recorded) return resultOnRecord()
+
+      return {
+        verdict: match.verdict,
+        is_correct: match.isCorrect,
+        completed,
+        attempts,
+        score_earned: score,
+        // Only reveal the answer once it can't help with another guess
+        matched_answer: completed ? (match.matched ?? player.name) : null,
+        recorded,
+      }
+    },
+
+    async submitAnswers(entries) {
+      if (entries.length > MAX_ANSWER_BATCH_SIZE) {
+        throw fail('22023', `Submit an array of at most ${MAX_ANSWER_BATCH_SIZE} entries`)
+      }
+
+      // Entries the database won't take are reported; anything else fails the batch
+      const errors: (DatabaseError | null)[] = []
+      for (const entry of entries) {
+        try {
+          if (entry.kind === 'clues') {
+            await access.revealClues(entry.playerId, entry.gameMode, entry)
+          } else {
+            await access.submitAnswer(entry.playerId, entry.gameMode, entry.guess, entry)
+          }
+          errors.push(null)
+        } catch (error) {
+          if (!(error instanceof DatabaseError) || !isRejectedEntry(error.code)) throw error
+          errors.push(error)
+        }
+      }
+      return errors
+    },
+
+    async getUserStats(id) {
+      const ranking = rankEntries(leaderboards)
+      const entry = ranking.find(row => row.user_id === id)
+      if (!entry) return null
+
+      return {
+        total_score: entry.total_score,
+        total_questions: entry.total_questions,
+        correct_answers: entry.correct_answers,
+        accuracy_rate: entry.accuracy_rate,
+        global_rank: entry.rank,
+        // get_user_stats counts user_packs as the caller, so RLS applies
+        packs_owned: userPacks.filter(row => isSignedInAs(id) && row.user_id === id).length,
+      }
+    },
+
+    async getLeaderboard(limit = 100, offset = 0) {
+      return rankEntries(leaderboards).slice(offset, offset + limit)
+    },
+
+    async getLeaderboardAroundUser(id, count = 5) {
+      return around(rankEntries(leaderboards), id, count)
+    },
+
+    async getBoardLeaderboard(board, limit = 100, offset = 0, at = now()) {
+      return getBoardRanking(board, at).slice(offset, offset + limit)
+    },
+
+    async getBoardLeaderboardAroundUser(board, id, count = 5, at = now()) {
+      return around(getBoardRanking(board, at), id, count)
+    },
+
+    async saveGameSession(id, packId, gameMode, currentQuestionIndex, score, sessionState) {
+      if (!isSignedInAs(id)) throw rowLevelSecurityViolation('game_sessions')
+      if (!packs.some(pack => pack.id === packId)) {
+        throw foreignKeyViolation('game_sessions', 'game_sessions_pack_id_fkey')
+      }
+
+      const lastActivityAt = timestamp()
+      const sessionJson =
+        sessionState === undefined ? undefined : copy(sessionState as unknown as Json)
+      let session = sessions.find(
+        row => row.user_id === id && row.pack_id === packId && row.game_mode === gameMode
+      )
+
+      // Upsert on (user_id, pack_id, game_mode); a missing state leaves the stored one
+      if (session) {
+        session.current_question_index = currentQuestionIndex
+        session.score = score
+        session.last_activity_at = lastActivityAt
+        if (sessionJson !== undefined) session.session_state = sessionJson
+      } else {
+        session = {
+          id: nextId(),
+          user_id: id,
+          pack_id: packId,
+          game_mode: gameMode,
+          current_question_index: currentQuestionIndex,
+          score,
+          session_state: sessionJson ?? null,
+          started_at: lastActivityAt,
+          last_activity_at: lastActivityAt,
+        }
+        sessions.push(session)
+      }
+
+      return copy(session)
+    },
+
+    async getGameSession(id, packId, gameMode) {
+      const session = sessions.find(
+        row =>
+          isSignedInAs(id) &&
+          row.user_id === id &&
+          row.pack_id === packId &&
+          row.game_mode === gameMode
+      )
+      if (!session) return null
+
+      const data = copy(session)
+      return { ...data, session_state: parseSessionState(data.session_state, data) }
+    },
+
+    async deleteGameSession(sessionId) {
+      // Other users' sessions are invisible, so nothing is deleted
+      const index = sessions.findIndex(row => row.id === sessionId && isSignedInAs(row.user_id))
+      if (index >= 0) sessions.splice(index, 1)
+    },
+
+    async getDailyChallenge(challengeDate) {
+      return getDailyChallenge(challengeDate)
+    },
+
+    async getDailyChallengeResult(id, challengeDate) {
+      const result = dailyResults.find(
+        row => isSignedInAs(id) && row.user_id === id && row.challenge_date === challengeDate
+      )
+      return result ? copy(result) : null
+    },
+
+    async getDailyChallengeHistory(id, limit = 30) {
+      return copy(
+        dailyResults
+          .filter(row => isSignedInAs(id) && row.user_id === id)
+          .sort((a, b) => (a.challenge_date < b.challenge_date ? 1 : -1))
+          .slice(0, limit)
+      )
+    },
+
+    async getDailyLeaderboard(challengeDate, limit = 100) {
+      const results = dailyResults
+        .filter(row => row.challenge_date === challengeDate)
+        .sort(compareDailyResults)
+
+      // RANK(): tied results share a rank and the next one skips ahead
+      const entries: DailyLeaderboardEntry[] = []
+      results.forEach((row, index) => {
+        const previous = entries[index - 1]
+        entries.push({
+          user_id: row.user_id,
+          score_earned: row.score_earned,
+          attempts: row.attempts,
+          answered_correctly: row.answered_correctly,
+          completed_at: row.completed_at,
+          rank:
+            previous && compareDailyResults(results[index - 1], row) === 0
+              ? previous.rank
+              : index + 1,
+        })
+      })
+      return entries.slice(0, limit)
+    },
+
+    getStreak,
+
+    getEarnedAchievements,
+
+    async getAchievementProgress(id, timeZone) {
+      const [context, unlocked] = await Promise.all([
+        getAchievementContext(id, timeZone),
+        getEarnedAchievements(id),
+      ])
+      return evaluateAchievements(context, unlocked)
+    },
+
+    async unlockAchievements() {
+      const id = userId
+      if (id === null) throw fail('42501', 'Sign in to unlock achievements')
+
+      // Only the longest streak counts, which doesn't depend on the time zone
+      const [context, unlocked] = await Promise.all([
+        getAchievementContext(id, 'UTC'),
+        getEarnedAchievements(id),
+      ])
+
+      const earned = getNewlyEarnedAchievements(
+        context,
+        unlocked.map(row => row.achievement_id)
+      )
+      if (earned.length === 0) return []
+
+      const unlockedAt = timestamp()
+      const rows = earned.map(achievementId => ({
+        id: nextId(),
+        user_id: id,
+        achievement_id: achievementId,
+        unlocked_at: unlockedAt,
+      }))
+      achievements.push(...rows)
+      return copy(rows)
+    },
+  }
+
+  return access
+}
+
+// Errors as PostgREST reports them, so they map to the same DatabaseErrors
+function fail(code: string, message: string): DatabaseError {
+  return toDatabaseError({ code, message })
+}
+
+// submit_answers reports insufficient_privilege, no_data_found, data_exception
+// and integrity_constraint_violation per entry
+function isRejectedEntry(code: string): boolean {
+  return code === '42501' || code === 'P0002' || code.startsWith('22') || code.startsWith('23')
+}
+
+function uniqueViolation(constraint: string): DatabaseError {
+  return fail('23505', `duplicate key value violates unique constraint "${constraint}"`)
+}
+
+function foreignKeyViolation(table: string, constraint: string): DatabaseError {
+  return fail(
+    '23503',
+    `insert or update on table "${table}" violates foreign key constraint "${constraint}"`
+  )
+}
+
+function rowLevelSecurityViolation(table: string): DatabaseError {
+  return fail('42501', `new row violates row-level security policy for table "${table}"`)
+}
+
+/**
+ * Rows go in and out as copies, as they would over the wire
+ */
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+function emptyTotals(createdAt: string): LeaderboardTotals {
+  return {
+    total_score: 0,
+    total_questions: 0,
+    correct_answers: 0,
+    accuracy_rate: 0,
+    score_reached_at: createdAt,
+    updated_at: createdAt,
+  }
+}
+
+/**
+ * Adds or removes one result from a user's totals, as apply_leaderboard_delta does
+ */
+function addResult(
+  totals: LeaderboardTotals,
+  result: UserProgress,
+  sign: 1 | -1,
+  updatedAt: string
+) {
+  totals.total_score += sign * result.score_earned
+  totals.total_questions += sign
+  totals.correct_answers += sign * (result.answered_correctly ? 1 : 0)
+  // DECIMAL(5, 2) percentage
+  totals.accuracy_rate =
+    totals.total_questions > 0
+      ? Math.round((totals.correct_answers * 10000) / totals.total_questions) / 100
+      : 0
+  // Ties go to whoever reached the score first
+  if (result.score_earned !== 0) totals.score_reached_at = updatedAt
+  totals.updated_at = updatedAt
+}
+
+/**
+ * Ranks leaderboard rows the way get_leaderboard and get_board_leaderboard do
+ */
+function rankEntries(rows: (LeaderboardTotals & { user_id: string })[]): LeaderboardEntry[] {
+  return rows
+    .map(row => ({
+      user_id: row.user_id,
+      total_score: row.total_score,
+      total_questions: row.total_questions,
+      correct_answers: row.correct_answers,
+      accuracy_rate: row.accuracy_rate,
+      updated_at: row.updated_at,
+      score_reached_at: row.score_reached_at,
+      rank: 0,
+    }))
+    .sort(compareLeaderboardEntries)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }))
+}
+
+/**
+ * A user's entry with up to `count` entries above and below it
+ */
+function around(ranking: LeaderboardEntry[], userId: string, count: number): LeaderboardEntry[] {
+  const index = ranking.findIndex(entry => entry.user_id === userId)
+  if (index < 0) return []
+  return ranking.slice(Math.max(0, index - count), index + count + 1)
+}
+
+// submit_answer counts the play day in the answer's time zone, UTC if it isn't known
+function toPlayDate(moment: string, timeZone: string): string {
+  try {
+    return toLocalDate(moment, timeZone)
+  } catch {
+    return toLocalDate(moment, 'UTC')
+  }
+}
+
+// get_daily_leaderboard: higher score, then fewer attempts, then who finished first
+function compareDailyResults(a: DailyChallengeResult, b: DailyChallengeResult): number {
+  return (
+    b.score_earned - a.score_earned ||
+    a.attempts - b.attempts ||
+    Date.parse(a.completed_at) - Date.parse(b.completed_at)
+  )
+}
+
+// submit_answer: a correct answer, then the higher score, then fewer attempts
+function ranksAbove(
+  a: Pick<UserProgress, 'answered_correctly' | 'score_earned' | 'attempts'>,
+  b: Pick<UserProgress, 'answered_correctly' | 'score_earned' | 'attempts'>
+): boolean {
+  if (a.answered_correctly !== b.answered_correctly) return a.answered_correctly
+  if (a.score_earned !== b.score_earned) return a.score_earned > b.score_earned
+  return a.attempts < b.attempts
+}
+
+function compareByDifficulty(a: PlayerRow, b: PlayerRow): number {
+  return a.difficulty - b.difficulty || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+}
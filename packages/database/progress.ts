@@ -0,0 +1,134 @@
+import type { UserProgress } from './types'
+
+/**
+ * Conflict resolution for user_progress on offline-first clients
+ *
+ * Progress is unique per (user_id, player_id, game_mode), and the same question
+ * can be answered on several devices. The server grades every answer and
+ * orders them by when they were given (submit_answer): answers given after a
+ * question ended change nothing, and one given before, queued on a device that
+ * uploaded late, replaces the recorded result unless it ranks above it. Device
+ * clocks can lower a result but never raise it.
+ *
+ * So a server record wins, except over a local record whose answer is still
+ * queued, was given before the server's and ranks below it: grading it will
+ * replace the server's record, so it stays until then. A local record also
+ * stays while the server has none and its answer is still queued.
+ *
+ * Records for the same key are ranked by the better result:
+ *
+ * 1. A correct answer beats an incorrect one
+ * 2. Otherwise the higher score_earned wins
+ * 3. Otherwise the fewer attempts wins
+ * 4. Otherwise the newer completed_at wins
+ */
+
+/** A progress row as the server stores it, or as a device records it before upload */
+export type ProgressRecord = Omit<UserProgress, 'id' | 'pack_id'>
+
+export type MergeOutcome = 'pending' | 'keep_server' | 'keep_local'
+
+export interface ProgressMergePlan {
+  /** Local records the server has no result for yet, or will take once they are graded */
+  pending: ProgressRecord[]
+  /** Server records missing locally or differing from the local copy, which they replace */
+  keepServer: UserProgress[]
+  /** Local records that already match the server, left as they are */
+  keepLocal: ProgressRecord[]
+}
+
+export interface ProgressMergeReport {
+  /** Answers the outbox flush before the merge submitted for grading */
+  uploaded: number
+  pending: number
+  keptServer: number
+  keptLocal: number
+}
+
+/**
+ * Builds the key a progress record is unique on
+ */
+export function progressKey(record: Pick<ProgressRecord, 'user_id' | 'player_id' | 'game_mode'>) {
+  return `${record.user_id}:${record.player_id}:${record.game_mode}`
+}
+
+/**
+ * Compares two records for the same key
+ * @returns A positive number if a is better, negative if b is better, 0 if equal
+ */
+export function compareProgress(a: ProgressRecord, b: ProgressRecord): number {
+  if (a.answered_correctly !== b.answered_correctly) return a.answered_correctly ? 1 : -1
+  if (a.score_earned !== b.score_earned) return a.score_earned - b.score_earned
+  if (a.attempts !== b.attempts) return b.attempts - a.attempts
+  return Date.parse(a.completed_at) - Date.parse(b.completed_at)
+}
+
+/**
+ * Checks whether two records for the same key hold the same result
+ */
+export function isSameProgress(a: ProgressRecord, b: ProgressRecord): boolean {
+  return compareProgress(a, b) === 0 && a.hints_used === b.hints_used
+}
+
+/**
+ * Decides which side wins for a local record
+ * @param queued Whether the local record's answer is still queued for grading
+ */
+export function resolveProgress(
+  local: ProgressRecord,
+  server: UserProgress | undefined,
+  queued = false
+): MergeOutcome {
+  if (!server) return 'pending'
+  if (isSameProgress(local, server)) return 'keep_local'
+  // The server's completed_at is never earlier than when its answer was given
+  const replacesServer =
+    queued &&
+    compareProgress(local, server) < 0 &&
+    Date.parse(local.completed_at) < Date.parse(server.completed_at)
+  return replacesServer ? 'pending' : 'keep_server'
+}
+
+/**
+ * Plans the merge of local records against the server's records
+ * When the same key appears more than once locally, only the best local record is used
+ * @param queued Keys (see progressKey) of the answers still queued for grading
+ */
+export function mergeProgress(
+  local: ProgressRecord[],
+  server: UserProgress[],
+  queued: ReadonlySet<string> = new Set()
+): ProgressMergePlan {
+  const serverByKey = new Map(server.map(record => [progressKey(record), record]))
+
+  const bestLocal = new Map<string, ProgressRecord>()
+  for (const record of local) {
+    const key = progressKey(record)
+    const current = bestLocal.get(key)
+    if (!current || compareProgress(record, current) > 0) bestLocal.set(key, record)
+  }
+
+  const plan: ProgressMergePlan = { pending: [], keepServer: [], keepLocal: [] }
+
+  for (const [key, record] of bestLocal) {
+    const serverRecord = serverByKey.get(key)
+    switch (resolveProgress(record, serverRecord, queued.has(key))) {
+      case 'pending':
+        plan.pending.push(record)
+        break
+      case 'keep_server':
+        plan.keepServer.push(serverRecord!)
+        break
+      case 'keep_local':
+        plan.keepLocal.push(record)
+        break
+    }
+  }
+
+  // Records only the server has are restored locally
+  for (const [key, record] of serverByKey) {
+    if (!bestLocal.has(key)) plan.keepServer.push(record)
+  }
+
+  return plan
+}
@@ -1,31 +1,65 @@
 import type { TypedSupabaseClient } from './client'
-import type { Pack, Player, PackWithPlayers, UserStats, GameMode } from './types'
+import type {
+  Pack,
+  Player,
+  PackWithPlayers,
+  PackPreview,
+  RevealedAnswer,
+  UserStats,
+  GameMode,
+  Json,
+  DailyChallenge,
+  DailyChallengeResult,
+  DailyLeaderboardEntry,
+  LeaderboardEntry,
+  RevealedClues,
+  SubmitAnswerResult,
+  UserAchievement,
+} from './types'
+import { parseCareerPath } from './career'
+import { parseSessionState, type GameSessionWithState, type SessionState } from './session'
+import { calculateStreak, getLocalTimeZone, toLocalDate, type StreakSummary } from './streaks'
+import { getLeaderboardBoardKey, type LeaderboardBoard } from './leaderboards'
+import { DatabaseError, toDatabaseError } from './errors'
+import {
+  evaluateAchievements,
+  type AchievementContext,
+  type AchievementProgress,
+} from './achievements'
 
 /**
  * Fetches all available packs
  */
 export async function getPacks(client: TypedSupabaseClient) {
-  const { data, error } = await client
+  const { data, error, status } = await client
     .from('packs')
     .select('*')
     .order('created_at', { ascending: true })
 
-  if (error) throw error
+  if (error) throw toDatabaseError(error, status)
   return data as Pack[]
 }
 
+/**
+ * Player columns clients may select. The answer columns are not readable,
+ * so `select('*')` on players fails
+ */
+export const PLAYER_CONTENT_COLUMNS =
+  'id, pack_id, nationality, position, career_path, hints, difficulty, answer_hashes, created_at, updated_at'
+
 /**
  * Fetches a pack with all its players using the database function
+ * Players are only included for free packs and packs the user owns
  */
 export async function getPackWithPlayers(
   client: TypedSupabaseClient,
   slug: string
 ): Promise<PackWithPlayers | null> {
-  const { data, error } = await client.rpc('get_pack_with_players', {
+  const { data, error, status } = await client.rpc('get_pack_with_players', {
     p_slug: slug,
   })
 
-  if (error) throw error
+  if (error) throw toDatabaseError(error, status)
   if (!data || data.length === 0) return null
 
   // Transform the flat rows into a pack with nested players
@@ -37,99 +71,298 @@ export async function getPackWithPlayers(
     slug: firstRow.pack_slug,
     price: firstRow.pack_price,
     is_free: firstRow.pack_is_free,
-    difficulty_range: null,
-    question_count: data.filter(row => row.player_id).length,
-    created_at: '',
-    updated_at: '',
+    difficulty_min: firstRow.pack_difficulty_min,
+    difficulty_max: firstRow.pack_difficulty_max,
+    question_count: firstRow.pack_question_count,
+    store_product_id: firstRow.pack_store_product_id,
+    created_at: firstRow.pack_created_at,
+    updated_at: firstRow.pack_updated_at,
     players: data
       .filter(row => row.player_id)
       .map(row => ({
         id: row.player_id,
         pack_id: firstRow.pack_id,
-        name: row.player_name,
-        full_name: row.player_full_name,
         nationality: row.player_nationality,
         position: row.player_position,
         career_path: row.player_career_path as string[],
-        aliases: row.player_aliases as string[],
+        career_stints: parseCareerPath(row.player_career_path).stints,
         hints: row.player_hints as any,
         difficulty: row.player_difficulty,
-        created_at: '',
-        updated_at: '',
+        answer_hashes: row.player_answer_hashes,
+        created_at: row.player_created_at,
+        updated_at: row.player_updated_at,
       })),
   }
 
   return pack
 }
 
+/**
+ * Fetches a pack's details with a few sample questions, for packs the user
+ * hasn't bought yet. Samples have no hints or answers
+ * @param sampleSize - Number of sample questions, at most 5
+ */
+export async function getPackPreview(
+  client: TypedSupabaseClient,
+  slug: string,
+  sampleSize: number = 3
+): Promise<PackPreview | null> {
+  const { data, error, status } = await client.rpc('get_pack_preview', {
+    p_slug: slug,
+    p_sample_size: sampleSize,
+  })
+
+  if (error) throw toDatabaseError(error, status)
+  if (!data || data.length === 0) return null
+
+  const firstRow = data[0]
+  return {
+    id: firstRow.pack_id,
+    name: firstRow.pack_name,
+    description: firstRow.pack_description,
+    slug: firstRow.pack_slug,
+    price: firstRow.pack_price,
+    is_free: firstRow.pack_is_free,
+    difficulty_min: firstRow.pack_difficulty_min,
+    difficulty_max: firstRow.pack_difficulty_max,
+    question_count: firstRow.pack_question_count,
+    store_product_id: firstRow.pack_store_product_id,
+    created_at: firstRow.pack_created_at,
+    updated_at: firstRow.pack_updated_at,
+    sample: data
+      .filter(row => row.player_id)
+      .map(row => ({
+        id: row.player_id,
+        nationality: row.player_nationality,
+        position: row.player_position,
+        career_path: row.player_career_path as string[],
+        difficulty: row.player_difficulty,
+      })),
+  }
+}
+
+/**
+ * Fetches the answers to questions the user has finished
+ * Players the user hasn't finished are left out
+ */
+export async function getRevealedAnswers(
+  client: TypedSupabaseClient,
+  playerIds: string[]
+): Promise<RevealedAnswer[]> {
+  if (playerIds.length === 0) return []
+
+  const { data, error, status } = await client.rpc('get_revealed_answers', {
+    p_player_ids: playerIds,
+  })
+
+  if (error) throw toDatabaseError(error, status)
+  return (data || []) as RevealedAnswer[]
+}
+
 /**
  * Checks if a user owns a specific pack
+ * Only verified, active store purchases count (see entitlements.ts); free
+ * packs are playable without one
  */
 export async function userOwnsPack(
   client: TypedSupabaseClient,
   userId: string,
   packId: string
 ): Promise<boolean> {
-  const { data, error } = await client
+  const { data, error, status } = await client
     .from('user_packs')
     .select('id')
     .eq('user_id', userId)
     .eq('pack_id', packId)
     .single()
 
-  if (error && error.code !== 'PGRST116') throw error // PGRST116 = no rows returned
+  if (error) {
+    // No row means no such row here, not a failure
+    const failure = toDatabaseError(error, status)
+    if (failure.kind !== 'not_found') throw failure
+  }
   return !!data
 }
 
 /**
- * Purchases a pack for a user (free or paid)
+ * Gets the ids of every pack a user owns
  */
-export async function purchasePack(
+export async function getOwnedPackIds(
   client: TypedSupabaseClient,
-  userId: string,
-  packId: string
-) {
-  const { data, error } = await client
+  userId: string
+): Promise<string[]> {
+  const { data, error, status } = await client
     .from('user_packs')
-    .insert({
-      user_id: userId,
-      pack_id: packId,
-    })
-    .select()
-    .single()
+    .select('pack_id')
+    .eq('user_id', userId)
 
-  if (error) throw error
-  return data
+  if (error) throw toDatabaseError(error, status)
+  return (data || []).map(row => row.pack_id)
 }
 
 /**
- * Records user progress for a question
+ * Counts the questions a user has finished in each pack, in any game mode
+ * @param packId - Only count this pack
+ * @returns Finished question counts by pack id. Packs with none are left out
  */
-export async function recordProgress(
+export async function getPackCompletion(
   client: TypedSupabaseClient,
   userId: string,
+  packId?: string
+): Promise<Record<string, number>> {
+  let query = client
+    .from('user_progress')
+    .select('player_id, players!inner(pack_id)')
+    .eq('user_id', userId)
+  if (packId) query = query.eq('players.pack_id', packId)
+
+  const { data, error, status } = await query
+  if (error) throw toDatabaseError(error, status)
+
+  // A question played in several modes counts once
+  const finished = new Map<string, Set<string>>()
+  for (const row of data || []) {
+    const players = finished.get(row.players.pack_id) ?? new Set<string>()
+    players.add(row.player_id)
+    finished.set(row.players.pack_id, players)
+  }
+
+  return Object.fromEntries([...finished].map(([id, players]) => [id, players.size]))
+}
+
+export interface ShownClues {
+  /** Clubs shown so far, including the first one */
+  clubsRevealed: number
+  /** Hints shown so far */
+  hintsUsed: number
+  /** Set when the question is that day's daily challenge */
+  challengeDate?: string
+}
+
+/**
+ * Records the clues the signed-in user has been shown for a question
+ * Call it as each club or hint is shown, before the next guess: submit_answer
+ * scores from what was recorded, and counts can't be lowered afterwards.
+ * @throws ForbiddenError if the user isn't signed in or can't play the pack,
+ *   NotFoundError if the player doesn't exist
+ */
+export async function revealClues(
+  client: TypedSupabaseClient,
   playerId: string,
   gameMode: GameMode,
-  answeredCorrectly: boolean,
-  attempts: number,
-  scoreEarned: number
-) {
-  const { data, error } = await client
-    .from('user_progress')
-    .upsert({
-      user_id: userId,
-      player_id: playerId,
-      game_mode: gameMode,
-      answered_correctly: answeredCorrectly,
-      attempts,
-      score_earned: scoreEarned,
-      completed_at: new Date().toISOString(),
-    })
-    .select()
-    .single()
+  clues: ShownClues
+): Promise<RevealedClues> {
+  const { data, error, status } = await client.rpc('reveal_clues', {
+    p_player_id: playerId,
+    p_game_mode: gameMode,
+    p_clubs_revealed: clues.clubsRevealed,
+    p_hints_used: clues.hintsUsed,
+    p_challenge_date: clues.challengeDate ?? null,
+  })
 
-  if (error) throw error
-  return data
+  if (error) throw toDatabaseError(error, status)
+  if (!data || data.length === 0) {
+    throw new DatabaseError('unknown', 'reveal_clues returned no result')
+  }
+  return data[0]
+}
+
+export interface AnswerContext {
+  /** When the guess was made, for answers queued offline. Defaults to now */
+  answeredAt?: string
+  /** Set to submit the answer as that day's daily challenge attempt */
+  challengeDate?: string
+  /** IANA time zone the answer's play day counts in. Defaults to getLocalTimeZone() */
+  timeZone?: string
+}
+
+/**
+ * Submits a guess for the signed-in user
+ * The database grades the guess, computes the score from the clues recorded
+ * by revealClues and the guesses submitted before, and records progress and
+ * the play day once the question is over, so neither can be written by the
+ * client. Submit every guess, wrong ones included.
+ * @param guess - The guess, or null to skip the question
+ * @throws ForbiddenError if the user isn't signed in or can't play the pack,
+ *   NotFoundError if the player doesn't exist
+ */
+export async function submitAnswer(
+  client: TypedSupabaseClient,
+  playerId: string,
+  gameMode: GameMode,
+  guess: string | null,
+  context: AnswerContext = {}
+): Promise<SubmitAnswerResult> {
+  const { data, error, status } = await client.rpc('submit_answer', {
+    p_player_id: playerId,
+    p_game_mode: gameMode,
+    p_guess: guess,
+    p_answered_at: context.answeredAt ?? new Date().toISOString(),
+    p_challenge_date: context.challengeDate ?? null,
+    p_time_zone: context.timeZone ?? getLocalTimeZone(),
+  })
+
+  if (error) throw toDatabaseError(error, status)
+  if (!data || data.length === 0) {
+    throw new DatabaseError('unknown', 'submit_answer returned no result')
+  }
+  return data[0] as SubmitAnswerResult
+}
+
+/** Most entries submitAnswers takes in one request, as submit_answers allows */
+export const MAX_ANSWER_BATCH_SIZE = 100
+
+/** Clues shown or a guess made for a question, as a device queues them */
+export type QueuedAnswerEntry =
+  | ({ kind: 'clues'; playerId: string; gameMode: GameMode } & ShownClues)
+  | ({ kind: 'answer'; playerId: string; gameMode: GameMode; guess: string | null } & AnswerContext)
+
+/**
+ * Records clues and submits guesses for the signed-in user in one request
+ * Entries are handled in order, as revealClues and submitAnswer would handle
+ * them. One the database won't take (not signed in, pack not owned, bad
+ * input) is left out and reported while the rest still count; any other
+ * failure fails the whole batch, and none of it is recorded.
+ * @returns Each entry's error, or null when it was taken, in order
+ * @throws DatabaseError when the batch as a whole fails, e.g. with more than
+ *   MAX_ANSWER_BATCH_SIZE entries
+ */
+export async function submitAnswers(
+  client: TypedSupabaseClient,
+  entries: QueuedAnswerEntry[]
+): Promise<(DatabaseError | null)[]> {
+  if (entries.length === 0) return []
+
+  const { data, error, status } = await client.rpc('submit_answers', {
+    p_entries: entries.map(toAnswerEntryRow),
+  })
+
+  if (error) throw toDatabaseError(error, status)
+  const byEntry = new Map((data || []).map(row => [row.entry, row]))
+  return entries.map((_, index) => {
+    const row = byEntry.get(index)
+    if (!row) throw new DatabaseError('unknown', `submit_answers returned no result for ${index}`)
+    if (row.error_code === null) return null
+    return toDatabaseError({ code: row.error_code, message: row.error_message })
+  })
+}
+
+function toAnswerEntryRow(entry: QueuedAnswerEntry): Json {
+  const question = {
+    kind: entry.kind,
+    player_id: entry.playerId,
+    game_mode: entry.gameMode,
+    challenge_date: entry.challengeDate ?? null,
+  }
+  if (entry.kind === 'clues') {
+    return { ...question, clubs_revealed: entry.clubsRevealed, hints_used: entry.hintsUsed }
+  }
+  return {
+    ...question,
+    guess: entry.guess,
+    answered_at: entry.answeredAt ?? new Date().toISOString(),
+    time_zone: entry.timeZone ?? getLocalTimeZone(),
+  }
 }
 
 /**
@@ -139,11 +372,11 @@ export async function getUserStats(
   client: TypedSupabaseClient,
   userId: string
 ): Promise<UserStats | null> {
-  const { data, error } = await client.rpc('get_user_stats', {
+  const { data, error, status } = await client.rpc('get_user_stats', {
     p_user_id: userId,
   })
 
-  if (error) throw error
+  if (error) throw toDatabaseError(error, status)
   if (!data || data.length === 0) return null
 
   return data[0] as UserStats
@@ -151,18 +384,79 @@ export async function getUserStats(
 
 /**
  * Gets the leaderboard (top N users)
+ * Ranks are computed on read, so they're always current
  */
 export async function getLeaderboard(
   client: TypedSupabaseClient,
-  limit: number = 100
-) {
-  const { data, error } = await client
-    .from('leaderboards')
-    .select('*')
-    .order('rank', { ascending: true })
-    .limit(limit)
+  limit: number = 100,
+  offset: number = 0
+): Promise<LeaderboardEntry[]> {
+  const { data, error, status } = await client.rpc('get_leaderboard', {
+    p_limit: limit,
+    p_offset: offset,
+  })
 
-  if (error) throw error
+  if (error) throw toDatabaseError(error, status)
+  return data
+}
+
+/**
+ * Gets a user's leaderboard entry with up to `count` entries above and below it
+ * Returns an empty list if the user hasn't answered anything yet
+ */
+export async function getLeaderboardAroundUser(
+  client: TypedSupabaseClient,
+  userId: string,
+  count: number = 5
+): Promise<LeaderboardEntry[]> {
+  const { data, error, status } = await client.rpc('get_leaderboard_around_user', {
+    p_user_id: userId,
+    p_count: count,
+  })
+
+  if (error) throw toDatabaseError(error, status)
+  return data
+}
+
+/**
+ * Gets a weekly, monthly, per-pack or per-mode leaderboard
+ * @param at - Any moment in the period to read, defaults to the current one
+ */
+export async function getBoardLeaderboard(
+  client: TypedSupabaseClient,
+  board: LeaderboardBoard,
+  limit: number = 100,
+  offset: number = 0,
+  at: Date = new Date()
+): Promise<LeaderboardEntry[]> {
+  const { data, error, status } = await client.rpc('get_board_leaderboard', {
+    p_board: getLeaderboardBoardKey(board, at),
+    p_limit: limit,
+    p_offset: offset,
+  })
+
+  if (error) throw toDatabaseError(error, status)
+  return data
+}
+
+/**
+ * Gets a user's entry on a board with up to `count` entries above and below it
+ * Returns an empty list if the user hasn't played in that board's scope and period
+ */
+export async function getBoardLeaderboardAroundUser(
+  client: TypedSupabaseClient,
+  board: LeaderboardBoard,
+  userId: string,
+  count: number = 5,
+  at: Date = new Date()
+): Promise<LeaderboardEntry[]> {
+  const { data, error, status } = await client.rpc('get_board_leaderboard_around_user', {
+    p_board: getLeaderboardBoardKey(board, at),
+    p_user_id: userId,
+    p_count: count,
+  })
+
+  if (error) throw toDatabaseError(error, status)
   return data
 }
 
@@ -176,36 +470,43 @@ export async function saveGameSession(
   gameMode: GameMode,
   currentQuestionIndex: number,
   score: number,
-  sessionState?: any
+  sessionState?: SessionState
 ) {
-  const { data, error } = await client
+  const { data, error, status } = await client
     .from('game_sessions')
-    .upsert({
-      user_id: userId,
-      pack_id: packId,
-      game_mode: gameMode,
-      current_question_index: currentQuestionIndex,
-      score,
-      session_state: sessionState,
-      last_activity_at: new Date().toISOString(),
-    })
+    .upsert(
+      {
+        user_id: userId,
+        pack_id: packId,
+        game_mode: gameMode,
+        current_question_index: currentQuestionIndex,
+        score,
+        session_state: sessionState as unknown as Json,
+        last_activity_at: new Date().toISOString(),
+      },
+      {
+        // One session per user, pack and mode: saving again updates it
+        onConflict: 'user_id,pack_id,game_mode',
+      }
+    )
     .select()
     .single()
 
-  if (error) throw error
+  if (error) throw toDatabaseError(error, status)
   return data
 }
 
 /**
  * Gets a user's active game session
+ * session_state is validated and upgraded, and is null if it can't be recovered
  */
 export async function getGameSession(
   client: TypedSupabaseClient,
   userId: string,
   packId: string,
   gameMode: GameMode
-) {
-  const { data, error } = await client
+): Promise<GameSessionWithState | null> {
+  const { data, error, status } = await client
     .from('game_sessions')
     .select('*')
     .eq('user_id', userId)
@@ -213,21 +514,199 @@ export async function getGameSession(
     .eq('game_mode', gameMode)
     .single()
 
-  if (error && error.code !== 'PGRST116') throw error
-  return data
+  if (error) {
+    // No row means no such row here, not a failure
+    const failure = toDatabaseError(error, status)
+    if (failure.kind !== 'not_found') throw failure
+  }
+  if (!data) return null
+
+  return {
+    ...data,
+    session_state: parseSessionState(data.session_state, data),
+  }
 }
 
 /**
  * Deletes a game session (when completed)
  */
-export async function deleteGameSession(
+export async function deleteGameSession(client: TypedSupabaseClient, sessionId: string) {
+  const { error, status } = await client.from('game_sessions').delete().eq('id', sessionId)
+
+  if (error) throw toDatabaseError(error, status)
+}
+
+/**
+ * Gets the puzzle of the day from the server, for clients that haven't synced
+ * the free packs. Devices that have them can call selectDailyPlayer instead
+ * @param challengeDate - A UTC date ("YYYY-MM-DD"), today by default
+ * @returns null when there are no free players
+ */
+export async function getDailyChallenge(
   client: TypedSupabaseClient,
-  sessionId: string
-) {
-  const { error } = await client
-    .from('game_sessions')
-    .delete()
-    .eq('id', sessionId)
+  challengeDate?: string
+): Promise<DailyChallenge | null> {
+  const { data, error, status } = await client.rpc('get_daily_challenge', {
+    p_date: challengeDate,
+  })
+
+  if (error) throw toDatabaseError(error, status)
+  return data[0] ?? null
+}
+
+/**
+ * Gets a user's daily challenge result for a date, or null if they haven't played it
+ */
+export async function getDailyChallengeResult(
+  client: TypedSupabaseClient,
+  userId: string,
+  challengeDate: string
+): Promise<DailyChallengeResult | null> {
+  const { data, error, status } = await client
+    .from('daily_challenge_results')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('challenge_date', challengeDate)
+    .single()
 
-  if (error) throw error
+  if (error) {
+    // No row means no such row here, not a failure
+    const failure = toDatabaseError(error, status)
+    if (failure.kind !== 'not_found') throw failure
+  }
+  return data
+}
+
+/**
+ * Gets a user's daily challenge results, most recent first
+ */
+export async function getDailyChallengeHistory(
+  client: TypedSupabaseClient,
+  userId: string,
+  limit: number = 30
+): Promise<DailyChallengeResult[]> {
+  const { data, error, status } = await client
+    .from('daily_challenge_results')
+    .select('*')
+    .eq('user_id', userId)
+    .order('challenge_date', { ascending: false })
+    .limit(limit)
+
+  if (error) throw toDatabaseError(error, status)
+  return data
+}
+
+/**
+ * Gets the leaderboard for one daily challenge date
+ */
+export async function getDailyLeaderboard(
+  client: TypedSupabaseClient,
+  challengeDate: string,
+  limit: number = 100
+): Promise<DailyLeaderboardEntry[]> {
+  const { data, error, status } = await client.rpc('get_daily_leaderboard', {
+    p_date: challengeDate,
+    p_limit: limit,
+  })
+
+  if (error) throw toDatabaseError(error, status)
+  return data
+}
+
+/**
+ * Gets a user's current and longest daily play streak
+ * @param timeZone - Decides when "today" starts, should match the one answers
+ *   are submitted with
+ */
+export async function getStreak(
+  client: TypedSupabaseClient,
+  userId: string,
+  timeZone: string,
+  now: Date = new Date()
+): Promise<StreakSummary> {
+  const { data, error, status } = await client
+    .from('user_play_days')
+    .select('play_date')
+    .eq('user_id', userId)
+
+  if (error) throw toDatabaseError(error, status)
+  return calculateStreak(
+    data.map(row => row.play_date),
+    toLocalDate(now, timeZone)
+  )
+}
+
+/**
+ * Gets the achievements a user has unlocked, most recent first
+ */
+export async function getEarnedAchievements(
+  client: TypedSupabaseClient,
+  userId: string
+): Promise<UserAchievement[]> {
+  const { data, error, status } = await client
+    .from('user_achievements')
+    .select('*')
+    .eq('user_id', userId)
+    .order('unlocked_at', { ascending: false })
+
+  if (error) throw toDatabaseError(error, status)
+  return data
+}
+
+/**
+ * Gets every achievement with the user's progress towards it, earned or not
+ */
+export async function getAchievementProgress(
+  client: TypedSupabaseClient,
+  userId: string,
+  timeZone: string
+): Promise<AchievementProgress[]> {
+  const [context, unlocked] = await Promise.all([
+    getAchievementContext(client, userId, timeZone),
+    getEarnedAchievements(client, userId),
+  ])
+  return evaluateAchievements(context, unlocked)
+}
+
+/**
+ * Unlocks any achievements the signed-in user has earned but not yet been
+ * granted. The database measures them (unlock_achievements), so badges can't
+ * be granted by the client. Safe to call repeatedly: existing unlocks are left
+ * untouched
+ * @returns Only the achievements unlocked by this call
+ * @throws ForbiddenError if the user isn't signed in
+ */
+export async function unlockAchievements(client: TypedSupabaseClient): Promise<UserAchievement[]> {
+  const { data, error, status } = await client.rpc('unlock_achievements')
+
+  if (error) throw toDatabaseError(error, status)
+  return data
+}
+
+/**
+ * Loads what achievements are measured against: the user's answers, the
+ * players they can play and their streak
+ */
+async function getAchievementContext(
+  client: TypedSupabaseClient,
+  userId: string,
+  timeZone: string
+): Promise<AchievementContext> {
+  const [progressResult, playersResult, streak] = await Promise.all([
+    client
+      .from('user_progress')
+      .select('player_id, answered_correctly, hints_used')
+      .eq('user_id', userId),
+    client.from('players').select('id, pack_id, nationality'),
+    getStreak(client, userId, timeZone),
+  ])
+
+  if (progressResult.error) throw toDatabaseError(progressResult.error, progressResult.status)
+  if (playersResult.error) throw toDatabaseError(playersResult.error, playersResult.status)
+
+  return {
+    progress: progressResult.data,
+    players: playersResult.data,
+    streak,
+  }
 }
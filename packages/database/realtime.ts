@@ -0,0 +1,341 @@
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import type { TypedSupabaseClient } from './client'
+import { getLeaderboardBoardKey, getLeaderboardPeriod, type LeaderboardBoard } from './leaderboards'
+import { getBoardLeaderboard } from './queries'
+import type { LeaderboardEntry, Tables } from './types'
+
+/**
+ * Live leaderboards for Football IQ
+ *
+ * Keeps the top N of a board up to date from realtime changes to
+ * leaderboard_entries. The top N is loaded with get_board_leaderboard on every
+ * (re)connect, since changes made while disconnected are never replayed, and
+ * again whenever a change can't be applied locally: when an entry drops to the
+ * bottom of a full top N, the entry that should replace it isn't known.
+ *
+ * Weekly and monthly boards are keyed by period, so the subscription moves to
+ * the new board when the period resets (see getLeaderboardPeriod).
+ */
+
+type BoardEntryRow = Tables<'leaderboard_entries'>
+
+export type LeaderboardChange =
+  | { type: 'upsert'; row: BoardEntryRow }
+  | { type: 'delete'; userId: string }
+
+export interface LeaderboardMove {
+  entry: LeaderboardEntry
+  previousRank: number
+}
+
+export interface LeaderboardDiff {
+  /** Entries new to the top N */
+  entered: LeaderboardEntry[]
+  /** Entries still in the top N at a different rank */
+  moved: LeaderboardMove[]
+  /** Entries no longer in the top N, as they were last seen */
+  left: LeaderboardEntry[]
+}
+
+export type LiveLeaderboardStatus = 'connecting' | 'live' | 'reconnecting' | 'closed'
+
+export interface LiveLeaderboardOptions {
+  /** Defaults to the all-time global board */
+  board?: LeaderboardBoard
+  /** How many entries to keep, defaults to DEFAULT_LIVE_LEADERBOARD_LIMIT */
+  limit?: number
+  /** Called with the new top N whenever it changes */
+  onChange: (entries: LeaderboardEntry[], diff: LeaderboardDiff) => void
+  onStatusChange?: (status: LiveLeaderboardStatus) => void
+  /** Connection and loading errors. The subscription retries on its own */
+  onError?: (error: unknown) => void
+}
+
+export interface LiveLeaderboard {
+  /** The current top N, best first */
+  getEntries(): LeaderboardEntry[]
+  /** Reloads the top N from the server */
+  refresh(): Promise<void>
+  unsubscribe(): Promise<void>
+}
+
+export const DEFAULT_LIVE_LEADERBOARD_LIMIT = 10
+
+const RECONNECT_BASE_DELAY_MS = 1000
+const RECONNECT_MAX_DELAY_MS = 30000
+// setTimeout overflows past 2^31 - 1 ms (~24.8 days), shorter than a month
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1
+
+let channelCount = 0
+
+/**
+ * Orders entries the way get_board_leaderboard ranks them
+ */
+export function compareLeaderboardEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  return (
+    b.total_score - a.total_score ||
+    b.accuracy_rate - a.accuracy_rate ||
+    Date.parse(a.score_reached_at) - Date.parse(b.score_reached_at) ||
+    (a.user_id < b.user_id ? -1 : a.user_id > b.user_id ? 1 : 0)
+  )
+}
+
+/**
+ * Applies one change to a board's top N
+ * @param entries - The current top N, best first. Fewer than `limit` means the whole board
+ * @returns The new top N (the same array if nothing changed), or null if the
+ * top N has to be reloaded to know the result
+ */
+export function applyLeaderboardChange(
+  entries: LeaderboardEntry[],
+  change: LeaderboardChange,
+  limit: number
+): LeaderboardEntry[] | null {
+  const userId = change.type === 'upsert' ? change.row.user_id : change.userId
+  const existing = entries.find(entry => entry.user_id === userId)
+  const rest = entries.filter(entry => entry !== existing)
+
+  // Changes can arrive after a reload that already includes them
+  if (
+    change.type === 'upsert' &&
+    existing &&
+    Date.parse(change.row.updated_at) < Date.parse(existing.updated_at)
+  ) {
+    return entries
+  }
+
+  // Boards only list users who have answered something
+  if (change.type === 'delete' || change.row.total_questions === 0) {
+    if (!existing) return entries
+    // Someone outside a full top N moves up into it
+    return entries.length < limit ? rankLeaderboardEntries(rest) : null
+  }
+
+  const entry = toLeaderboardEntry(change.row)
+  let position = rest.findIndex(other => compareLeaderboardEntries(entry, other) < 0)
+  if (position === -1) position = rest.length
+
+  // Below everything known in a full top N: an unseen entry may rank higher
+  if (position === rest.length && entries.length >= limit) {
+    return existing ? null : entries
+  }
+
+  rest.splice(position, 0, entry)
+  return rankLeaderboardEntries(rest.slice(0, limit))
+}
+
+/**
+ * Compares two versions of a board's top N
+ */
+export function diffLeaderboards(
+  previous: LeaderboardEntry[],
+  next: LeaderboardEntry[]
+): LeaderboardDiff {
+  const previousByUser = new Map(previous.map(entry => [entry.user_id, entry]))
+  const nextUsers = new Set(next.map(entry => entry.user_id))
+  const diff: LeaderboardDiff = { entered: [], moved: [], left: [] }
+
+  for (const entry of next) {
+    const before = previousByUser.get(entry.user_id)
+    if (!before) diff.entered.push(entry)
+    else if (before.rank !== entry.rank) diff.moved.push({ entry, previousRank: before.rank })
+  }
+  diff.left = previous.filter(entry => !nextUsers.has(entry.user_id))
+
+  return diff
+}
+
+/**
+ * Subscribes to the top N of a board
+ * Call unsubscribe when done, e.g. when the screen showing it unmounts
+ */
+export function createLiveLeaderboard(
+  client: TypedSupabaseClient,
+  options: LiveLeaderboardOptions
+): LiveLeaderboard {
+  const board: LeaderboardBoard = options.board ?? { window: 'all_time', scope: 'global' }
+  const limit = options.limit ?? DEFAULT_LIVE_LEADERBOARD_LIMIT
+
+  let entries: LeaderboardEntry[] = []
+  let status: LiveLeaderboardStatus | null = null
+  let channel: RealtimeChannel | null = null
+  let period = new Date()
+  let boardKey = getLeaderboardBoardKey(board, period)
+  let closed = false
+  let attempts = 0
+  let retryTimer: ReturnType<typeof setTimeout> | undefined
+  let periodTimer: ReturnType<typeof setTimeout> | undefined
+
+  // Changes that arrive while the top N is loading are applied after it
+  let loads = 0
+  let loading = true
+  let queued: LeaderboardChange[] = []
+
+  function setStatus(next: LiveLeaderboardStatus) {
+    if (next === status) return
+    status = next
+    options.onStatusChange?.(next)
+  }
+
+  function setEntries(next: LeaderboardEntry[]) {
+    if (next === entries) return
+    const diff = diffLeaderboards(entries, next)
+    entries = next
+    options.onChange(entries, diff)
+  }
+
+  function handleChange(change: LeaderboardChange) {
+    if (loading) {
+      queued.push(change)
+      return
+    }
+
+    const next = applyLeaderboardChange(entries, change, limit)
+    if (next) setEntries(next)
+    else void refresh()
+  }
+
+  async function refresh() {
+    const load = ++loads
+    const key = boardKey
+    loading = true
+
+    try {
+      const next = await getBoardLeaderboard(client, board, limit, 0, period)
+      // A newer load, a new period or unsubscribing replaces this one
+      if (closed || load !== loads || key !== boardKey) return
+
+      loading = false
+      setEntries(next)
+      const pending = queued
+      queued = []
+      pending.forEach(handleChange)
+    } catch (error) {
+      if (closed || load !== loads) return
+      options.onError?.(error)
+      reconnectLater()
+    }
+  }
+
+  function connect() {
+    clearTimeout(retryTimer)
+    period = new Date()
+    boardKey = getLeaderboardBoardKey(board, period)
+    loading = true
+    queued = []
+    setStatus(attempts === 0 ? 'connecting' : 'reconnecting')
+
+    const key = boardKey
+    const current: RealtimeChannel = client
+      .channel(`leaderboard:${key}:${++channelCount}`)
+      .on<BoardEntryRow>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'leaderboard_entries',
+          filter: `board=eq.${key}`,
+        },
+        payload => {
+          if (payload.eventType !== 'DELETE') {
+            handleChange({ type: 'upsert', row: payload.new })
+          } else if (payload.old.board === key && payload.old.user_id) {
+            // Realtime can't filter deletes, so every board's arrive here
+            handleChange({ type: 'delete', userId: payload.old.user_id })
+          }
+        }
+      )
+      .subscribe((state, error) => {
+        if (closed || channel !== current) return
+
+        if (state === 'SUBSCRIBED') {
+          attempts = 0
+          setStatus('live')
+          void refresh()
+        } else {
+          if (error) options.onError?.(error)
+          reconnectLater()
+        }
+      })
+    channel = current
+
+    schedulePeriodReset()
+  }
+
+  function disconnect() {
+    const current = channel
+    channel = null
+    if (current) void client.removeChannel(current)
+  }
+
+  function reconnectLater() {
+    disconnect()
+    clearTimeout(retryTimer)
+    setStatus('reconnecting')
+
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempts)
+    attempts += 1
+    retryTimer = setTimeout(connect, delay)
+  }
+
+  function schedulePeriodReset() {
+    clearTimeout(periodTimer)
+    const { resetsAt } = getLeaderboardPeriod(board.window, period)
+    if (!resetsAt) return
+
+    const delay = Math.max(0, Date.parse(resetsAt) - Date.now())
+    periodTimer = setTimeout(
+      () => {
+        if (closed) return
+        if (getLeaderboardBoardKey(board) === boardKey) {
+          // Timer capped short of the reset
+          schedulePeriodReset()
+          return
+        }
+        disconnect()
+        connect()
+      },
+      Math.min(delay, MAX_TIMER_DELAY_MS)
+    )
+  }
+
+  connect()
+
+  return {
+    getEntries: () => entries,
+    refresh,
+    async unsubscribe() {
+      if (closed) return
+      closed = true
+      clearTimeout(retryTimer)
+      clearTimeout(periodTimer)
+      const current = channel
+      channel = null
+      setStatus('closed')
+      if (current) await client.removeChannel(current)
+    },
+  }
+}
+
+/**
+ * Puts entries in rank order, 1 = best
+ */
+function rankLeaderboardEntries(entries: LeaderboardEntry[]): LeaderboardEntry[] {
+  return entries.map((entry, index) =>
+    entry.rank === index + 1 ? entry : { ...entry, rank: index + 1 }
+  )
+}
+
+function toLeaderboardEntry(row: BoardEntryRow): LeaderboardEntry {
+  return {
+    user_id: row.user_id,
+    total_score: row.total_score,
+    total_questions: row.total_questions,
+    correct_answers: row.correct_answers,
+    // DECIMAL columns can arrive as strings in change payloads
+    accuracy_rate: Number(row.accuracy_rate),
+    updated_at: row.updated_at,
+    score_reached_at: row.score_reached_at,
+    rank: 0,
+  }
+}
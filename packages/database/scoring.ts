@@ -0,0 +1,129 @@
+import type { GameMode } from './types'
+
+/**
+ * Scoring rules for Football IQ
+ *
+ * Pure functions only: every client computes the same score for the same
+ * answer, so score_earned values are comparable. The score that is recorded
+ * comes from calculate_score in the database (007_submit_answer.sql), which
+ * mirrors these rules; change both together.
+ *
+ * A correct answer starts at the mode's base points, loses a share for every
+ * extra club revealed, hint used and wrong attempt, and is then weighted by
+ * the player's difficulty (1-5). Wrong answers score 0.
+ */
+
+export interface ScoringRules {
+  /** Points for a correct first guess with nothing revealed beyond the start */
+  basePoints: number
+  /** Share of base points lost by the time every club has been revealed */
+  fullRevealPenalty: number
+  /** Share of base points lost per hint used */
+  hintPenalty: number
+  /** Share of base points lost per wrong attempt */
+  wrongAttemptPenalty: number
+  /** Minimum share of base points kept for any correct answer */
+  floor: number
+}
+
+export const SCORING_RULES: Record<GameMode, ScoringRules> = {
+  // Clubs revealed one at a time: answering early is what earns the points
+  career_path_progressive: {
+    basePoints: 100,
+    fullRevealPenalty: 0.6,
+    hintPenalty: 0.15,
+    wrongAttemptPenalty: 0.1,
+    floor: 0.1,
+  },
+  // Every club visible from the start, so no reveal penalty
+  career_path_full: {
+    basePoints: 60,
+    fullRevealPenalty: 0,
+    hintPenalty: 0.2,
+    wrongAttemptPenalty: 0.15,
+    floor: 0.1,
+  },
+  // A single transfer is shown, extra clubs work like hints
+  transfer: {
+    basePoints: 80,
+    fullRevealPenalty: 0.5,
+    hintPenalty: 0.15,
+    wrongAttemptPenalty: 0.1,
+    floor: 0.1,
+  },
+}
+
+export interface ScoreInput {
+  gameMode: GameMode
+  /** players.difficulty, 1 (easy) to 5 (expert) */
+  difficulty: number
+  answeredCorrectly: boolean
+  /** Clubs visible when the answer was given (including the first one) */
+  clubsRevealed: number
+  /** Total clubs in the player's career path */
+  totalClubs: number
+  hintsUsed: number
+  wrongAttempts: number
+}
+
+export interface ScoreBreakdown {
+  base: number
+  revealPenalty: number
+  hintPenalty: number
+  attemptPenalty: number
+  difficultyMultiplier: number
+  total: number
+}
+
+/**
+ * Multiplier applied for a player's difficulty: 1.0 at difficulty 1 up to 2.0 at 5
+ */
+export function difficultyMultiplier(difficulty: number): number {
+  const clamped = Math.min(5, Math.max(1, Math.round(difficulty)))
+  return 1 + (clamped - 1) * 0.25
+}
+
+/**
+ * Highest score a player can earn in a game mode
+ */
+export function maxScore(gameMode: GameMode, difficulty: number): number {
+  return Math.round(SCORING_RULES[gameMode].basePoints * difficultyMultiplier(difficulty))
+}
+
+/**
+ * Calculates the score for an answer, with the individual deductions
+ */
+export function calculateScore(input: ScoreInput): ScoreBreakdown {
+  const rules = SCORING_RULES[input.gameMode]
+  const multiplier = difficultyMultiplier(input.difficulty)
+
+  if (!input.answeredCorrectly) {
+    return {
+      base: rules.basePoints,
+      revealPenalty: 0,
+      hintPenalty: 0,
+      attemptPenalty: 0,
+      difficultyMultiplier: multiplier,
+      total: 0,
+    }
+  }
+
+  // Reveal penalty scales with the share of extra clubs shown, so long careers
+  // aren't punished harder than short ones
+  const extraClubs = Math.max(0, input.clubsRevealed - 1)
+  const revealableClubs = Math.max(1, input.totalClubs - 1)
+  const revealShare = rules.fullRevealPenalty * Math.min(1, extraClubs / revealableClubs)
+  const hintShare = rules.hintPenalty * Math.max(0, input.hintsUsed)
+  const attemptShare = rules.wrongAttemptPenalty * Math.max(0, input.wrongAttempts)
+
+  const kept = Math.max(rules.floor, 1 - revealShare - hintShare - attemptShare)
+
+  return {
+    base: rules.basePoints,
+    revealPenalty: Math.round(rules.basePoints * revealShare),
+    hintPenalty: Math.round(rules.basePoints * hintShare),
+    attemptPenalty: Math.round(rules.basePoints * attemptShare),
+    difficultyMultiplier: multiplier,
+    total: Math.round(rules.basePoints * kept * multiplier),
+  }
+}
@@ -0,0 +1,78 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+import { dirname, resolve } from 'node:path'
+import { generatePackSql, importPacks, type PackSource } from '../importer'
+
+/**
+ * Validates pack definitions and writes the SQL that imports them
+ *
+ *   pnpm --filter @football-iq/database import-packs [--out seed.sql] <pack.json>...
+ *
+ * pnpm runs it from packages/database, so paths are relative to that folder.
+ *
+ * A pack file holds { "pack": {...}, "players": [...] }. "players" may instead
+ * name a CSV file, relative to the pack file (see parsePlayersCsv). Nothing is
+ * written if any definition has an issue; the issues are listed and the
+ * script exits with status 1.
+ */
+
+const HEADER = `-- =============================================================================
+-- Football IQ Seed Data
+-- =============================================================================
+-- Generated from supabase/packs by packages/database/scripts/import-packs.ts.
+-- Edit the pack files and regenerate instead of changing this file.
+-- =============================================================================
+`
+
+function main(args: string[]): number {
+  const outIndex = args.indexOf('--out')
+  const out = outIndex >= 0 ? args[outIndex + 1] : null
+  const files = args.filter(
+    (_, index) => outIndex < 0 || (index !== outIndex && index !== outIndex + 1)
+  )
+
+  if (files.length === 0 || (outIndex >= 0 && !out)) {
+    console.error('Usage: import-packs [--out <file.sql>] <pack.json>...')
+    return 2
+  }
+
+  const sources: PackSource[] = []
+  for (const file of files) {
+    try {
+      sources.push(readPackSource(file))
+    } catch (error) {
+      console.error(`${file}: ${(error as Error).message}`)
+      return 1
+    }
+  }
+
+  const { packs, issues } = importPacks(sources)
+
+  if (issues.length > 0) {
+    for (const issue of issues) {
+      console.error(`${issue.source}: ${issue.path ? `${issue.path}: ` : ''}${issue.message}`)
+    }
+    console.error(`\n${issues.length} issue(s) found, nothing was written`)
+    return 1
+  }
+
+  const sql = [HEADER, ...packs.map(generatePackSql)].join('\n')
+  if (out) {
+    writeFileSync(out, sql)
+    console.error(`Wrote ${packs.length} pack(s) to ${out}`)
+  } else {
+    process.stdout.write(sql)
+  }
+  return 0
+}
+
+function readPackSource(file: string): PackSource {
+  const definition: unknown = JSON.parse(readFileSync(file, 'utf8'))
+
+  const players = (definition as { players?: unknown } | null)?.players
+  if (typeof players !== 'string') return { source: file, definition }
+
+  const csvFile = resolve(dirname(file), players)
+  return { source: file, definition, playersCsv: readFileSync(csvFile, 'utf8') }
+}
+
+process.exitCode = main(process.argv.slice(2))
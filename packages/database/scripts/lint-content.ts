@@ -0,0 +1,63 @@
+import { readFileSync } from 'node:fs'
+import { dirname, resolve } from 'node:path'
+import { lintExportedContent, lintPack, type ContentLintFinding } from '../lint'
+import { parsePlayersCsv } from '../importer'
+import type { Pack, Player } from '../types'
+
+/**
+ * Lints pack content and lists what it finds
+ *
+ *   pnpm --filter @football-iq/database lint-content [--strict] <file.json>...
+ *
+ * pnpm runs it from packages/database, so paths are relative to that folder.
+ *
+ * A file is either a pack definition from supabase/packs (see import-packs.ts)
+ * or an export of the tables as { "packs": [...], "players": [...] }. Exits
+ * with status 1 when there are errors, or any finding with --strict.
+ */
+
+function main(args: string[]): number {
+  const strict = args.includes('--strict')
+  const files = args.filter(arg => arg !== '--strict')
+
+  if (files.length === 0) {
+    console.error('Usage: lint-content [--strict] <file.json>...')
+    return 2
+  }
+
+  const findings: ContentLintFinding[] = []
+  for (const file of files) {
+    try {
+      findings.push(...lintFile(file))
+    } catch (error) {
+      console.error(`${file}: ${(error as Error).message}`)
+      return 1
+    }
+  }
+
+  for (const finding of findings) {
+    const where = finding.player ? `${finding.pack} / ${finding.player}` : finding.pack
+    console.log(`${finding.severity} [${finding.rule}] ${where}: ${finding.message}`)
+  }
+
+  const errors = findings.filter(finding => finding.severity === 'error').length
+  console.log(`\n${errors} error(s), ${findings.length - errors} warning(s)`)
+  return errors > 0 || (strict && findings.length > 0) ? 1 : 0
+}
+
+function lintFile(file: string): ContentLintFinding[] {
+  const data = JSON.parse(readFileSync(file, 'utf8'))
+
+  if (Array.isArray(data?.packs)) {
+    return lintExportedContent(data.packs as Pack[], (data.players ?? []) as Player[])
+  }
+
+  // question_count and the difficulty range are derived by the database
+  const players =
+    typeof data?.players === 'string'
+      ? parsePlayersCsv(readFileSync(resolve(dirname(file), data.players), 'utf8'))
+      : data?.players
+  return lintPack({ pack: { slug: data?.pack?.slug ?? file }, players: players ?? [] })
+}
+
+process.exitCode = main(process.argv.slice(2))
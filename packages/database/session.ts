@@ -0,0 +1,410 @@
+import type { GameMode, GameSession, Json, PlayerWithCareer } from './types'
+import { matchHashedAnswer, type AnswerMatch, type AnswerVerdict } from './matching'
+import { calculateScore } from './scoring'
+import { buildTransferQuestions, type Transfer } from './transfer'
+
+/**
+ * Game session state for Football IQ
+ *
+ * game_sessions.session_state is JSONB, so anything can come back from the
+ * database: rows written by older clients, or by hand. Everything loaded goes
+ * through parseSessionState, which upgrades old versions and rejects
+ * malformed state, so a resumed game never crashes on bad data.
+ *
+ * Gameplay changes go through a pure reducer driven by actions, which makes
+ * the same session replayable on web, mobile and the server.
+ */
+
+export const SESSION_STATE_VERSION = 2
+
+export type QuestionStatus = 'in_progress' | 'correct' | 'failed' | 'skipped'
+
+export interface QuestionState {
+  revealed_clubs: number
+  hints_used: number
+  wrong_guesses: string[]
+  status: QuestionStatus
+  last_verdict: AnswerVerdict | null
+  score_earned: number
+  /** The move asked about in transfer mode, null in the career path modes */
+  transfer: Transfer | null
+}
+
+export interface QuestionResult {
+  player_id: string
+  answered_correctly: boolean
+  attempts: number
+  score_earned: number
+  hints_used: number
+  revealed_clubs: number
+}
+
+export interface SessionState {
+  version: typeof SESSION_STATE_VERSION
+  /**
+   * Player ids in play order. Empty means the pack's own order
+   * (in transfer mode, only players with at least one transfer)
+   */
+  question_order: string[]
+  current_question_index: number
+  score: number
+  question: QuestionState
+  results: QuestionResult[]
+  completed: boolean
+}
+
+export type SessionAction =
+  // `match` is the server's grading (submit_answer); without it the guess is
+  // checked against the player's answer hashes
+  | { type: 'guess'; guess: string; match?: AnswerMatch }
+  | { type: 'reveal_club' }
+  | { type: 'use_hint' }
+  | { type: 'skip' }
+  | { type: 'advance' }
+
+export interface SessionContext {
+  gameMode: GameMode
+  /** Players in the pack, as returned by getPackWithPlayers */
+  players: PlayerWithCareer[]
+  /** Wrong guesses allowed before a question is failed */
+  maxWrongGuesses?: number
+}
+
+export type GameSessionWithState = Omit<GameSession, 'session_state'> & {
+  session_state: SessionState | null
+}
+
+/** Wrong guesses allowed per question unless the context says otherwise */
+export const DEFAULT_MAX_WRONG_GUESSES = 3
+const QUESTION_STATUSES: QuestionStatus[] = ['in_progress', 'correct', 'failed', 'skipped']
+const VERDICTS: AnswerVerdict[] = ['exact', 'alias', 'close_miss', 'wrong']
+
+/**
+ * Creates the state for a new session
+ */
+export function createSessionState(
+  context: SessionContext,
+  questionOrder: string[] = []
+): SessionState {
+  return {
+    version: SESSION_STATE_VERSION,
+    question_order: questionOrder,
+    current_question_index: 0,
+    score: 0,
+    question: createQuestionState(context, orderPlayers(questionOrder, context)[0]),
+    results: [],
+    completed: false,
+  }
+}
+
+/**
+ * Returns the player for the current question, or null once the session is complete
+ */
+export function getCurrentPlayer(
+  state: SessionState,
+  context: SessionContext
+): PlayerWithCareer | null {
+  const players = orderPlayers(state.question_order, context)
+  return players[state.current_question_index] ?? null
+}
+
+/**
+ * Returns the number of questions in the session
+ * (in transfer mode, players without a usable move are left out)
+ */
+export function countQuestions(state: SessionState, context: SessionContext): number {
+  return orderPlayers(state.question_order, context).length
+}
+
+/**
+ * Builds a reducer bound to a pack, suitable for React's useReducer
+ */
+export function createSessionReducer(context: SessionContext) {
+  return (state: SessionState, action: SessionAction) => reduceSession(state, action, context)
+}
+
+/**
+ * Applies a gameplay action to the session state.
+ * Actions that don't apply in the current state return the state unchanged.
+ */
+export function reduceSession(
+  state: SessionState,
+  action: SessionAction,
+  context: SessionContext
+): SessionState {
+  if (state.completed) return state
+
+  const players = orderPlayers(state.question_order, context)
+  const player = players[state.current_question_index]
+  if (!player) return state
+
+  const question = state.question
+  const totalClubs = player.career_path.length
+
+  switch (action.type) {
+    case 'guess': {
+      if (question.status !== 'in_progress') return state
+
+      const result = action.match ?? matchHashedAnswer(action.guess, player)
+      if (result.isCorrect) {
+        const { total } = calculateScore({
+          gameMode: context.gameMode,
+          difficulty: player.difficulty,
+          answeredCorrectly: true,
+          clubsRevealed: question.revealed_clubs,
+          totalClubs,
+          hintsUsed: question.hints_used,
+          wrongAttempts: question.wrong_guesses.length,
+        })
+        return {
+          ...state,
+          score: state.score + total,
+          question: {
+            ...question,
+            status: 'correct',
+            last_verdict: result.verdict,
+            score_earned: total,
+          },
+        }
+      }
+
+      const wrongGuesses = [...question.wrong_guesses, action.guess]
+      const maxWrong = context.maxWrongGuesses ?? DEFAULT_MAX_WRONG_GUESSES
+      return {
+        ...state,
+        question: {
+          ...question,
+          wrong_guesses: wrongGuesses,
+          status: wrongGuesses.length >= maxWrong ? 'failed' : 'in_progress',
+          last_verdict: result.verdict,
+        },
+      }
+    }
+
+    case 'reveal_club': {
+      if (question.status !== 'in_progress' || question.revealed_clubs >= totalClubs) {
+        return state
+      }
+      return {
+        ...state,
+        question: { ...question, revealed_clubs: question.revealed_clubs + 1 },
+      }
+    }
+
+    case 'use_hint': {
+      const availableHints = countHints(player)
+      if (question.status !== 'in_progress' || question.hints_used >= availableHints) {
+        return state
+      }
+      return {
+        ...state,
+        question: { ...question, hints_used: question.hints_used + 1 },
+      }
+    }
+
+    case 'skip': {
+      if (question.status !== 'in_progress') return state
+      return { ...state, question: { ...question, status: 'skipped' } }
+    }
+
+    case 'advance': {
+      if (question.status === 'in_progress') return state
+
+      const correct = question.status === 'correct'
+      const result: QuestionResult = {
+        player_id: player.id,
+        answered_correctly: correct,
+        attempts: question.wrong_guesses.length + (correct ? 1 : 0),
+        score_earned: question.score_earned,
+        hints_used: question.hints_used,
+        revealed_clubs: question.revealed_clubs,
+      }
+      const nextIndex = state.current_question_index + 1
+
+      return {
+        ...state,
+        current_question_index: nextIndex,
+        question: createQuestionState(context, players[nextIndex]),
+        results: [...state.results, result],
+        completed: nextIndex >= players.length,
+      }
+    }
+  }
+}
+
+/**
+ * Validates session state loaded from the database, upgrading older versions.
+ * @param fallback - Values from the game_sessions row, used when upgrading state that predates them
+ * @returns The valid state, or null when it is missing or cannot be recovered
+ */
+export function parseSessionState(
+  raw: Json | null | undefined,
+  fallback: Partial<Pick<GameSession, 'current_question_index' | 'score'>> = {}
+): SessionState | null {
+  if (!isObject(raw)) return null
+
+  const upgraded = upgradeSessionState(raw, fallback)
+  if (!upgraded) return null
+
+  return isSessionState(upgraded) ? (upgraded as unknown as SessionState) : null
+}
+
+/**
+ * Upgrades raw state to the current version.
+ * Each step takes version N to N + 1, so old rows can skip any number of versions.
+ */
+function upgradeSessionState(
+  raw: { [key: string]: Json | undefined },
+  fallback: Partial<Pick<GameSession, 'current_question_index' | 'score'>>
+): { [key: string]: Json | undefined } | null {
+  let state = raw
+  let version = typeof state.version === 'number' ? state.version : 0
+
+  if (version > SESSION_STATE_VERSION) return null
+
+  // v0: the original unversioned shape, one flat question
+  // {"revealed_clubs": 2, "hints_used": 1, "wrong_guesses": ["Ronaldo", "Neymar"]}
+  if (version === 0) {
+    const index = fallback.current_question_index ?? 0
+    state = {
+      version: 1,
+      question_order: [],
+      current_question_index: index,
+      score: fallback.score ?? 0,
+      question: {
+        revealed_clubs: typeof state.revealed_clubs === 'number' ? state.revealed_clubs : 1,
+        hints_used: typeof state.hints_used === 'number' ? state.hints_used : 0,
+        wrong_guesses: Array.isArray(state.wrong_guesses) ? state.wrong_guesses : [],
+        status: 'in_progress',
+        last_verdict: null,
+        score_earned: 0,
+      },
+      results: [],
+      completed: false,
+    }
+    version = 1
+  }
+
+  // v1: questions had no transfer. Transfer mode wasn't playable yet, so
+  // every v1 session is a career path one
+  if (version === 1) {
+    state = {
+      ...state,
+      version: 2,
+      question: isObject(state.question) ? { ...state.question, transfer: null } : state.question,
+    }
+    version = 2
+  }
+
+  return state
+}
+
+function isSessionState(value: { [key: string]: Json | undefined }): boolean {
+  return (
+    value.version === SESSION_STATE_VERSION &&
+    isStringArray(value.question_order) &&
+    isCount(value.current_question_index) &&
+    typeof value.score === 'number' &&
+    typeof value.completed === 'boolean' &&
+    isQuestionState(value.question) &&
+    Array.isArray(value.results) &&
+    value.results.every(isQuestionResult)
+  )
+}
+
+function isQuestionState(value: Json | undefined): boolean {
+  return (
+    isObject(value) &&
+    isCount(value.revealed_clubs) &&
+    isCount(value.hints_used) &&
+    isStringArray(value.wrong_guesses) &&
+    QUESTION_STATUSES.includes(value.status as QuestionStatus) &&
+    (value.last_verdict === null || VERDICTS.includes(value.last_verdict as AnswerVerdict)) &&
+    typeof value.score_earned === 'number' &&
+    (value.transfer === null || isTransfer(value.transfer))
+  )
+}
+
+function isTransfer(value: Json | undefined): boolean {
+  return (
+    isObject(value) &&
+    typeof value.from_club === 'string' &&
+    typeof value.to_club === 'string' &&
+    typeof value.year === 'number' &&
+    typeof value.loan === 'boolean'
+  )
+}
+
+function isQuestionResult(value: Json | undefined): boolean {
+  return (
+    isObject(value) &&
+    typeof value.player_id === 'string' &&
+    typeof value.answered_correctly === 'boolean' &&
+    isCount(value.attempts) &&
+    typeof value.score_earned === 'number' &&
+    isCount(value.hints_used) &&
+    isCount(value.revealed_clubs)
+  )
+}
+
+function isObject(value: Json | undefined): value is { [key: string]: Json | undefined } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isStringArray(value: Json | undefined): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function isCount(value: Json | undefined): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+/**
+ * Progressive and transfer questions start with one club visible,
+ * the full career mode shows every club from the start. Transfer questions
+ * also hold the move to ask about, picked by buildTransferQuestions
+ */
+function createQuestionState(
+  context: SessionContext,
+  player: PlayerWithCareer | undefined
+): QuestionState {
+  return {
+    revealed_clubs: context.gameMode === 'career_path_full' ? player?.career_path.length ?? 1 : 1,
+    hints_used: 0,
+    wrong_guesses: [],
+    status: 'in_progress',
+    last_verdict: null,
+    score_earned: 0,
+    transfer: context.gameMode === 'transfer' && player ? findTransfer(player, context) : null,
+  }
+}
+
+function findTransfer(player: PlayerWithCareer, context: SessionContext): Transfer | null {
+  const question = buildTransferQuestions(context.players).find(
+    candidate => candidate.player_id === player.id
+  )
+  if (!question) return null
+
+  const { from_club, to_club, year, loan } = question
+  return { from_club, to_club, year, loan }
+}
+
+function orderPlayers(questionOrder: string[], context: SessionContext): PlayerWithCareer[] {
+  const byId = new Map(context.players.map(player => [player.id, player]))
+  const ordered =
+    questionOrder.length === 0
+      ? context.players
+      : questionOrder
+          .map(id => byId.get(id))
+          .filter((player): player is PlayerWithCareer => !!player)
+  if (context.gameMode !== 'transfer') return ordered
+
+  // Players without a usable move can't be asked in transfer mode
+  const asked = new Set(buildTransferQuestions(context.players).map(question => question.player_id))
+  return ordered.filter(player => asked.has(player.id))
+}
+
+function countHints(player: PlayerWithCareer): number {
+  if (!player.hints) return 0
+  return [player.hints.hint1, player.hints.hint2, player.hints.hint3].filter(Boolean).length
+}
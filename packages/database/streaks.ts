@@ -0,0 +1,80 @@
+/**
+ * Daily play streaks for Football IQ
+ *
+ * A streak is the number of consecutive calendar days a user has played.
+ * Day boundaries follow the user's own time zone, so a late-evening game in
+ * New York counts for that evening, not for the next day in UTC.
+ *
+ * Play days are stored as "YYYY-MM-DD" dates in user_play_days, keyed by the
+ * time an answer was completed (not when it was synced), so re-syncing old
+ * progress from the mobile outbox lands on the same day and never changes a
+ * streak twice. submit_answer records them as it grades each answer, in the
+ * time zone the answer was submitted with.
+ */
+
+export interface StreakSummary {
+  current: number
+  longest: number
+  lastPlayedDate: string | null
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Returns the calendar date ("YYYY-MM-DD") of a moment in a time zone
+ * @param timeZone - IANA time zone, e.g. "Europe/London"
+ */
+export function toLocalDate(moment: string | Date, timeZone: string = 'UTC'): string {
+  const date = typeof moment === 'string' ? new Date(moment) : moment
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date)
+}
+
+/**
+ * IANA time zone of the device or browser, UTC if it can't be determined
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+/**
+ * Calculates the current and longest streak from the days a user played
+ * The current streak stays alive until the end of the day after the last play
+ * @param playDates - Play days as "YYYY-MM-DD", in any order, duplicates allowed
+ * @param today - Today's date in the user's time zone
+ */
+export function calculateStreak(playDates: string[], today: string): StreakSummary {
+  const days = [...new Set(playDates)].map(toDayNumber).sort((a, b) => a - b)
+  if (days.length === 0) return { current: 0, longest: 0, lastPlayedDate: null }
+
+  let longest = 1
+  let run = 1
+  for (let i = 1; i < days.length; i++) {
+    run = days[i] === days[i - 1] + 1 ? run + 1 : 1
+    longest = Math.max(longest, run)
+  }
+
+  // `run` is now the streak ending on the last play day
+  const lastDay = days[days.length - 1]
+  const todayNumber = toDayNumber(today)
+  const current = todayNumber - lastDay <= 1 ? run : 0
+
+  return {
+    current,
+    longest,
+    lastPlayedDate: fromDayNumber(lastDay),
+  }
+}
+
+function toDayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / MS_PER_DAY)
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * MS_PER_DAY).toISOString().slice(0, 10)
+}
@@ -0,0 +1,132 @@
+import { toDatabaseError } from './errors'
+
+/**
+ * Sync transport helpers for offline-first clients: retries and progress events
+ *
+ * Nothing here talks to Supabase directly. Operations are passed in, and the
+ * clock (sleep) and randomness (jitter) can be replaced, so the behaviour can
+ * be exercised against a fake client that injects failures.
+ */
+
+export type SyncErrorKind = 'transient' | 'permanent'
+
+export interface RetryPolicy {
+  /** Total attempts, including the first one */
+  maxAttempts: number
+  /** Delay before the first retry */
+  baseDelayMs: number
+  /** Upper bound for any single delay */
+  maxDelayMs: number
+}
+
+export interface RetryOptions extends Partial<RetryPolicy> {
+  sleep?: (ms: number) => Promise<void>
+  random?: () => number
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void
+}
+
+export type SyncEvent =
+  | { type: 'started'; pending: number }
+  // A page of the outbox was read and `count` of its entries uploaded
+  | { type: 'page_uploaded'; count: number; uploaded: number }
+  | { type: 'retrying'; attempt: number; delayMs: number; error: string }
+  | { type: 'entry_rejected'; id: number; error: string }
+  | { type: 'stopped'; error: string }
+  | { type: 'finished'; uploaded: number; rejected: number; remaining: number }
+
+export type SyncEventListener = (event: SyncEvent) => void
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+}
+
+/**
+ * Decides whether a failed sync operation is worth retrying
+ *
+ * Only transient database errors are (see getDatabaseErrorKind): network
+ * failures, timeouts, rate limiting and server errors. RLS rejections,
+ * constraint violations, bad input and our own bugs will fail the same way
+ * every time, so the entry is set aside instead of blocking the outbox.
+ * Throw PostgREST errors through toDatabaseError with the response status,
+ * or a gateway error can't be told apart from a bug.
+ */
+export function classifySyncError(error: unknown): SyncErrorKind {
+  return toDatabaseError(error).kind === 'transient' ? 'transient' : 'permanent'
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * base * 2^(attempt - 1), capped at maxDelayMs
+ */
+export function backoffDelay(
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  return Math.round(ceiling * random())
+}
+
+/**
+ * Runs an operation, retrying transient failures with backoff
+ * Permanent failures, and the last transient one, are rethrown unchanged
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const policy: RetryPolicy = {
+    maxAttempts: options.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    baseDelayMs: options.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: options.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+  }
+  const sleep = options.sleep ?? defaultSleep
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt)
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || classifySyncError(error) === 'permanent') throw error
+
+      const delayMs = backoffDelay(attempt, policy, options.random)
+      options.onRetry?.(attempt, delayMs, error)
+      await sleep(delayMs)
+    }
+  }
+}
+
+/**
+ * Creates a minimal event emitter for sync progress
+ */
+export function createSyncEventEmitter() {
+  const listeners = new Set<SyncEventListener>()
+
+  return {
+    emit(event: SyncEvent) {
+      for (const listener of listeners) listener(event)
+    },
+    subscribe(listener: SyncEventListener): () => void {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+/**
+ * Readable message for any thrown value
+ */
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message
+  if (typeof error === 'object' && error !== null && 'message' in error) {
+    return String((error as { message: unknown }).message)
+  }
+  return String(error)
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
@@ -0,0 +1,131 @@
+import type { CareerStint, PlayerWithCareer } from './types'
+import { normalizeAnswer } from './matching'
+
+/**
+ * Transfer questions for Football IQ
+ *
+ * The transfer game mode asks "Who moved from club A to club B in year Y?".
+ * There is no separate transfer data: moves are derived from each player's
+ * parsed career stints. A loan is treated as a move from the player's parent
+ * club (the last permanent club), so "Inter Milan → Reggina (loan)" and a
+ * later "Inter Milan → AC Milan" are read correctly even when the career path
+ * lists the loan clubs in between.
+ *
+ * Transfer questions use the same session, progress and scoring flow as the
+ * career path modes: the move is shown first, and revealing more clubs works
+ * like a hint (see SCORING_RULES.transfer). Each question's move is kept in
+ * the session state (QuestionState.transfer), so a resumed game asks the same.
+ */
+
+export interface Transfer {
+  from_club: string
+  to_club: string
+  year: number
+  loan: boolean
+}
+
+export interface TransferQuestion extends Transfer {
+  player_id: string
+  /** Number of players in the pack who made the same move (1 = unambiguous) */
+  matching_players: number
+}
+
+/**
+ * The question asked about a move, e.g.
+ * "Who moved from Inter Milan to Reggina on loan in 2001?"
+ */
+export function getTransferPrompt(transfer: Transfer): string {
+  const loan = transfer.loan ? ' on loan' : ''
+  return `Who moved from ${transfer.from_club} to ${transfer.to_club}${loan} in ${transfer.year}?`
+}
+
+/**
+ * Lists the moves in a player's career, in career order
+ */
+export function getTransfers(stints: CareerStint[]): Transfer[] {
+  const transfers: Transfer[] = []
+  const seen = new Set<string>()
+  let parent: CareerStint | null = null
+
+  for (const stint of stints) {
+    if (parent && normalizeAnswer(parent.club) !== normalizeAnswer(stint.club)) {
+      const key = transferKey(parent.club, stint.club)
+      if (!seen.has(key)) {
+        seen.add(key)
+        transfers.push({
+          from_club: parent.club,
+          to_club: stint.club,
+          year: stint.start_year,
+          loan: stint.loan,
+        })
+      }
+    }
+    if (!stint.loan) parent = stint
+  }
+
+  return transfers
+}
+
+/**
+ * Picks one transfer question per player in the pack
+ *
+ * Preference, in order:
+ * 1. Moves no other player in the pack made, so the answer is unambiguous
+ * 2. Permanent moves over loans
+ * 3. Moves between clubs that appear least often in the pack
+ * 4. The earliest move in the career
+ *
+ * Players without any usable move are left out.
+ */
+export function buildTransferQuestions(players: PlayerWithCareer[]): TransferQuestion[] {
+  const transfersByPlayer = new Map(
+    players.map(player => [player.id, getTransfers(player.career_stints)])
+  )
+
+  // How many players made each move, and how often each club appears
+  const moveCounts = new Map<string, number>()
+  const clubCounts = new Map<string, number>()
+  for (const player of players) {
+    for (const transfer of transfersByPlayer.get(player.id) ?? []) {
+      const key = transferKey(transfer.from_club, transfer.to_club)
+      moveCounts.set(key, (moveCounts.get(key) ?? 0) + 1)
+    }
+    const clubs = new Set(player.career_stints.map(stint => normalizeAnswer(stint.club)))
+    for (const club of clubs) clubCounts.set(club, (clubCounts.get(club) ?? 0) + 1)
+  }
+
+  const questions: TransferQuestion[] = []
+
+  for (const player of players) {
+    const candidates = (transfersByPlayer.get(player.id) ?? []).map((transfer, index) => ({
+      transfer,
+      index,
+      matching: moveCounts.get(transferKey(transfer.from_club, transfer.to_club)) ?? 1,
+      clubFrequency:
+        (clubCounts.get(normalizeAnswer(transfer.from_club)) ?? 0) +
+        (clubCounts.get(normalizeAnswer(transfer.to_club)) ?? 0),
+    }))
+    if (candidates.length === 0) continue
+
+    candidates.sort(
+      (a, b) =>
+        a.matching - b.matching ||
+        Number(a.transfer.loan) - Number(b.transfer.loan) ||
+        a.clubFrequency - b.clubFrequency ||
+        a.index - b.index
+    )
+
+    const best = candidates[0]
+    questions.push({
+      ...best.transfer,
+      player_id: player.id,
+      matching_players: best.matching,
+    })
+  }
+
+  return questions
+}
+
+function transferKey(fromClub: string, toClub: string): string {
+  return `${normalizeAnswer(fromClub)}>${normalizeAnswer(toClub)}`
+}
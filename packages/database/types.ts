@@ -9,6 +9,121 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      answer_attempts: {
+        Row: {
+          answered_at: string | null
+          challenge_date: string | null
+          clubs_revealed: number
+          game_mode: Database["public"]["Enums"]["game_mode_type"]
+          hints_used: number
+          id: string
+          player_id: string
+          revealed_at: string | null
+          updated_at: string
+          user_id: string
+          wrong_attempts: number
+        }
+        Insert: {
+          answered_at?: string | null
+          challenge_date?: string | null
+          clubs_revealed?: number
+          game_mode: Database["public"]["Enums"]["game_mode_type"]
+          hints_used?: number
+          id?: string
+          player_id: string
+          revealed_at?: string | null
+          updated_at?: string
+          user_id: string
+          wrong_attempts?: number
+        }
+        Update: {
+          answered_at?: string | null
+          challenge_date?: string | null
+          clubs_revealed?: number
+          game_mode?: Database["public"]["Enums"]["game_mode_type"]
+          hints_used?: number
+          id?: string
+          player_id?: string
+          revealed_at?: string | null
+          updated_at?: string
+          user_id?: string
+          wrong_attempts?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_attempts_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_tombstones: {
+        Row: {
+          deleted_at: string
+          id: string
+          row_id: string
+          table_name: string
+        }
+        Insert: {
+          deleted_at?: string
+          id?: string
+          row_id: string
+          table_name: string
+        }
+        Update: {
+          deleted_at?: string
+          id?: string
+          row_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      daily_challenge_results: {
+        Row: {
+          answered_correctly: boolean
+          attempts: number
+          challenge_date: string
+          completed_at: string
+          game_mode: Database["public"]["Enums"]["game_mode_type"]
+          id: string
+          player_id: string
+          score_earned: number
+          user_id: string
+        }
+        Insert: {
+          answered_correctly: boolean
+          attempts?: number
+          challenge_date: string
+          completed_at?: string
+          game_mode?: Database["public"]["Enums"]["game_mode_type"]
+          id?: string
+          player_id: string
+          score_earned?: number
+          user_id: string
+        }
+        Update: {
+          answered_correctly?: boolean
+          attempts?: number
+          challenge_date?: string
+          completed_at?: string
+          game_mode?: Database["public"]["Enums"]["game_mode_type"]
+          id?: string
+          player_id?: string
+          score_earned?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "daily_challenge_results_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       game_sessions: {
         Row: {
           current_question_index: number
@@ -53,12 +168,57 @@ export type Database = {
           },
         ]
       }
+      leaderboard_entries: {
+        Row: {
+          accuracy_rate: number
+          board: string
+          correct_answers: number
+          period_start: string | null
+          scope: Database["public"]["Enums"]["leaderboard_scope"]
+          scope_id: string | null
+          score_reached_at: string
+          time_window: Database["public"]["Enums"]["leaderboard_window"]
+          total_questions: number
+          total_score: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          accuracy_rate?: number
+          board: string
+          correct_answers?: number
+          period_start?: string | null
+          scope: Database["public"]["Enums"]["leaderboard_scope"]
+          scope_id?: string | null
+          score_reached_at?: string
+          time_window: Database["public"]["Enums"]["leaderboard_window"]
+          total_questions?: number
+          total_score?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          accuracy_rate?: number
+          board?: string
+          correct_answers?: number
+          period_start?: string | null
+          scope?: Database["public"]["Enums"]["leaderboard_scope"]
+          scope_id?: string | null
+          score_reached_at?: string
+          time_window?: Database["public"]["Enums"]["leaderboard_window"]
+          total_questions?: number
+          total_score?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       leaderboards: {
         Row: {
           accuracy_rate: number
           correct_answers: number
           id: string
-          rank: number | null
+          score_reached_at: string
           total_questions: number
           total_score: number
           updated_at: string
@@ -68,7 +228,7 @@ export type Database = {
           accuracy_rate?: number
           correct_answers?: number
           id?: string
-          rank?: number | null
+          score_reached_at?: string
           total_questions?: number
           total_score?: number
           updated_at?: string
@@ -78,7 +238,7 @@ export type Database = {
           accuracy_rate?: number
           correct_answers?: number
           id?: string
-          rank?: number | null
+          score_reached_at?: string
           total_questions?: number
           total_score?: number
           updated_at?: string
@@ -86,41 +246,68 @@ export type Database = {
         }
         Relationships: []
       }
+      legacy_user_packs: {
+        Row: {
+          id: string
+          pack_id: string
+          purchased_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          pack_id: string
+          purchased_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          pack_id?: string
+          purchased_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       packs: {
         Row: {
           created_at: string
           description: string | null
-          difficulty_range: string | null
+          difficulty_max: number | null
+          difficulty_min: number | null
           id: string
           is_free: boolean
           name: string
           price: number | null
           question_count: number
           slug: string
+          store_product_id: string | null
           updated_at: string
         }
         Insert: {
           created_at?: string
           description?: string | null
-          difficulty_range?: string | null
+          difficulty_max?: number | null
+          difficulty_min?: number | null
           id?: string
           is_free?: boolean
           name: string
           price?: number | null
           question_count?: number
           slug: string
+          store_product_id?: string | null
           updated_at?: string
         }
         Update: {
           created_at?: string
           description?: string | null
-          difficulty_range?: string | null
+          difficulty_max?: number | null
+          difficulty_min?: number | null
           id?: string
           is_free?: boolean
           name?: string
           price?: number | null
           question_count?: number
           slug?: string
+          store_product_id?: string | null
           updated_at?: string
         }
         Relationships: []
@@ -128,6 +315,7 @@ export type Database = {
       players: {
         Row: {
           aliases: Json
+          answer_hashes: string[]
           career_path: Json
           created_at: string
           difficulty: number
@@ -142,6 +330,7 @@ export type Database = {
         }
         Insert: {
           aliases?: Json
+          answer_hashes?: string[]
           career_path: Json
           created_at?: string
           difficulty: number
@@ -156,6 +345,7 @@ export type Database = {
         }
         Update: {
           aliases?: Json
+          answer_hashes?: string[]
           career_path?: Json
           created_at?: string
           difficulty?: number
@@ -178,22 +368,96 @@ export type Database = {
           },
         ]
       }
+      purchases: {
+        Row: {
+          id: string
+          original_transaction_id: string
+          pack_id: string
+          product_id: string
+          provider: string
+          purchased_at: string
+          status: Database["public"]["Enums"]["purchase_status"]
+          status_changed_at: string
+          transaction_id: string
+          user_id: string
+          verified_at: string
+        }
+        Insert: {
+          id?: string
+          original_transaction_id: string
+          pack_id: string
+          product_id: string
+          provider: string
+          purchased_at: string
+          status?: Database["public"]["Enums"]["purchase_status"]
+          status_changed_at?: string
+          transaction_id: string
+          user_id: string
+          verified_at?: string
+        }
+        Update: {
+          id?: string
+          original_transaction_id?: string
+          pack_id?: string
+          product_id?: string
+          provider?: string
+          purchased_at?: string
+          status?: Database["public"]["Enums"]["purchase_status"]
+          status_changed_at?: string
+          transaction_id?: string
+          user_id?: string
+          verified_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchases_pack_id_fkey"
+            columns: ["pack_id"]
+            isOneToOne: false
+            referencedRelation: "packs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_achievements: {
+        Row: {
+          achievement_id: string
+          id: string
+          unlocked_at: string
+          user_id: string
+        }
+        Insert: {
+          achievement_id: string
+          id?: string
+          unlocked_at?: string
+          user_id: string
+        }
+        Update: {
+          achievement_id?: string
+          id?: string
+          unlocked_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_packs: {
         Row: {
           id: string
           pack_id: string
+          purchase_id: string | null
           purchased_at: string
           user_id: string
         }
         Insert: {
           id?: string
           pack_id: string
+          purchase_id?: string | null
           purchased_at?: string
           user_id: string
         }
         Update: {
           id?: string
           pack_id?: string
+          purchase_id?: string | null
           purchased_at?: string
           user_id?: string
         }
@@ -205,15 +469,39 @@ export type Database = {
             referencedRelation: "packs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "user_packs_purchase_id_fkey"
+            columns: ["purchase_id"]
+            isOneToOne: false
+            referencedRelation: "purchases"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      user_play_days: {
+        Row: {
+          play_date: string
+          user_id: string
+        }
+        Insert: {
+          play_date: string
+          user_id: string
+        }
+        Update: {
+          play_date?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_progress: {
         Row: {
           answered_correctly: boolean
           attempts: number
           completed_at: string
           game_mode: Database["public"]["Enums"]["game_mode_type"]
+          hints_used: number
           id: string
+          pack_id: string | null
           player_id: string
           score_earned: number
           user_id: string
@@ -223,7 +511,9 @@ export type Database = {
           attempts?: number
           completed_at?: string
           game_mode: Database["public"]["Enums"]["game_mode_type"]
+          hints_used?: number
           id?: string
+          pack_id?: string | null
           player_id: string
           score_earned?: number
           user_id: string
@@ -233,7 +523,9 @@ export type Database = {
           attempts?: number
           completed_at?: string
           game_mode?: Database["public"]["Enums"]["game_mode_type"]
+          hints_used?: number
           id?: string
+          pack_id?: string | null
           player_id?: string
           score_earned?: number
           user_id?: string
@@ -253,24 +545,158 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      answer_edit_distance: {
+        Args: { a: string; b: string }
+        Returns: number
+      }
+      answer_hash: {
+        Args: { p_kind: string; p_normalized: string; p_player_id: string }
+        Returns: string
+      }
+      answer_surname_forms: {
+        Args: { p_normalized: string }
+        Returns: string[]
+      }
+      calculate_score: {
+        Args: {
+          p_answered_correctly: boolean
+          p_clubs_revealed: number
+          p_difficulty: number
+          p_game_mode: Database["public"]["Enums"]["game_mode_type"]
+          p_hints_used: number
+          p_total_clubs: number
+          p_wrong_attempts: number
+        }
+        Returns: number
+      }
+      get_board_leaderboard: {
+        Args: { p_board: string; p_limit?: number; p_offset?: number }
+        Returns: {
+          accuracy_rate: number
+          correct_answers: number
+          rank: number
+          score_reached_at: string
+          total_questions: number
+          total_score: number
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      get_board_leaderboard_around_user: {
+        Args: { p_board: string; p_count?: number; p_user_id: string }
+        Returns: {
+          accuracy_rate: number
+          correct_answers: number
+          rank: number
+          score_reached_at: string
+          total_questions: number
+          total_score: number
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      get_daily_challenge: {
+        Args: { p_date?: string }
+        Returns: {
+          challenge_date: string
+          player_id: string
+        }[]
+      }
+      get_daily_leaderboard: {
+        Args: { p_date: string; p_limit?: number }
+        Returns: {
+          answered_correctly: boolean
+          attempts: number
+          completed_at: string
+          rank: number
+          score_earned: number
+          user_id: string
+        }[]
+      }
+      get_leaderboard: {
+        Args: { p_limit?: number; p_offset?: number }
+        Returns: {
+          accuracy_rate: number
+          correct_answers: number
+          rank: number
+          score_reached_at: string
+          total_questions: number
+          total_score: number
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      get_leaderboard_around_user: {
+        Args: { p_count?: number; p_user_id: string }
+        Returns: {
+          accuracy_rate: number
+          correct_answers: number
+          rank: number
+          score_reached_at: string
+          total_questions: number
+          total_score: number
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      get_leaderboard_rank: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      get_pack_preview: {
+        Args: { p_sample_size?: number; p_slug: string }
+        Returns: {
+          pack_created_at: string
+          pack_description: string
+          pack_difficulty_max: number
+          pack_difficulty_min: number
+          pack_id: string
+          pack_is_free: boolean
+          pack_name: string
+          pack_price: number
+          pack_question_count: number
+          pack_slug: string
+          pack_store_product_id: string
+          pack_updated_at: string
+          player_career_path: Json
+          player_difficulty: number
+          player_id: string
+          player_nationality: string
+          player_position: string
+        }[]
+      }
       get_pack_with_players: {
         Args: { p_slug: string }
         Returns: {
+          pack_created_at: string
           pack_description: string
+          pack_difficulty_max: number
+          pack_difficulty_min: number
           pack_id: string
           pack_is_free: boolean
           pack_name: string
           pack_price: number
+          pack_question_count: number
           pack_slug: string
-          player_aliases: Json
+          pack_store_product_id: string
+          pack_updated_at: string
+          player_answer_hashes: string[]
           player_career_path: Json
+          player_created_at: string
           player_difficulty: number
-          player_full_name: string
           player_hints: Json
           player_id: string
-          player_name: string
           player_nationality: string
           player_position: string
+          player_updated_at: string
+        }[]
+      }
+      get_revealed_answers: {
+        Args: { p_player_ids: string[] }
+        Returns: {
+          full_name: string
+          name: string
+          player_id: string
         }[]
       }
       get_user_stats: {
@@ -284,12 +710,108 @@ export type Database = {
           total_score: number
         }[]
       }
+      leaderboard_board_key: {
+        Args: {
+          p_period_start: string | null
+          p_scope: Database["public"]["Enums"]["leaderboard_scope"]
+          p_scope_id: string | null
+          p_window: Database["public"]["Enums"]["leaderboard_window"]
+        }
+        Returns: string
+      }
+      leaderboard_period_start: {
+        Args: {
+          p_at: string
+          p_window: Database["public"]["Enums"]["leaderboard_window"]
+        }
+        Returns: string | null
+      }
+      normalize_answer: {
+        Args: { p_input: string }
+        Returns: string
+      }
+      record_store_purchase: {
+        Args: {
+          p_original_transaction_id: string
+          p_product_id: string
+          p_provider: string
+          p_purchased_at: string
+          p_status: Database["public"]["Enums"]["purchase_status"]
+          p_transaction_id: string
+          p_user_id: string
+        }
+        Returns: Database["public"]["Tables"]["purchases"]["Row"]
+      }
+      reveal_clues: {
+        Args: {
+          p_challenge_date?: string | null
+          p_clubs_revealed: number
+          p_game_mode: Database["public"]["Enums"]["game_mode_type"]
+          p_hints_used: number
+          p_player_id: string
+        }
+        Returns: {
+          clubs_revealed: number
+          hints_used: number
+        }[]
+      }
+      select_daily_player: {
+        Args: { p_date: string }
+        Returns: string | null
+      }
+      set_store_purchase_status: {
+        Args: {
+          p_original_transaction_id: string
+          p_provider: string
+          p_status: Database["public"]["Enums"]["purchase_status"]
+        }
+        Returns: Database["public"]["Tables"]["purchases"]["Row"][]
+      }
+      submit_answer: {
+        Args: {
+          p_answered_at?: string
+          p_challenge_date?: string | null
+          p_game_mode: Database["public"]["Enums"]["game_mode_type"]
+          p_guess: string | null
+          p_player_id: string
+          p_time_zone?: string | null
+        }
+        Returns: {
+          attempts: number
+          completed: boolean
+          is_correct: boolean
+          matched_answer: string | null
+          recorded: boolean
+          score_earned: number
+          verdict: string
+        }[]
+      }
+      submit_answers: {
+        Args: { p_entries: Json }
+        Returns: {
+          entry: number
+          error_code: string | null
+          error_message: string | null
+        }[]
+      }
+      unlock_achievements: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          achievement_id: string
+          id: string
+          unlocked_at: string
+          user_id: string
+        }[]
+      }
     }
     Enums: {
       game_mode_type:
         | "career_path_progressive"
         | "career_path_full"
         | "transfer"
+      leaderboard_scope: "global" | "pack" | "game_mode"
+      leaderboard_window: "all_time" | "weekly" | "monthly"
+      purchase_status: "active" | "refunded" | "revoked"
     }
   }
 }
@@ -305,14 +827,44 @@ export type UserPack = Tables<'user_packs'>
 export type UserProgress = Tables<'user_progress'>
 export type GameSession = Tables<'game_sessions'>
 export type Leaderboard = Tables<'leaderboards'>
+export type LeaderboardBoardEntry = Tables<'leaderboard_entries'>
+export type ContentTombstone = Tables<'content_tombstones'>
+export type DailyChallengeResult = Tables<'daily_challenge_results'>
+export type UserAchievement = Tables<'user_achievements'>
+export type UserPlayDay = Tables<'user_play_days'>
+export type Purchase = Tables<'purchases'>
+export type AnswerAttempt = Tables<'answer_attempts'>
 
 // Enum types
 export type GameMode = Enums<'game_mode_type'>
+export type LeaderboardWindow = Enums<'leaderboard_window'>
+export type LeaderboardScope = Enums<'leaderboard_scope'>
+export type PurchaseStatus = Enums<'purchase_status'>
 
 // Extended types for frontend use
-export interface PlayerWithCareer extends Player {
+
+/**
+ * A single spell at a club, parsed from a career_path entry
+ * e.g. "Reggina (1999, loan)" or "Inter Miami (2023-present)"
+ */
+export interface CareerStint {
+  club: string
+  start_year: number
+  end_year: number | null // null while the spell is ongoing
+  ongoing: boolean
+  loan: boolean
+  raw: string
+}
+
+/**
+ * A player as clients can read it: the answers (name, full_name, aliases)
+ * stay on the server, answer_hashes lets a guess be checked offline
+ */
+export type PlayerContent = Omit<Player, 'name' | 'full_name' | 'aliases'>
+
+export interface PlayerWithCareer extends Omit<PlayerContent, 'career_path' | 'hints'> {
   career_path: string[]
-  aliases: string[]
+  career_stints: CareerStint[] // Parsed career_path, unparseable entries are skipped
   hints?: {
     hint1?: string
     hint2?: string
@@ -324,6 +876,69 @@ export interface PackWithPlayers extends Pack {
   players: PlayerWithCareer[]
 }
 
+/**
+ * A sample question shown before a pack is bought: no hints, no answers
+ */
+export interface PlayerPreview
+  extends Pick<PlayerContent, 'id' | 'nationality' | 'position' | 'difficulty'> {
+  career_path: string[]
+}
+
+export interface PackPreview extends Pack {
+  sample: PlayerPreview[]
+}
+
+/**
+ * The answer to a question the user has finished
+ */
+export interface RevealedAnswer {
+  player_id: string
+  name: string
+  full_name: string | null
+}
+
+/**
+ * The puzzle of a day, as picked by selectDailyPlayer
+ */
+export interface DailyChallenge {
+  challenge_date: string
+  player_id: string
+}
+
+export interface DailyLeaderboardEntry {
+  user_id: string
+  score_earned: number
+  attempts: number
+  answered_correctly: boolean
+  completed_at: string
+  rank: number
+}
+
+export interface LeaderboardEntry extends Omit<Leaderboard, 'id'> {
+  rank: number // Computed on read, 1 = highest score
+}
+
+/**
+ * Outcome of submit_answer, graded and scored by the database
+ */
+export interface SubmitAnswerResult {
+  verdict: 'exact' | 'alias' | 'close_miss' | 'wrong'
+  is_correct: boolean
+  completed: boolean // The question is over (correct, out of guesses or skipped)
+  attempts: number
+  score_earned: number
+  matched_answer: string | null // Only set once the question is completed
+  recorded: boolean // False when the result on record stands (see submit_answer)
+}
+
+/**
+ * Clues the database has on record for a question (reveal_clues)
+ */
+export interface RevealedClues {
+  clubs_revealed: number // Including the first club
+  hints_used: number
+}
+
 export interface UserStats {
   total_score: number
   total_questions: number
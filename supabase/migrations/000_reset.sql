@@ -7,10 +7,18 @@
 
 -- Drop all existing tables (if they exist) with CASCADE to handle dependencies
 -- Core tables from migrations
+DROP TABLE IF EXISTS leaderboard_entries CASCADE;
+DROP TABLE IF EXISTS user_achievements CASCADE;
+DROP TABLE IF EXISTS user_play_days CASCADE;
+DROP TABLE IF EXISTS daily_challenge_results CASCADE;
+DROP TABLE IF EXISTS content_tombstones CASCADE;
 DROP TABLE IF EXISTS leaderboards CASCADE;
+DROP TABLE IF EXISTS answer_attempts CASCADE;
 DROP TABLE IF EXISTS game_sessions CASCADE;
 DROP TABLE IF EXISTS user_progress CASCADE;
+DROP TABLE IF EXISTS legacy_user_packs CASCADE;
 DROP TABLE IF EXISTS user_packs CASCADE;
+DROP TABLE IF EXISTS purchases CASCADE;
 DROP TABLE IF EXISTS players CASCADE;
 DROP TABLE IF EXISTS packs CASCADE;
 
@@ -27,12 +35,52 @@ DROP TABLE IF EXISTS archive_purchases CASCADE;
 
 -- Drop any existing custom types/enums
 DROP TYPE IF EXISTS game_mode_type CASCADE;
+DROP TYPE IF EXISTS leaderboard_window CASCADE;
+DROP TYPE IF EXISTS leaderboard_scope CASCADE;
+DROP TYPE IF EXISTS purchase_status CASCADE;
 
 -- Drop any existing functions
 DROP FUNCTION IF EXISTS update_leaderboard() CASCADE;
 DROP FUNCTION IF EXISTS get_user_stats(UUID) CASCADE;
 DROP FUNCTION IF EXISTS get_pack_with_players(TEXT) CASCADE;
 DROP FUNCTION IF EXISTS update_updated_at_column() CASCADE;
+DROP FUNCTION IF EXISTS record_content_tombstone() CASCADE;
+DROP FUNCTION IF EXISTS select_daily_player(DATE) CASCADE;
+DROP FUNCTION IF EXISTS get_daily_challenge(DATE) CASCADE;
+DROP FUNCTION IF EXISTS get_daily_leaderboard(DATE, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS apply_leaderboard_delta(UUID, INTEGER, INTEGER, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS get_leaderboard_rank(UUID) CASCADE;
+DROP FUNCTION IF EXISTS get_leaderboard(INTEGER, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS get_leaderboard_around_user(UUID, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS leaderboard_period_start(leaderboard_window, TIMESTAMPTZ) CASCADE;
+DROP FUNCTION IF EXISTS leaderboard_board_key(leaderboard_window, DATE, leaderboard_scope, TEXT) CASCADE;
+DROP FUNCTION IF EXISTS apply_scoped_leaderboard_delta(UUID, UUID, game_mode_type, TIMESTAMPTZ, INTEGER, INTEGER, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS update_scoped_leaderboards() CASCADE;
+DROP FUNCTION IF EXISTS set_progress_pack() CASCADE;
+DROP FUNCTION IF EXISTS get_board_leaderboard(TEXT, INTEGER, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS get_board_leaderboard_around_user(TEXT, UUID, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS normalize_answer(TEXT) CASCADE;
+DROP FUNCTION IF EXISTS answer_surname_forms(TEXT) CASCADE;
+DROP FUNCTION IF EXISTS answer_edit_distance(TEXT, TEXT) CASCADE;
+DROP FUNCTION IF EXISTS match_answer(TEXT, UUID) CASCADE;
+DROP FUNCTION IF EXISTS calculate_score(game_mode_type, INTEGER, BOOLEAN, INTEGER, INTEGER, INTEGER, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS open_answer_attempt(UUID, UUID, game_mode_type, DATE) CASCADE;
+DROP FUNCTION IF EXISTS reveal_clues(UUID, game_mode_type, INTEGER, INTEGER, DATE) CASCADE;
+DROP FUNCTION IF EXISTS submit_answer(UUID, game_mode_type, TEXT, TIMESTAMPTZ, DATE, TEXT) CASCADE;
+DROP FUNCTION IF EXISTS submit_answers(JSONB) CASCADE;
+DROP FUNCTION IF EXISTS unlock_achievements() CASCADE;
+DROP FUNCTION IF EXISTS refresh_pack_entitlement(UUID, UUID) CASCADE;
+DROP FUNCTION IF EXISTS record_store_purchase(UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, purchase_status) CASCADE;
+DROP FUNCTION IF EXISTS set_store_purchase_status(TEXT, TEXT, purchase_status) CASCADE;
+DROP FUNCTION IF EXISTS player_answer_forms(UUID) CASCADE;
+DROP FUNCTION IF EXISTS answer_hash(UUID, TEXT, TEXT) CASCADE;
+DROP FUNCTION IF EXISTS refresh_pack_answer_hashes(UUID) CASCADE;
+DROP FUNCTION IF EXISTS refresh_player_answer_hashes() CASCADE;
+DROP FUNCTION IF EXISTS get_pack_preview(TEXT, INTEGER) CASCADE;
+DROP FUNCTION IF EXISTS get_revealed_answers(UUID[]) CASCADE;
+DROP FUNCTION IF EXISTS derive_pack_metadata() CASCADE;
+DROP FUNCTION IF EXISTS refresh_pack_metadata(UUID) CASCADE;
+DROP FUNCTION IF EXISTS refresh_player_pack_metadata() CASCADE;
 
 -- Drop any existing triggers
 -- Note: Triggers are automatically dropped when tables are dropped with CASCADE
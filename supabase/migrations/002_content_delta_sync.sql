@@ -0,0 +1,86 @@
+-- =============================================================================
+-- Football IQ Content Delta Sync Migration
+-- =============================================================================
+-- Lets clients download only packs and players changed since their last sync:
+-- keyset indexes on (updated_at, id) for cursor paging, and tombstones so
+-- deleted packs and players can be removed from devices
+-- =============================================================================
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- CONTENT_TOMBSTONES: Records deleted packs and players for delta sync
+-- -----------------------------------------------------------------------------
+CREATE TABLE content_tombstones (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    table_name TEXT NOT NULL CHECK (table_name IN ('packs', 'players')),
+    row_id UUID NOT NULL,
+    deleted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE content_tombstones IS 'Deleted packs and players, so clients can drop them during delta sync';
+COMMENT ON COLUMN content_tombstones.row_id IS 'ID of the deleted pack or player';
+
+-- =============================================================================
+-- INDEXES FOR PERFORMANCE
+-- =============================================================================
+
+-- Keyset paging: WHERE (updated_at, id) > (cursor) ORDER BY updated_at, id
+CREATE INDEX idx_packs_updated_at_id ON packs(updated_at, id);
+CREATE INDEX idx_players_updated_at_id ON players(updated_at, id);
+CREATE INDEX idx_content_tombstones_deleted_at_id ON content_tombstones(deleted_at, id);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =============================================================================
+
+ALTER TABLE content_tombstones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Content tombstones are publicly readable"
+    ON content_tombstones FOR SELECT
+    USING (true);
+
+-- =============================================================================
+-- DATABASE FUNCTIONS
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Function: record_content_tombstone
+-- Trigger function that records a tombstone when a pack or player is deleted
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION record_content_tombstone()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO content_tombstones (table_name, row_id)
+    VALUES (TG_TABLE_NAME, OLD.id);
+
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================================================
+-- TRIGGERS
+-- =============================================================================
+
+-- Record deleted packs (their players cascade and get their own tombstones)
+CREATE TRIGGER record_packs_tombstone
+    AFTER DELETE ON packs
+    FOR EACH ROW
+    EXECUTE FUNCTION record_content_tombstone();
+
+-- Record deleted players
+CREATE TRIGGER record_players_tombstone
+    AFTER DELETE ON players
+    FOR EACH ROW
+    EXECUTE FUNCTION record_content_tombstone();
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Content delta sync configured: tombstones and keyset indexes created';
+END $$;
@@ -0,0 +1,140 @@
+-- =============================================================================
+-- Football IQ Daily Challenge Migration
+-- =============================================================================
+-- One puzzle of the day per date, chosen deterministically from the free
+-- packs, so every device can work it out from the content it has synced.
+-- Results are kept alongside user_progress, limited to one attempt per user
+-- per day, with a per-day leaderboard separate from the global leaderboards
+-- =============================================================================
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- DAILY_CHALLENGE_RESULTS: One attempt per user per day
+-- -----------------------------------------------------------------------------
+CREATE TABLE daily_challenge_results (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    challenge_date DATE NOT NULL,  -- UTC calendar day
+    player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+    game_mode game_mode_type NOT NULL DEFAULT 'career_path_progressive',
+
+    answered_correctly BOOLEAN NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    score_earned INTEGER NOT NULL DEFAULT 0,
+
+    completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- One attempt per day
+    UNIQUE(user_id, challenge_date)
+);
+
+COMMENT ON TABLE daily_challenge_results IS 'Daily challenge results, one attempt per user per day';
+COMMENT ON COLUMN daily_challenge_results.challenge_date IS 'UTC calendar day the challenge belongs to';
+COMMENT ON COLUMN daily_challenge_results.player_id IS 'Puzzle of the day, as picked by select_daily_player';
+
+-- =============================================================================
+-- INDEXES FOR PERFORMANCE
+-- =============================================================================
+
+CREATE INDEX idx_daily_challenge_results_date_score
+    ON daily_challenge_results(challenge_date, score_earned DESC, attempts ASC, completed_at ASC);
+CREATE INDEX idx_daily_challenge_results_user_date
+    ON daily_challenge_results(user_id, challenge_date DESC);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =============================================================================
+
+ALTER TABLE daily_challenge_results ENABLE ROW LEVEL SECURITY;
+
+-- -----------------------------------------------------------------------------
+-- DAILY_CHALLENGE_RESULTS: Users see and record their own results.
+-- No UPDATE or DELETE policy, so an attempt can't be replayed or removed
+-- -----------------------------------------------------------------------------
+CREATE POLICY "Users can view their own daily results"
+    ON daily_challenge_results FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own daily result"
+    ON daily_challenge_results FOR INSERT
+    WITH CHECK (auth.uid() = user_id AND challenge_date <= (NOW() AT TIME ZONE 'UTC')::DATE);
+
+-- =============================================================================
+-- DATABASE FUNCTIONS
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Function: select_daily_player
+-- Returns the puzzle for a date: the free-pack player with the lowest
+-- SHA-256 of "date:id" (hex, compared byte-wise). Nothing is stored, so any
+-- date can be worked out, and adding or removing a player only moves the
+-- days that player wins or won. selectDailyPlayer in
+-- packages/database/daily.ts makes the same pick on the device, and
+-- submit_answer checks daily answers against it
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION select_daily_player(p_date DATE)
+RETURNS UUID AS $$
+    SELECT pl.id
+    FROM players pl
+    JOIN packs pk ON pk.id = pl.pack_id AND pk.is_free
+    ORDER BY encode(sha256(convert_to(p_date::TEXT || ':' || pl.id::TEXT, 'UTF8')), 'hex') COLLATE "C"
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: get_daily_challenge
+-- Returns the puzzle for a date, today (UTC) by default, for clients that
+-- haven't synced the free packs (the web app). Devices with the content
+-- compute it themselves
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_daily_challenge(p_date DATE DEFAULT NULL)
+RETURNS TABLE(challenge_date DATE, player_id UUID) AS $$
+    SELECT d.day, d.player_id
+    FROM (
+        SELECT t.day, select_daily_player(t.day) AS player_id
+        FROM (SELECT COALESCE(p_date, (NOW() AT TIME ZONE 'UTC')::DATE) AS day) t
+    ) d
+    WHERE d.player_id IS NOT NULL;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: get_daily_leaderboard
+-- Returns the ranked results for one challenge date
+-- Ties on score are broken by fewer attempts, then by who finished first
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_daily_leaderboard(p_date DATE, p_limit INTEGER DEFAULT 100)
+RETURNS TABLE(
+    user_id UUID,
+    score_earned INTEGER,
+    attempts INTEGER,
+    answered_correctly BOOLEAN,
+    completed_at TIMESTAMPTZ,
+    rank INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        r.user_id,
+        r.score_earned,
+        r.attempts,
+        r.answered_correctly,
+        r.completed_at,
+        RANK() OVER (ORDER BY r.score_earned DESC, r.attempts ASC, r.completed_at ASC)::INTEGER
+    FROM daily_challenge_results r
+    WHERE r.challenge_date = p_date
+    ORDER BY r.score_earned DESC, r.attempts ASC, r.completed_at ASC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Daily challenge configured: daily_challenge_results, select_daily_player, get_daily_challenge and get_daily_leaderboard created';
+END $$;
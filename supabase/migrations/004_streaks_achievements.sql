@@ -0,0 +1,94 @@
+-- =============================================================================
+-- Football IQ Streaks & Achievements Migration
+-- =============================================================================
+-- Daily play streaks and milestone badges, measured from user_progress (see
+-- streaks.ts and achievements.ts). These tables record play days and unlocks,
+-- keyed so that replaying the same progress (e.g. re-syncing the mobile
+-- outbox) is a no-op. Only the server writes them: submit_answer records the
+-- play day of each graded answer and unlock_achievements grants badges
+-- (007_submit_answer.sql)
+-- =============================================================================
+
+-- =============================================================================
+-- TABLE CHANGES
+-- =============================================================================
+
+-- Hints are needed for "no hints" badges, so record them with each answer
+ALTER TABLE user_progress ADD COLUMN hints_used INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN user_progress.hints_used IS 'Number of hints revealed before answering';
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- USER_PLAY_DAYS: Calendar days (in the user's time zone) with at least one answer
+-- -----------------------------------------------------------------------------
+CREATE TABLE user_play_days (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    play_date DATE NOT NULL,
+
+    PRIMARY KEY (user_id, play_date)
+);
+
+COMMENT ON TABLE user_play_days IS 'Days a user played, used to calculate streaks';
+COMMENT ON COLUMN user_play_days.play_date IS 'Local calendar day of the answer, in the user''s time zone';
+
+-- -----------------------------------------------------------------------------
+-- USER_ACHIEVEMENTS: Unlocked badges, at most once per user
+-- -----------------------------------------------------------------------------
+CREATE TABLE user_achievements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    achievement_id TEXT NOT NULL,  -- Key in the ACHIEVEMENTS catalogue
+
+    unlocked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Unlocks are idempotent
+    UNIQUE(user_id, achievement_id)
+);
+
+COMMENT ON TABLE user_achievements IS 'Achievements unlocked by each user';
+COMMENT ON COLUMN user_achievements.achievement_id IS 'Achievement key from the typed catalogue in packages/database/achievements.ts';
+
+-- =============================================================================
+-- INDEXES FOR PERFORMANCE
+-- =============================================================================
+
+CREATE INDEX idx_user_achievements_user_unlocked ON user_achievements(user_id, unlocked_at DESC);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =============================================================================
+
+ALTER TABLE user_play_days ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
+
+-- -----------------------------------------------------------------------------
+-- USER_PLAY_DAYS: Users see their own play days, only answers record them
+-- -----------------------------------------------------------------------------
+CREATE POLICY "Users can view their own play days"
+    ON user_play_days FOR SELECT
+    USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON user_play_days FROM anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- USER_ACHIEVEMENTS: Users see their own achievements, only the server
+-- unlocks them. An unlock can't be re-dated or repeated
+-- -----------------------------------------------------------------------------
+CREATE POLICY "Users can view their own achievements"
+    ON user_achievements FOR SELECT
+    USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON user_achievements FROM anon, authenticated;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Streaks and achievements configured: user_play_days and user_achievements created';
+END $$;
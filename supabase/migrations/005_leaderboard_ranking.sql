@@ -0,0 +1,333 @@
+-- =============================================================================
+-- Football IQ Leaderboard Ranking Migration
+-- =============================================================================
+-- The original trigger re-ranked every leaderboard row on each answer
+-- (O(users) writes per answer) and only fired on INSERT, so upserted replays
+-- never changed totals. Now:
+--   - user_progress INSERT/UPDATE/DELETE apply the row's difference to the
+--     user's totals, touching only that user's leaderboard row
+--   - rank is no longer stored; it is computed on read from an index that
+--     matches the ranking order
+--   - ties go to whoever reached the score first (score_reached_at), which
+--     unlike updated_at only moves when the score does
+-- =============================================================================
+
+-- =============================================================================
+-- TABLE CHANGES
+-- =============================================================================
+
+-- Stored ranks went stale as soon as anyone else scored
+DROP INDEX IF EXISTS idx_leaderboards_rank;
+ALTER TABLE leaderboards DROP COLUMN rank;
+
+-- When the user's total_score last changed
+ALTER TABLE leaderboards ADD COLUMN score_reached_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+COMMENT ON COLUMN leaderboards.score_reached_at IS 'When total_score last changed, the ranking tie-breaker';
+
+-- Ranking order: score, then accuracy, then whoever got there first
+CREATE INDEX idx_leaderboards_ranking
+    ON leaderboards(total_score DESC, accuracy_rate DESC, score_reached_at ASC, user_id ASC);
+
+-- =============================================================================
+-- DATABASE FUNCTIONS
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Function: update_leaderboard
+-- Applies a user_progress change to the user's totals
+-- Each (user, player, mode) row counts once, whatever its latest result is,
+-- so replaying a question adjusts the score instead of adding a new one
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION update_leaderboard()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM apply_leaderboard_delta(
+            NEW.user_id,
+            NEW.score_earned,
+            1,
+            CASE WHEN NEW.answered_correctly THEN 1 ELSE 0 END
+        );
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        PERFORM apply_leaderboard_delta(
+            OLD.user_id,
+            -OLD.score_earned,
+            -1,
+            -(CASE WHEN OLD.answered_correctly THEN 1 ELSE 0 END)
+        );
+        RETURN OLD;
+    END IF;
+
+    -- UPDATE: a replay that changes nothing (e.g. an outbox re-sync) leaves totals alone
+    IF NEW.score_earned = OLD.score_earned
+        AND NEW.answered_correctly = OLD.answered_correctly
+        AND NEW.user_id = OLD.user_id THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM apply_leaderboard_delta(
+        OLD.user_id,
+        -OLD.score_earned,
+        -1,
+        -(CASE WHEN OLD.answered_correctly THEN 1 ELSE 0 END)
+    );
+    PERFORM apply_leaderboard_delta(
+        NEW.user_id,
+        NEW.score_earned,
+        1,
+        CASE WHEN NEW.answered_correctly THEN 1 ELSE 0 END
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: apply_leaderboard_delta
+-- Adds to one user's totals and recalculates their accuracy
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION apply_leaderboard_delta(
+    p_user_id UUID,
+    p_score_delta INTEGER,
+    p_questions_delta INTEGER,
+    p_correct_delta INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO leaderboards (user_id, total_score, total_questions, correct_answers, accuracy_rate)
+    VALUES (
+        p_user_id,
+        GREATEST(p_score_delta, 0),
+        GREATEST(p_questions_delta, 0),
+        GREATEST(p_correct_delta, 0),
+        CASE WHEN p_questions_delta > 0 AND p_correct_delta > 0 THEN 100.00 ELSE 0.00 END
+    )
+    ON CONFLICT (user_id) DO UPDATE SET
+        total_score = leaderboards.total_score + p_score_delta,
+        total_questions = leaderboards.total_questions + p_questions_delta,
+        correct_answers = leaderboards.correct_answers + p_correct_delta,
+        accuracy_rate = CASE
+            WHEN leaderboards.total_questions + p_questions_delta > 0 THEN ROUND(
+                ((leaderboards.correct_answers + p_correct_delta)::DECIMAL /
+                 (leaderboards.total_questions + p_questions_delta)::DECIMAL) * 100,
+                2
+            )
+            ELSE 0.00
+        END,
+        score_reached_at = CASE
+            WHEN p_score_delta <> 0 THEN NOW()
+            ELSE leaderboards.score_reached_at
+        END,
+        updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the trigger may change totals
+REVOKE EXECUTE ON FUNCTION apply_leaderboard_delta(UUID, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- Function: get_leaderboard_rank
+-- 1 + the number of users ranked ahead, read from idx_leaderboards_ranking
+-- Returns NULL for users without a leaderboard entry
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_leaderboard_rank(p_user_id UUID)
+RETURNS INTEGER AS $$
+    SELECT (
+        SELECT COUNT(*)::INTEGER + 1
+        FROM leaderboards l
+        WHERE l.total_score > me.total_score
+           OR (l.total_score = me.total_score AND l.accuracy_rate > me.accuracy_rate)
+           OR (l.total_score = me.total_score AND l.accuracy_rate = me.accuracy_rate
+               AND (l.score_reached_at, l.user_id) < (me.score_reached_at, me.user_id))
+    )
+    FROM leaderboards me
+    WHERE me.user_id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: get_leaderboard
+-- Returns one page of the global leaderboard with ranks
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_leaderboard(p_limit INTEGER DEFAULT 100, p_offset INTEGER DEFAULT 0)
+RETURNS TABLE(
+    user_id UUID,
+    total_score INTEGER,
+    total_questions INTEGER,
+    correct_answers INTEGER,
+    accuracy_rate DECIMAL,
+    updated_at TIMESTAMPTZ,
+    score_reached_at TIMESTAMPTZ,
+    rank INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        l.user_id,
+        l.total_score,
+        l.total_questions,
+        l.correct_answers,
+        l.accuracy_rate,
+        l.updated_at,
+        l.score_reached_at,
+        (p_offset + ROW_NUMBER() OVER (
+            ORDER BY l.total_score DESC, l.accuracy_rate DESC, l.score_reached_at ASC, l.user_id ASC
+        ))::INTEGER
+    FROM leaderboards l
+    ORDER BY l.total_score DESC, l.accuracy_rate DESC, l.score_reached_at ASC, l.user_id ASC
+    LIMIT p_limit
+    OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: get_leaderboard_around_user
+-- Returns the user's entry with up to p_count entries above and below it
+-- Returns no rows for users without a leaderboard entry
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_leaderboard_around_user(p_user_id UUID, p_count INTEGER DEFAULT 5)
+RETURNS TABLE(
+    user_id UUID,
+    total_score INTEGER,
+    total_questions INTEGER,
+    correct_answers INTEGER,
+    accuracy_rate DECIMAL,
+    updated_at TIMESTAMPTZ,
+    score_reached_at TIMESTAMPTZ,
+    rank INTEGER
+) AS $$
+DECLARE
+    v_me leaderboards%ROWTYPE;
+    v_rank INTEGER;
+BEGIN
+    SELECT * INTO v_me FROM leaderboards l WHERE l.user_id = p_user_id;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    v_rank := get_leaderboard_rank(p_user_id);
+
+    RETURN QUERY
+    WITH above AS (
+        -- Walk the index backwards from the user, nearest first
+        SELECT l.*
+        FROM leaderboards l
+        WHERE l.total_score > v_me.total_score
+           OR (l.total_score = v_me.total_score AND l.accuracy_rate > v_me.accuracy_rate)
+           OR (l.total_score = v_me.total_score AND l.accuracy_rate = v_me.accuracy_rate
+               AND (l.score_reached_at, l.user_id) < (v_me.score_reached_at, v_me.user_id))
+        ORDER BY l.total_score ASC, l.accuracy_rate ASC, l.score_reached_at DESC, l.user_id DESC
+        LIMIT p_count
+    ),
+    below AS (
+        SELECT l.*
+        FROM leaderboards l
+        WHERE l.total_score < v_me.total_score
+           OR (l.total_score = v_me.total_score AND l.accuracy_rate < v_me.accuracy_rate)
+           OR (l.total_score = v_me.total_score AND l.accuracy_rate = v_me.accuracy_rate
+               AND (l.score_reached_at, l.user_id) > (v_me.score_reached_at, v_me.user_id))
+        ORDER BY l.total_score DESC, l.accuracy_rate DESC, l.score_reached_at ASC, l.user_id ASC
+        LIMIT p_count
+    ),
+    window_rows AS (
+        SELECT a.*, -(ROW_NUMBER() OVER (
+            ORDER BY a.total_score ASC, a.accuracy_rate ASC, a.score_reached_at DESC, a.user_id DESC
+        ))::INTEGER AS offset_from_user
+        FROM above a
+        UNION ALL
+        SELECT l.*, 0
+        FROM leaderboards l
+        WHERE l.user_id = p_user_id
+        UNION ALL
+        SELECT b.*, (ROW_NUMBER() OVER (
+            ORDER BY b.total_score DESC, b.accuracy_rate DESC, b.score_reached_at ASC, b.user_id ASC
+        ))::INTEGER
+        FROM below b
+    )
+    SELECT
+        w.user_id,
+        w.total_score,
+        w.total_questions,
+        w.correct_answers,
+        w.accuracy_rate,
+        w.updated_at,
+        w.score_reached_at,
+        v_rank + w.offset_from_user
+    FROM window_rows w
+    ORDER BY w.offset_from_user;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: get_user_stats
+-- Same result as before, with the rank computed on read
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_user_stats(p_user_id UUID)
+RETURNS TABLE(
+    total_score INTEGER,
+    total_questions INTEGER,
+    correct_answers INTEGER,
+    accuracy_rate DECIMAL,
+    global_rank INTEGER,
+    packs_owned INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        COALESCE(l.total_score, 0)::INTEGER,
+        COALESCE(l.total_questions, 0)::INTEGER,
+        COALESCE(l.correct_answers, 0)::INTEGER,
+        COALESCE(l.accuracy_rate, 0.00)::DECIMAL,
+        get_leaderboard_rank(p_user_id),
+        (SELECT COUNT(*)::INTEGER FROM user_packs WHERE user_id = p_user_id)
+    FROM leaderboards l
+    WHERE l.user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- TRIGGERS
+-- =============================================================================
+
+DROP TRIGGER IF EXISTS trigger_update_leaderboard ON user_progress;
+
+CREATE TRIGGER trigger_update_leaderboard
+    AFTER INSERT OR UPDATE OR DELETE ON user_progress
+    FOR EACH ROW
+    EXECUTE FUNCTION update_leaderboard();
+
+-- =============================================================================
+-- BACKFILL
+-- =============================================================================
+
+-- Totals were missing every replay made through an upsert, so rebuild them once.
+-- The score was reached with the latest result that counts towards it
+INSERT INTO leaderboards (
+    user_id, total_score, total_questions, correct_answers, accuracy_rate, score_reached_at
+)
+SELECT
+    p.user_id,
+    SUM(p.score_earned)::INTEGER,
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (WHERE p.answered_correctly)::INTEGER,
+    ROUND((COUNT(*) FILTER (WHERE p.answered_correctly))::DECIMAL / COUNT(*)::DECIMAL * 100, 2),
+    MAX(p.completed_at)
+FROM user_progress p
+GROUP BY p.user_id
+ON CONFLICT (user_id) DO UPDATE SET
+    total_score = EXCLUDED.total_score,
+    total_questions = EXCLUDED.total_questions,
+    correct_answers = EXCLUDED.correct_answers,
+    accuracy_rate = EXCLUDED.accuracy_rate,
+    score_reached_at = EXCLUDED.score_reached_at;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Leaderboard ranking configured: incremental totals, ranks computed on read';
+END $$;
@@ -0,0 +1,476 @@
+-- =============================================================================
+-- Football IQ Scoped Leaderboards Migration
+-- =============================================================================
+-- Time-windowed (weekly, monthly) and scoped (per pack, per game mode)
+-- leaderboards, alongside the all-time global one in `leaderboards`.
+--
+-- Every board is derived from user_progress by a trigger, like `leaderboards`:
+-- each progress row counts once, in the period of its completed_at, so a
+-- replay moves the question's score into the period it was replayed in.
+-- Pack boards use the pack the player was in when the result was recorded
+-- (user_progress.pack_id), so moving or deleting a player later takes its
+-- score off the board it was added to.
+--
+-- Ties rank like the global board: whoever reached the score first.
+--
+-- Periods reset on UTC boundaries: weeks start on Monday 00:00 UTC, months on
+-- the 1st at 00:00 UTC. Mirrored by getLeaderboardPeriod in leaderboards.ts.
+-- =============================================================================
+
+-- =============================================================================
+-- CUSTOM TYPES
+-- =============================================================================
+
+CREATE TYPE leaderboard_window AS ENUM (
+    'all_time',
+    'weekly',
+    'monthly'
+);
+
+CREATE TYPE leaderboard_scope AS ENUM (
+    'global',
+    'pack',
+    'game_mode'
+);
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- LEADERBOARD_ENTRIES: One row per board and user
+-- -----------------------------------------------------------------------------
+CREATE TABLE leaderboard_entries (
+    board TEXT NOT NULL,  -- See leaderboard_board_key, e.g. 'weekly:2026-10-12:pack:<uuid>'
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    time_window leaderboard_window NOT NULL,
+    period_start DATE,  -- NULL for all_time
+    scope leaderboard_scope NOT NULL,
+    scope_id TEXT,  -- Pack id or game mode, NULL for global
+
+    total_score INTEGER NOT NULL DEFAULT 0,
+    total_questions INTEGER NOT NULL DEFAULT 0,
+    correct_answers INTEGER NOT NULL DEFAULT 0,
+    accuracy_rate DECIMAL(5, 2) NOT NULL DEFAULT 0.00,  -- Percentage (0.00 - 100.00)
+    score_reached_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),  -- When total_score last changed
+
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    PRIMARY KEY (board, user_id)
+);
+
+COMMENT ON TABLE leaderboard_entries IS 'Weekly, monthly, per-pack and per-mode leaderboard totals, maintained by trigger';
+COMMENT ON COLUMN leaderboard_entries.board IS 'Board key combining window, period, scope and scope id';
+COMMENT ON COLUMN leaderboard_entries.period_start IS 'UTC date the weekly or monthly period starts, NULL for all_time';
+
+-- -----------------------------------------------------------------------------
+-- USER_PROGRESS: The pack each result counts towards
+-- -----------------------------------------------------------------------------
+ALTER TABLE user_progress ADD COLUMN pack_id UUID;  -- Set by trigger, no FK so it outlives the pack
+
+COMMENT ON COLUMN user_progress.pack_id IS 'Pack the player was in when the result was recorded, for the pack boards';
+
+UPDATE user_progress p
+SET pack_id = pl.pack_id
+FROM players pl
+WHERE pl.id = p.player_id;
+
+-- =============================================================================
+-- INDEXES FOR PERFORMANCE
+-- =============================================================================
+
+CREATE INDEX idx_leaderboard_entries_ranking
+    ON leaderboard_entries(board, total_score DESC, accuracy_rate DESC, score_reached_at ASC, user_id ASC);
+CREATE INDEX idx_leaderboard_entries_user ON leaderboard_entries(user_id);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =============================================================================
+
+ALTER TABLE leaderboard_entries ENABLE ROW LEVEL SECURITY;
+
+-- -----------------------------------------------------------------------------
+-- LEADERBOARD_ENTRIES: Public read. No write policies, only the trigger writes
+-- -----------------------------------------------------------------------------
+CREATE POLICY "Leaderboard entries are publicly readable"
+    ON leaderboard_entries FOR SELECT
+    USING (true);
+
+-- =============================================================================
+-- DATABASE FUNCTIONS
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Function: leaderboard_period_start
+-- Start of the weekly or monthly period containing a moment (UTC)
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION leaderboard_period_start(p_window leaderboard_window, p_at TIMESTAMPTZ)
+RETURNS DATE AS $$
+    SELECT CASE p_window
+        WHEN 'weekly' THEN date_trunc('week', p_at AT TIME ZONE 'UTC')::DATE
+        WHEN 'monthly' THEN date_trunc('month', p_at AT TIME ZONE 'UTC')::DATE
+        ELSE NULL
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- -----------------------------------------------------------------------------
+-- Function: leaderboard_board_key
+-- e.g. 'all_time:all:global:all', 'weekly:2026-10-12:game_mode:transfer'
+-- Mirrored by getLeaderboardBoardKey in leaderboards.ts
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION leaderboard_board_key(
+    p_window leaderboard_window,
+    p_period_start DATE,
+    p_scope leaderboard_scope,
+    p_scope_id TEXT
+)
+RETURNS TEXT AS $$
+    SELECT p_window::TEXT || ':' || COALESCE(p_period_start::TEXT, 'all') || ':' ||
+           p_scope::TEXT || ':' || COALESCE(p_scope_id, 'all');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- -----------------------------------------------------------------------------
+-- Function: apply_scoped_leaderboard_delta
+-- Adds one progress row's contribution to every board it belongs to
+-- (3 windows x global, its pack and its game mode)
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION apply_scoped_leaderboard_delta(
+    p_user_id UUID,
+    p_pack_id UUID,
+    p_game_mode game_mode_type,
+    p_completed_at TIMESTAMPTZ,
+    p_score_delta INTEGER,
+    p_questions_delta INTEGER,
+    p_correct_delta INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+    v_window leaderboard_window;
+    v_period_start DATE;
+    v_board RECORD;
+BEGIN
+    FOREACH v_window IN ARRAY ARRAY['all_time', 'weekly', 'monthly']::leaderboard_window[] LOOP
+        v_period_start := leaderboard_period_start(v_window, p_completed_at);
+
+        FOR v_board IN
+            SELECT s.scope, s.scope_id
+            FROM (VALUES
+                ('global'::leaderboard_scope, NULL::TEXT),
+                ('pack'::leaderboard_scope, p_pack_id::TEXT),
+                ('game_mode'::leaderboard_scope, p_game_mode::TEXT)
+            ) AS s(scope, scope_id)
+            WHERE s.scope = 'global' OR s.scope_id IS NOT NULL
+        LOOP
+            INSERT INTO leaderboard_entries (
+                board, user_id, time_window, period_start, scope, scope_id,
+                total_score, total_questions, correct_answers, accuracy_rate
+            )
+            VALUES (
+                leaderboard_board_key(v_window, v_period_start, v_board.scope, v_board.scope_id),
+                p_user_id,
+                v_window,
+                v_period_start,
+                v_board.scope,
+                v_board.scope_id,
+                GREATEST(p_score_delta, 0),
+                GREATEST(p_questions_delta, 0),
+                GREATEST(p_correct_delta, 0),
+                CASE WHEN p_questions_delta > 0 AND p_correct_delta > 0 THEN 100.00 ELSE 0.00 END
+            )
+            ON CONFLICT (board, user_id) DO UPDATE SET
+                total_score = leaderboard_entries.total_score + p_score_delta,
+                total_questions = leaderboard_entries.total_questions + p_questions_delta,
+                correct_answers = leaderboard_entries.correct_answers + p_correct_delta,
+                accuracy_rate = CASE
+                    WHEN leaderboard_entries.total_questions + p_questions_delta > 0 THEN ROUND(
+                        ((leaderboard_entries.correct_answers + p_correct_delta)::DECIMAL /
+                         (leaderboard_entries.total_questions + p_questions_delta)::DECIMAL) * 100,
+                        2
+                    )
+                    ELSE 0.00
+                END,
+                score_reached_at = CASE
+                    WHEN p_score_delta <> 0 THEN NOW()
+                    ELSE leaderboard_entries.score_reached_at
+                END,
+                updated_at = NOW();
+        END LOOP;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the trigger may change totals
+REVOKE EXECUTE ON FUNCTION apply_scoped_leaderboard_delta(UUID, UUID, game_mode_type, TIMESTAMPTZ, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- Function: set_progress_pack
+-- Stamps a progress row with its player's pack when it is recorded. The pack
+-- only changes along with the player, so clients can't move a score
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION set_progress_pack()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.player_id = OLD.player_id THEN
+        NEW.pack_id := OLD.pack_id;
+    ELSE
+        SELECT pl.pack_id INTO NEW.pack_id FROM players pl WHERE pl.id = NEW.player_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: update_scoped_leaderboards
+-- Applies a user_progress change to the scoped boards
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION update_scoped_leaderboards()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- A replay that changes nothing (e.g. an outbox re-sync) leaves totals alone
+    IF TG_OP = 'UPDATE'
+        AND NEW.score_earned = OLD.score_earned
+        AND NEW.answered_correctly = OLD.answered_correctly
+        AND NEW.completed_at = OLD.completed_at
+        AND NEW.user_id = OLD.user_id
+        AND NEW.pack_id IS NOT DISTINCT FROM OLD.pack_id
+        AND NEW.game_mode = OLD.game_mode THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM apply_scoped_leaderboard_delta(
+            OLD.user_id,
+            OLD.pack_id,
+            OLD.game_mode,
+            OLD.completed_at,
+            -OLD.score_earned,
+            -1,
+            -(CASE WHEN OLD.answered_correctly THEN 1 ELSE 0 END)
+        );
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        PERFORM apply_scoped_leaderboard_delta(
+            NEW.user_id,
+            NEW.pack_id,
+            NEW.game_mode,
+            NEW.completed_at,
+            NEW.score_earned,
+            1,
+            CASE WHEN NEW.answered_correctly THEN 1 ELSE 0 END
+        );
+        RETURN NEW;
+    END IF;
+
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: get_board_leaderboard
+-- Returns one page of a board with ranks computed on read
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_board_leaderboard(
+    p_board TEXT,
+    p_limit INTEGER DEFAULT 100,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE(
+    user_id UUID,
+    total_score INTEGER,
+    total_questions INTEGER,
+    correct_answers INTEGER,
+    accuracy_rate DECIMAL,
+    updated_at TIMESTAMPTZ,
+    score_reached_at TIMESTAMPTZ,
+    rank INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        e.user_id,
+        e.total_score,
+        e.total_questions,
+        e.correct_answers,
+        e.accuracy_rate,
+        e.updated_at,
+        e.score_reached_at,
+        (p_offset + ROW_NUMBER() OVER (
+            ORDER BY e.total_score DESC, e.accuracy_rate DESC, e.score_reached_at ASC, e.user_id ASC
+        ))::INTEGER
+    FROM leaderboard_entries e
+    WHERE e.board = p_board
+      AND e.total_questions > 0
+    ORDER BY e.total_score DESC, e.accuracy_rate DESC, e.score_reached_at ASC, e.user_id ASC
+    LIMIT p_limit
+    OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: get_board_leaderboard_around_user
+-- Returns the user's entry on a board with up to p_count entries above and below
+-- Returns no rows if the user isn't on the board
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_board_leaderboard_around_user(
+    p_board TEXT,
+    p_user_id UUID,
+    p_count INTEGER DEFAULT 5
+)
+RETURNS TABLE(
+    user_id UUID,
+    total_score INTEGER,
+    total_questions INTEGER,
+    correct_answers INTEGER,
+    accuracy_rate DECIMAL,
+    updated_at TIMESTAMPTZ,
+    score_reached_at TIMESTAMPTZ,
+    rank INTEGER
+) AS $$
+DECLARE
+    v_me leaderboard_entries%ROWTYPE;
+    v_rank INTEGER;
+BEGIN
+    SELECT * INTO v_me
+    FROM leaderboard_entries e
+    WHERE e.board = p_board AND e.user_id = p_user_id AND e.total_questions > 0;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    SELECT COUNT(*)::INTEGER + 1 INTO v_rank
+    FROM leaderboard_entries e
+    WHERE e.board = p_board
+      AND e.total_questions > 0
+      AND (e.total_score > v_me.total_score
+           OR (e.total_score = v_me.total_score AND e.accuracy_rate > v_me.accuracy_rate)
+           OR (e.total_score = v_me.total_score AND e.accuracy_rate = v_me.accuracy_rate
+               AND (e.score_reached_at, e.user_id) < (v_me.score_reached_at, v_me.user_id)));
+
+    RETURN QUERY
+    WITH above AS (
+        -- Walk the index backwards from the user, nearest first
+        SELECT e.*
+        FROM leaderboard_entries e
+        WHERE e.board = p_board
+          AND e.total_questions > 0
+          AND (e.total_score > v_me.total_score
+               OR (e.total_score = v_me.total_score AND e.accuracy_rate > v_me.accuracy_rate)
+               OR (e.total_score = v_me.total_score AND e.accuracy_rate = v_me.accuracy_rate
+                   AND (e.score_reached_at, e.user_id) < (v_me.score_reached_at, v_me.user_id)))
+        ORDER BY e.total_score ASC, e.accuracy_rate ASC, e.score_reached_at DESC, e.user_id DESC
+        LIMIT p_count
+    ),
+    below AS (
+        SELECT e.*
+        FROM leaderboard_entries e
+        WHERE e.board = p_board
+          AND e.total_questions > 0
+          AND (e.total_score < v_me.total_score
+               OR (e.total_score = v_me.total_score AND e.accuracy_rate < v_me.accuracy_rate)
+               OR (e.total_score = v_me.total_score AND e.accuracy_rate = v_me.accuracy_rate
+                   AND (e.score_reached_at, e.user_id) > (v_me.score_reached_at, v_me.user_id)))
+        ORDER BY e.total_score DESC, e.accuracy_rate DESC, e.score_reached_at ASC, e.user_id ASC
+        LIMIT p_count
+    ),
+    window_rows AS (
+        SELECT a.*, -(ROW_NUMBER() OVER (
+            ORDER BY a.total_score ASC, a.accuracy_rate ASC, a.score_reached_at DESC, a.user_id DESC
+        ))::INTEGER AS offset_from_user
+        FROM above a
+        UNION ALL
+        SELECT e.*, 0
+        FROM leaderboard_entries e
+        WHERE e.board = p_board AND e.user_id = p_user_id
+        UNION ALL
+        SELECT b.*, (ROW_NUMBER() OVER (
+            ORDER BY b.total_score DESC, b.accuracy_rate DESC, b.score_reached_at ASC, b.user_id ASC
+        ))::INTEGER
+        FROM below b
+    )
+    SELECT
+        w.user_id,
+        w.total_score,
+        w.total_questions,
+        w.correct_answers,
+        w.accuracy_rate,
+        w.updated_at,
+        w.score_reached_at,
+        v_rank + w.offset_from_user
+    FROM window_rows w
+    ORDER BY w.offset_from_user;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- TRIGGERS
+-- =============================================================================
+
+CREATE TRIGGER trigger_set_progress_pack
+    BEFORE INSERT OR UPDATE ON user_progress
+    FOR EACH ROW
+    EXECUTE FUNCTION set_progress_pack();
+
+CREATE TRIGGER trigger_update_scoped_leaderboards
+    AFTER INSERT OR UPDATE OR DELETE ON user_progress
+    FOR EACH ROW
+    EXECUTE FUNCTION update_scoped_leaderboards();
+
+-- =============================================================================
+-- BACKFILL
+-- =============================================================================
+
+WITH contributions AS (
+    SELECT
+        p.user_id,
+        w.time_window,
+        leaderboard_period_start(w.time_window, p.completed_at) AS period_start,
+        s.scope,
+        s.scope_id,
+        p.score_earned,
+        p.answered_correctly,
+        p.completed_at
+    FROM user_progress p
+    CROSS JOIN unnest(ARRAY['all_time', 'weekly', 'monthly']::leaderboard_window[]) AS w(time_window)
+    CROSS JOIN LATERAL (VALUES
+        ('global'::leaderboard_scope, NULL::TEXT),
+        ('pack'::leaderboard_scope, p.pack_id::TEXT),
+        ('game_mode'::leaderboard_scope, p.game_mode::TEXT)
+    ) AS s(scope, scope_id)
+    WHERE s.scope = 'global' OR s.scope_id IS NOT NULL
+)
+INSERT INTO leaderboard_entries (
+    board, user_id, time_window, period_start, scope, scope_id,
+    total_score, total_questions, correct_answers, accuracy_rate, score_reached_at
+)
+SELECT
+    leaderboard_board_key(c.time_window, c.period_start, c.scope, c.scope_id),
+    c.user_id,
+    c.time_window,
+    c.period_start,
+    c.scope,
+    c.scope_id,
+    SUM(c.score_earned)::INTEGER,
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (WHERE c.answered_correctly)::INTEGER,
+    ROUND((COUNT(*) FILTER (WHERE c.answered_correctly))::DECIMAL / COUNT(*)::DECIMAL * 100, 2),
+    MAX(c.completed_at)
+FROM contributions c
+GROUP BY c.user_id, c.time_window, c.period_start, c.scope, c.scope_id;
+
+-- =============================================================================
+-- REALTIME
+-- =============================================================================
+
+-- Lets clients subscribe to one board (filter board=eq.<key>)
+ALTER PUBLICATION supabase_realtime ADD TABLE leaderboard_entries;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Scoped leaderboards configured: weekly, monthly, per-pack and per-mode boards';
+END $$;
@@ -0,0 +1,817 @@
+-- =============================================================================
+-- Football IQ Server-Authoritative Answers Migration
+-- =============================================================================
+-- Answers are graded and scored by the database instead of the client:
+--   - submit_answer checks a guess, computes the score and records progress
+--     (or the daily challenge result) in one transaction
+--   - answer_attempts tracks each question on the server: clubs and hints
+--     are recorded as they are shown (reveal_clues) and wrong guesses as they
+--     are graded, none of them can be taken back, and once a question ends
+--     (and its answer is revealed) later answers change nothing. An answer
+--     given earlier that reaches the server late can lower the result, never
+--     raise it
+--   - submit_answers takes what a device queued offline (clues and guesses)
+--     a batch of up to 100 at a time, in one request
+--   - clients can no longer write user_progress, daily_challenge_results or
+--     leaderboards directly, so every score on a leaderboard was earned
+--   - play days come from graded answers (submit_answer) and badges from
+--     unlock_achievements, so streaks and achievements are earned the same way
+--
+-- Matching, scoring and achievements mirror packages/database/matching.ts,
+-- scoring.ts and achievements.ts. Keep both sides in step when changing either.
+-- =============================================================================
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- ANSWER_ATTEMPTS: Where each of a user's questions stands, per game mode
+-- (and per day for daily challenges). Written by reveal_clues and submit_answer only
+-- -----------------------------------------------------------------------------
+CREATE TABLE answer_attempts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+    game_mode game_mode_type NOT NULL,
+    challenge_date DATE,  -- Set for daily challenge attempts
+
+    clubs_revealed INTEGER NOT NULL DEFAULT 1,
+    hints_used INTEGER NOT NULL DEFAULT 0,
+    wrong_attempts INTEGER NOT NULL DEFAULT 0,
+    revealed_at TIMESTAMPTZ,  -- The question ended and its answer was shown
+    answered_at TIMESTAMPTZ,  -- When the answer that ended it was given
+
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    UNIQUE NULLS NOT DISTINCT (user_id, player_id, game_mode, challenge_date)
+);
+
+COMMENT ON TABLE answer_attempts IS 'Server-side state of each question a user has played, kept by reveal_clues and submit_answer';
+COMMENT ON COLUMN answer_attempts.revealed_at IS 'When the answer was revealed; answers given after it change nothing';
+COMMENT ON COLUMN answer_attempts.answered_at IS 'When the answer that ended the question was given (p_answered_at), which answers queued offline are ordered against';
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Close direct writes to scores: submit_answer (SECURITY DEFINER) is the only writer
+-- -----------------------------------------------------------------------------
+DROP POLICY IF EXISTS "Users can record their own progress" ON user_progress;
+DROP POLICY IF EXISTS "Users can update their own progress" ON user_progress;
+DROP POLICY IF EXISTS "Users can insert their own leaderboard entry" ON leaderboards;
+DROP POLICY IF EXISTS "Users can update their own leaderboard entry" ON leaderboards;
+DROP POLICY IF EXISTS "Users can record their own daily result" ON daily_challenge_results;
+
+REVOKE INSERT, UPDATE, DELETE ON user_progress FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON leaderboards FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON daily_challenge_results FROM anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- ANSWER_ATTEMPTS: Users see their own, only reveal_clues and submit_answer write them
+-- -----------------------------------------------------------------------------
+ALTER TABLE answer_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own answer attempts"
+    ON answer_attempts FOR SELECT
+    USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON answer_attempts FROM anon, authenticated;
+
+-- =============================================================================
+-- DATABASE FUNCTIONS
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Function: normalize_answer
+-- Folds diacritics, lowercases, drops apostrophes and turns any other
+-- punctuation into whitespace (see normalizeAnswer)
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION normalize_answer(p_input TEXT)
+RETURNS TEXT AS $$
+    SELECT btrim(regexp_replace(
+        regexp_replace(lower(unaccent(COALESCE(p_input, ''))), '[''’`´]', '', 'g'),
+        '[^a-z0-9]+', ' ', 'g'
+    ));
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+-- -----------------------------------------------------------------------------
+-- Function: answer_surname_forms
+-- Trailing word groups of a normalized name:
+-- 'ruud van nistelrooy' gives 'van nistelrooy' and 'nistelrooy'
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION answer_surname_forms(p_normalized TEXT)
+RETURNS SETOF TEXT AS $$
+    SELECT array_to_string(words[i:array_length(words, 1)], ' ')
+    FROM (SELECT string_to_array(NULLIF(p_normalized, ''), ' ') AS words) w
+    CROSS JOIN LATERAL generate_series(2, COALESCE(array_length(w.words, 1), 0)) AS i
+    ORDER BY i;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- -----------------------------------------------------------------------------
+-- Function: answer_edit_distance
+-- Levenshtein distance with adjacent transpositions counted as one edit
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION answer_edit_distance(a TEXT, b TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    la INTEGER := length(a);
+    lb INTEGER := length(b);
+    prev2 INTEGER[];
+    prev INTEGER[];
+    cur INTEGER[];
+    cost INTEGER;
+BEGIN
+    IF a = b THEN RETURN 0; END IF;
+    IF la = 0 THEN RETURN lb; END IF;
+    IF lb = 0 THEN RETURN la; END IF;
+
+    -- Rows are indexed from 0 like the distance matrix
+    prev := array_fill(0, ARRAY[lb + 1], ARRAY[0]);
+    FOR j IN 0..lb LOOP
+        prev[j] := j;
+    END LOOP;
+    prev2 := prev;
+
+    FOR i IN 1..la LOOP
+        cur := array_fill(0, ARRAY[lb + 1], ARRAY[0]);
+        cur[0] := i;
+        FOR j IN 1..lb LOOP
+            cost := CASE WHEN substr(a, i, 1) = substr(b, j, 1) THEN 0 ELSE 1 END;
+            cur[j] := LEAST(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+            IF i > 1 AND j > 1
+                AND substr(a, i, 1) = substr(b, j - 1, 1)
+                AND substr(a, i - 1, 1) = substr(b, j, 1) THEN
+                cur[j] := LEAST(cur[j], prev2[j - 2] + 1);
+            END IF;
+        END LOOP;
+        prev2 := prev;
+        prev := cur;
+    END LOOP;
+
+    RETURN prev[lb];
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- -----------------------------------------------------------------------------
+-- Function: match_answer
+-- Grades a guess against a player (see matchAnswer)
+-- Surnames are accepted unless another player in the pack answers to them
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION match_answer(p_guess TEXT, p_player_id UUID)
+RETURNS TABLE(verdict TEXT, is_correct BOOLEAN, matched TEXT, distance INTEGER) AS $$
+DECLARE
+    v_player players%ROWTYPE;
+    v_guess TEXT := normalize_answer(p_guess);
+    v_taken TEXT[];
+    v_kinds TEXT[] := ARRAY[]::TEXT[];
+    v_values TEXT[] := ARRAY[]::TEXT[];
+    v_norms TEXT[] := ARRAY[]::TEXT[];
+    v_candidate RECORD;
+    v_norm TEXT;
+    v_best INTEGER;
+    v_best_distance INTEGER;
+    v_distance INTEGER;
+    v_tolerance INTEGER;
+BEGIN
+    SELECT * INTO v_player FROM players p WHERE p.id = p_player_id;
+    IF NOT FOUND OR v_guess = '' THEN
+        RETURN QUERY SELECT 'wrong'::TEXT, FALSE, NULL::TEXT, 0;
+        RETURN;
+    END IF;
+
+    -- Names and surnames the other players in the pack answer to
+    SELECT COALESCE(array_agg(DISTINCT t.form), ARRAY[]::TEXT[]) INTO v_taken
+    FROM players o
+    CROSS JOIN LATERAL (
+        SELECT normalize_answer(x.value) AS normalized
+        FROM (
+            SELECT o.name AS value
+            UNION ALL SELECT o.full_name
+            UNION ALL SELECT jsonb_array_elements_text(o.aliases)
+        ) x
+    ) n
+    CROSS JOIN LATERAL (
+        SELECT n.normalized AS form
+        UNION ALL SELECT f FROM answer_surname_forms(n.normalized) f
+    ) t
+    WHERE o.pack_id = v_player.pack_id
+      AND o.id <> v_player.id
+      AND n.normalized <> '';
+
+    -- Accepted answers in the same order as getCandidates, first one wins ties
+    FOR v_candidate IN
+        SELECT c.kind, c.value
+        FROM (
+            SELECT 'exact' AS kind, v_player.name AS value, 1 AS ord, 0::BIGINT AS sub
+            UNION ALL SELECT 'exact', v_player.full_name, 2, 0
+            UNION ALL SELECT 'alias', a.value, 3, a.idx
+                FROM jsonb_array_elements_text(v_player.aliases) WITH ORDINALITY AS a(value, idx)
+            UNION ALL SELECT 'alias', s.form, 4, s.idx
+                FROM answer_surname_forms(normalize_answer(v_player.name)) WITH ORDINALITY AS s(form, idx)
+                WHERE NOT s.form = ANY(v_taken)
+            UNION ALL SELECT 'alias', s.form, 5, s.idx
+                FROM answer_surname_forms(normalize_answer(v_player.full_name)) WITH ORDINALITY AS s(form, idx)
+                WHERE NOT s.form = ANY(v_taken)
+        ) c
+        ORDER BY c.ord, c.sub
+    LOOP
+        v_norm := normalize_answer(v_candidate.value);
+        CONTINUE WHEN v_norm = '' OR v_norm = ANY(v_norms);
+        v_kinds := v_kinds || v_candidate.kind;
+        v_values := v_values || v_candidate.value;
+        v_norms := v_norms || v_norm;
+    END LOOP;
+
+    -- Exact matches on any accepted answer win outright
+    FOR i IN 1..COALESCE(array_length(v_norms, 1), 0) LOOP
+        IF v_norms[i] = v_guess THEN
+            RETURN QUERY SELECT v_kinds[i], TRUE, v_values[i], 0;
+            RETURN;
+        END IF;
+    END LOOP;
+
+    -- Otherwise find the closest accepted answer
+    FOR i IN 1..COALESCE(array_length(v_norms, 1), 0) LOOP
+        v_distance := answer_edit_distance(v_guess, v_norms[i]);
+        IF v_best_distance IS NULL OR v_distance < v_best_distance THEN
+            v_best := i;
+            v_best_distance := v_distance;
+        END IF;
+    END LOOP;
+
+    IF v_best IS NULL THEN
+        RETURN QUERY SELECT 'wrong'::TEXT, FALSE, NULL::TEXT, 0;
+        RETURN;
+    END IF;
+
+    -- Typo tolerance scales with the answer's length (see typoTolerance)
+    v_tolerance := CASE
+        WHEN length(replace(v_norms[v_best], ' ', '')) <= 4 THEN 0
+        WHEN length(replace(v_norms[v_best], ' ', '')) <= 8 THEN 1
+        WHEN length(replace(v_norms[v_best], ' ', '')) <= 12 THEN 2
+        ELSE 3
+    END;
+
+    IF v_best_distance <= v_tolerance THEN
+        RETURN QUERY SELECT v_kinds[v_best], TRUE, v_values[v_best], v_best_distance;
+    ELSIF v_best_distance <= v_tolerance + 2 THEN
+        RETURN QUERY SELECT 'close_miss'::TEXT, FALSE, v_values[v_best], v_best_distance;
+    ELSE
+        RETURN QUERY SELECT 'wrong'::TEXT, FALSE, NULL::TEXT, v_best_distance;
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+-- -----------------------------------------------------------------------------
+-- Function: calculate_score
+-- Score for an answer (see calculateScore). Uses double precision and
+-- round-half-up like the TypeScript version, so both agree to the point
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION calculate_score(
+    p_game_mode game_mode_type,
+    p_difficulty INTEGER,
+    p_answered_correctly BOOLEAN,
+    p_clubs_revealed INTEGER,
+    p_total_clubs INTEGER,
+    p_hints_used INTEGER,
+    p_wrong_attempts INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+    -- SCORING_RULES
+    v_base DOUBLE PRECISION := CASE p_game_mode
+        WHEN 'career_path_progressive' THEN 100 WHEN 'career_path_full' THEN 60 ELSE 80 END;
+    v_full_reveal DOUBLE PRECISION := CASE p_game_mode
+        WHEN 'career_path_progressive' THEN 0.6 WHEN 'career_path_full' THEN 0 ELSE 0.5 END;
+    v_hint DOUBLE PRECISION := CASE p_game_mode
+        WHEN 'career_path_full' THEN 0.2 ELSE 0.15 END;
+    v_wrong_attempt DOUBLE PRECISION := CASE p_game_mode
+        WHEN 'career_path_full' THEN 0.15 ELSE 0.1 END;
+    v_floor DOUBLE PRECISION := 0.1;
+
+    v_multiplier DOUBLE PRECISION := 1 + (LEAST(5, GREATEST(1, p_difficulty)) - 1) * 0.25;
+    v_reveal_share DOUBLE PRECISION;
+    v_kept DOUBLE PRECISION;
+BEGIN
+    IF NOT p_answered_correctly THEN
+        RETURN 0;
+    END IF;
+
+    v_reveal_share := v_full_reveal * LEAST(
+        1,
+        GREATEST(0, p_clubs_revealed - 1)::DOUBLE PRECISION / GREATEST(1, p_total_clubs - 1)
+    );
+    v_kept := GREATEST(
+        v_floor,
+        1 - v_reveal_share
+          - v_hint * GREATEST(0, p_hints_used)
+          - v_wrong_attempt * GREATEST(0, p_wrong_attempts)
+    );
+
+    RETURN floor(v_base * v_kept * v_multiplier + 0.5)::INTEGER;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- -----------------------------------------------------------------------------
+-- Function: open_answer_attempt
+-- Checks that a user may play a question (signed in, pack playable, and for
+-- daily challenges today's puzzle) and returns where the question stands,
+-- locked until the transaction ends. A result stored before attempts were
+-- tracked means its answer was already revealed
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION open_answer_attempt(
+    p_user_id UUID,
+    p_player_id UUID,
+    p_game_mode game_mode_type,
+    p_challenge_date DATE
+)
+RETURNS answer_attempts AS $$
+DECLARE
+    v_today DATE := (NOW() AT TIME ZONE 'UTC')::DATE;
+    v_pack_id UUID;
+    v_state answer_attempts%ROWTYPE;
+BEGIN
+    IF p_user_id IS NULL THEN
+        RAISE EXCEPTION 'Sign in to submit answers' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT p.pack_id INTO v_pack_id FROM players p WHERE p.id = p_player_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Player % not found', p_player_id USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM packs pk WHERE pk.id = v_pack_id AND pk.is_free)
+        AND NOT EXISTS (
+            SELECT 1 FROM user_packs up
+            WHERE up.user_id = p_user_id AND up.pack_id = v_pack_id
+        ) THEN
+        RAISE EXCEPTION 'Pack not owned' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_challenge_date IS NOT NULL THEN
+        IF p_challenge_date <> v_today THEN
+            RAISE EXCEPTION 'Only today''s daily challenge (%) can be played', v_today
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+        IF p_player_id IS DISTINCT FROM select_daily_player(v_today) THEN
+            RAISE EXCEPTION 'Player % is not the daily challenge for %', p_player_id, v_today
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+    END IF;
+
+    INSERT INTO answer_attempts (
+        user_id, player_id, game_mode, challenge_date, revealed_at, answered_at
+    )
+    SELECT p_user_id, p_player_id, p_game_mode, p_challenge_date, recorded.at, recorded.at
+    FROM (
+        SELECT CASE WHEN p_challenge_date IS NULL THEN (
+            SELECT up.completed_at FROM user_progress up
+            WHERE up.user_id = p_user_id AND up.player_id = p_player_id AND up.game_mode = p_game_mode
+        ) ELSE (
+            SELECT r.completed_at FROM daily_challenge_results r
+            WHERE r.user_id = p_user_id AND r.challenge_date = p_challenge_date
+        ) END AS at
+    ) recorded
+    ON CONFLICT (user_id, player_id, game_mode, challenge_date) DO NOTHING;
+
+    SELECT * INTO v_state
+    FROM answer_attempts a
+    WHERE a.user_id = p_user_id
+      AND a.player_id = p_player_id
+      AND a.game_mode = p_game_mode
+      AND a.challenge_date IS NOT DISTINCT FROM p_challenge_date
+    FOR UPDATE;
+
+    RETURN v_state;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: reveal_clues
+-- Records the clues the signed-in user has been shown for a question: clubs
+-- of the career path (the first one included) and hints. Clients call it as
+-- they show each clue, before the next guess. Counts are clamped to what the
+-- player has, only ever go up, and stop changing once the question ends.
+-- submit_answer scores from what is recorded here
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION reveal_clues(
+    p_player_id UUID,
+    p_game_mode game_mode_type,
+    p_clubs_revealed INTEGER,
+    p_hints_used INTEGER,
+    p_challenge_date DATE DEFAULT NULL
+)
+RETURNS TABLE(clubs_revealed INTEGER, hints_used INTEGER) AS $$
+DECLARE
+    v_player players%ROWTYPE;
+    v_state answer_attempts%ROWTYPE;
+BEGIN
+    v_state := open_answer_attempt(auth.uid(), p_player_id, p_game_mode, p_challenge_date);
+    SELECT * INTO v_player FROM players p WHERE p.id = p_player_id;
+
+    IF v_state.revealed_at IS NULL THEN
+        UPDATE answer_attempts a SET
+            clubs_revealed = GREATEST(
+                a.clubs_revealed,
+                LEAST(COALESCE(p_clubs_revealed, 1), jsonb_array_length(v_player.career_path))
+            ),
+            hints_used = GREATEST(
+                a.hints_used,
+                LEAST(COALESCE(p_hints_used, 0), (
+                    SELECT COUNT(*)::INTEGER
+                    FROM unnest(ARRAY['hint1', 'hint2', 'hint3']) AS h(key)
+                    WHERE COALESCE(v_player.hints ->> h.key, '') <> ''
+                ))
+            ),
+            updated_at = NOW()
+        WHERE a.id = v_state.id
+        RETURNING a.clubs_revealed, a.hints_used
+        INTO v_state.clubs_revealed, v_state.hints_used;
+    END IF;
+
+    RETURN QUERY SELECT v_state.clubs_revealed, v_state.hints_used;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: submit_answer
+-- Grades a guess for the signed-in user and records the outcome
+--
+-- The score is based on what the server recorded for the question
+-- (answer_attempts): the clubs and hints reveal_clues was told about and the
+-- wrong guesses graded here before. Every guess has to come through here,
+-- wrong ones included, or it isn't counted.
+-- A question ends when the guess is correct, when it is the third wrong
+-- guess, or when p_guess is NULL (skipped). Only then are the play day (in
+-- p_time_zone, UTC if unknown) and the result written:
+--   - without p_challenge_date, the user's user_progress row
+--   - with p_challenge_date, the user's one daily_challenge_results row. Only
+--     today's (UTC) challenge, for the player select_daily_player picks
+-- p_answered_at lets queued offline answers keep the time they were given
+-- (up to 30 days back) for the play day. Leaderboard periods that have
+-- closed since are final, so on the boards such a result counts from the
+-- start of the current week and month instead (completed_at)
+--
+-- Answers are ordered by p_answered_at, not by when they arrive. Ending a
+-- question reveals its answer, so answers given after it are graded but
+-- change nothing, and return the recorded attempts and score. Answers given
+-- before it, queued on a device that uploaded late, still count towards the
+-- question, and one that ends it replaces the recorded result unless it
+-- ranks above it (a correct answer, then the higher score, then fewer
+-- attempts, as compareProgress in packages/database/progress.ts ranks
+-- them). Answer times come from devices, so they can take a result down but
+-- never up: a result can't be improved once its answer has been shown
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION submit_answer(
+    p_player_id UUID,
+    p_game_mode game_mode_type,
+    p_guess TEXT,
+    p_answered_at TIMESTAMPTZ DEFAULT NOW(),
+    p_challenge_date DATE DEFAULT NULL,
+    p_time_zone TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+    verdict TEXT,
+    is_correct BOOLEAN,
+    completed BOOLEAN,
+    attempts INTEGER,
+    score_earned INTEGER,
+    matched_answer TEXT,
+    recorded BOOLEAN
+) AS $$
+DECLARE
+    c_max_wrong_guesses CONSTANT INTEGER := 3;  -- DEFAULT_MAX_WRONG_GUESSES in session.ts
+    v_user_id UUID := auth.uid();
+    v_player players%ROWTYPE;
+    v_state answer_attempts%ROWTYPE;
+    v_final RECORD;
+    v_match RECORD;
+    v_total_clubs INTEGER;
+    v_clubs_revealed INTEGER;
+    v_completed BOOLEAN;
+    v_attempts INTEGER;
+    v_score INTEGER;
+    v_answered_at TIMESTAMPTZ := LEAST(
+        GREATEST(COALESCE(p_answered_at, NOW()), NOW() - INTERVAL '30 days'),
+        NOW()
+    );
+    v_completed_at TIMESTAMPTZ;
+    v_play_date DATE;
+    v_recorded BOOLEAN := FALSE;
+BEGIN
+    v_state := open_answer_attempt(v_user_id, p_player_id, p_game_mode, p_challenge_date);
+    SELECT * INTO v_player FROM players p WHERE p.id = p_player_id;
+
+    -- Streak days follow the user's time zone. An unknown zone doesn't cost the answer
+    BEGIN
+        v_play_date := (v_answered_at AT TIME ZONE COALESCE(p_time_zone, 'UTC'))::DATE;
+    EXCEPTION WHEN invalid_parameter_value THEN
+        v_play_date := (v_answered_at AT TIME ZONE 'UTC')::DATE;
+    END;
+
+    -- Results count on the boards in an open period: an answer given before
+    -- the current week or month began counts from its start
+    v_completed_at := GREATEST(
+        v_answered_at,
+        leaderboard_period_start('weekly', NOW())::TIMESTAMP AT TIME ZONE 'UTC',
+        leaderboard_period_start('monthly', NOW())::TIMESTAMP AT TIME ZONE 'UTC'
+    );
+
+    -- What the player was shown, as recorded. The whole career path shows in
+    -- career_path_full, and content edits may have shortened it since
+    v_total_clubs := jsonb_array_length(v_player.career_path);
+    v_clubs_revealed := CASE
+        WHEN p_game_mode = 'career_path_full' THEN v_total_clubs
+        ELSE LEAST(v_state.clubs_revealed, GREATEST(v_total_clubs, 1))
+    END;
+
+    IF p_guess IS NULL THEN
+        SELECT 'wrong'::TEXT AS verdict, FALSE AS is_correct, NULL::TEXT AS matched, 0 AS distance
+        INTO v_match;
+    ELSE
+        SELECT * INTO v_match FROM match_answer(p_guess, p_player_id);
+    END IF;
+
+    IF v_state.revealed_at IS NOT NULL AND v_answered_at >= v_state.answered_at THEN
+        -- Given after the question ended
+        v_completed := TRUE;
+    ELSE
+        IF v_match.is_correct THEN
+            v_completed := TRUE;
+            v_attempts := v_state.wrong_attempts + 1;
+        ELSE
+            v_completed := p_guess IS NULL OR v_state.wrong_attempts + 1 >= c_max_wrong_guesses;
+            v_attempts := v_state.wrong_attempts + CASE WHEN p_guess IS NULL THEN 0 ELSE 1 END;
+        END IF;
+
+        v_score := calculate_score(
+            p_game_mode,
+            v_player.difficulty,
+            v_match.is_correct,
+            v_clubs_revealed,
+            v_total_clubs,
+            v_state.hints_used,
+            v_state.wrong_attempts
+        );
+
+        UPDATE answer_attempts a SET
+            wrong_attempts = a.wrong_attempts
+                + CASE WHEN p_guess IS NOT NULL AND NOT v_match.is_correct THEN 1 ELSE 0 END,
+            revealed_at = COALESCE(a.revealed_at, CASE WHEN v_completed THEN NOW() END),
+            answered_at = CASE WHEN v_completed THEN v_answered_at ELSE a.answered_at END,
+            updated_at = NOW()
+        WHERE a.id = v_state.id;
+
+        IF v_completed THEN
+            INSERT INTO user_play_days (user_id, play_date)
+            VALUES (v_user_id, v_play_date)
+            ON CONFLICT (user_id, play_date) DO NOTHING;
+        END IF;
+
+        -- An answer given before the recorded one replaces it, unless it ranks above it
+        IF v_completed AND p_challenge_date IS NOT NULL THEN
+            INSERT INTO daily_challenge_results AS r (
+                user_id, challenge_date, player_id, game_mode,
+                answered_correctly, attempts, score_earned, completed_at
+            )
+            VALUES (
+                v_user_id, p_challenge_date, p_player_id, p_game_mode,
+                v_match.is_correct, v_attempts, v_score, v_answered_at
+            )
+            ON CONFLICT (user_id, challenge_date) DO UPDATE SET
+                answered_correctly = EXCLUDED.answered_correctly,
+                attempts = EXCLUDED.attempts,
+                score_earned = EXCLUDED.score_earned,
+                completed_at = EXCLUDED.completed_at
+            WHERE (EXCLUDED.answered_correctly, EXCLUDED.score_earned, -EXCLUDED.attempts)
+                <= (r.answered_correctly, r.score_earned, -r.attempts);
+            v_recorded := FOUND;
+        ELSIF v_completed THEN
+            INSERT INTO user_progress AS up (
+                user_id, player_id, game_mode,
+                answered_correctly, attempts, score_earned, hints_used, completed_at
+            )
+            VALUES (
+                v_user_id, p_player_id, p_game_mode,
+                v_match.is_correct, v_attempts, v_score, v_state.hints_used, v_completed_at
+            )
+            ON CONFLICT (user_id, player_id, game_mode) DO UPDATE SET
+                answered_correctly = EXCLUDED.answered_correctly,
+                attempts = EXCLUDED.attempts,
+                score_earned = EXCLUDED.score_earned,
+                hints_used = EXCLUDED.hints_used,
+                completed_at = EXCLUDED.completed_at
+            WHERE (EXCLUDED.answered_correctly, EXCLUDED.score_earned, -EXCLUDED.attempts)
+                <= (up.answered_correctly, up.score_earned, -up.attempts);
+            v_recorded := FOUND;
+        END IF;
+    END IF;
+
+    -- The answer is out: return the result on record
+    IF v_completed AND NOT v_recorded THEN
+        IF p_challenge_date IS NULL THEN
+            SELECT up.attempts, up.score_earned INTO v_final
+            FROM user_progress up
+            WHERE up.user_id = v_user_id AND up.player_id = p_player_id AND up.game_mode = p_game_mode;
+        ELSE
+            SELECT r.attempts, r.score_earned INTO v_final
+            FROM daily_challenge_results r
+            WHERE r.user_id = v_user_id AND r.challenge_date = p_challenge_date;
+        END IF;
+        v_attempts := COALESCE(v_final.attempts, 0);
+        v_score := COALESCE(v_final.score_earned, 0);
+    END IF;
+
+    RETURN QUERY SELECT
+        v_match.verdict,
+        v_match.is_correct,
+        v_completed,
+        v_attempts,
+        v_score,
+        -- Only reveal the answer once it can't help with another guess
+        CASE WHEN v_completed THEN COALESCE(v_match.matched, v_player.name) ELSE NULL END,
+        v_recorded;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public, extensions;
+
+-- -----------------------------------------------------------------------------
+-- Function: submit_answers
+-- Records clues and grades guesses queued on a device in one request, in
+-- order, as reveal_clues and submit_answer do. p_entries is an array of at
+-- most 100 objects with player_id, game_mode and challenge_date, and either
+--   - kind 'clues' with clubs_revealed and hints_used, or
+--   - kind 'answer' with guess, answered_at and time_zone
+-- Entries the server won't take (not signed in, pack not owned, bad input)
+-- are rolled back on their own and reported with their error, so the rest of
+-- the batch still counts. Any other failure fails the whole batch.
+-- Returns one row per entry, error_code NULL when it was taken
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION submit_answers(p_entries JSONB)
+RETURNS TABLE(entry INTEGER, error_code TEXT, error_message TEXT) AS $$
+DECLARE
+    c_max_entries CONSTANT INTEGER := 100;  -- MAX_ANSWER_BATCH_SIZE in queries.ts
+    v_entry RECORD;
+BEGIN
+    IF jsonb_typeof(p_entries) IS DISTINCT FROM 'array'
+        OR jsonb_array_length(p_entries) > c_max_entries THEN
+        RAISE EXCEPTION 'Submit an array of at most % entries', c_max_entries
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    FOR v_entry IN
+        SELECT e.value AS item, (e.ordinality - 1)::INTEGER AS position
+        FROM jsonb_array_elements(p_entries) WITH ORDINALITY AS e
+    LOOP
+        entry := v_entry.position;
+        error_code := NULL;
+        error_message := NULL;
+
+        BEGIN
+            CASE v_entry.item ->> 'kind'
+                WHEN 'clues' THEN
+                    PERFORM reveal_clues(
+                        (v_entry.item ->> 'player_id')::UUID,
+                        (v_entry.item ->> 'game_mode')::game_mode_type,
+                        (v_entry.item ->> 'clubs_revealed')::INTEGER,
+                        (v_entry.item ->> 'hints_used')::INTEGER,
+                        (v_entry.item ->> 'challenge_date')::DATE
+                    );
+                WHEN 'answer' THEN
+                    PERFORM submit_answer(
+                        (v_entry.item ->> 'player_id')::UUID,
+                        (v_entry.item ->> 'game_mode')::game_mode_type,
+                        v_entry.item ->> 'guess',
+                        (v_entry.item ->> 'answered_at')::TIMESTAMPTZ,
+                        (v_entry.item ->> 'challenge_date')::DATE,
+                        v_entry.item ->> 'time_zone'
+                    );
+                ELSE
+                    RAISE EXCEPTION 'Unknown entry kind %', v_entry.item ->> 'kind'
+                        USING ERRCODE = 'invalid_parameter_value';
+            END CASE;
+        EXCEPTION
+            WHEN insufficient_privilege OR no_data_found OR data_exception
+                OR integrity_constraint_violation THEN
+                error_code := SQLSTATE;
+                error_message := SQLERRM;
+        END;
+
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql VOLATILE SET search_path = public;
+
+-- Grading helpers are internal; clients go through submit_answer
+REVOKE EXECUTE ON FUNCTION match_answer(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION open_answer_attempt(UUID, UUID, game_mode_type, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reveal_clues(UUID, game_mode_type, INTEGER, INTEGER, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reveal_clues(UUID, game_mode_type, INTEGER, INTEGER, DATE) TO authenticated;
+REVOKE EXECUTE ON FUNCTION submit_answer(UUID, game_mode_type, TEXT, TIMESTAMPTZ, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION submit_answer(UUID, game_mode_type, TEXT, TIMESTAMPTZ, DATE, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION submit_answers(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION submit_answers(JSONB) TO authenticated;
+
+-- -----------------------------------------------------------------------------
+-- Function: unlock_achievements
+-- Grants the signed-in user every badge their answers and play days have
+-- earned. Measures the catalogue in achievements.ts over the players the user
+-- can play; badges already unlocked are left as they are
+-- Returns only the achievements unlocked by this call
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION unlock_achievements()
+RETURNS SETOF user_achievements AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Sign in to unlock achievements' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN QUERY
+    WITH playable AS (
+        -- Free packs and packs the user owns, as the players policy shows them
+        SELECT pl.id, pl.pack_id, pl.nationality
+        FROM players pl
+        JOIN packs pk ON pk.id = pl.pack_id
+        WHERE pk.is_free
+           OR EXISTS (
+               SELECT 1 FROM user_packs up
+               WHERE up.user_id = v_user_id AND up.pack_id = pl.pack_id
+           )
+    ),
+    answered AS (
+        -- Players answered correctly in any mode, and without a hint
+        SELECT
+            up.player_id,
+            BOOL_OR(up.answered_correctly) AS correct,
+            BOOL_OR(up.answered_correctly AND up.hints_used = 0) AS clean
+        FROM user_progress up
+        WHERE up.user_id = v_user_id
+        GROUP BY up.player_id
+    ),
+    runs AS (
+        -- Consecutive play days share a start date
+        SELECT COUNT(*)::INTEGER AS length
+        FROM (
+            SELECT d.play_date - (ROW_NUMBER() OVER (ORDER BY d.play_date))::INTEGER AS run_start
+            FROM user_play_days d
+            WHERE d.user_id = v_user_id
+        ) r
+        GROUP BY r.run_start
+    ),
+    measures AS (
+        SELECT
+            (
+                SELECT COUNT(*)::INTEGER FROM user_progress up
+                WHERE up.user_id = v_user_id AND up.answered_correctly
+            ) AS correct_answers,
+            (SELECT COALESCE(MAX(r.length), 0) FROM runs r) AS longest_streak,
+            EXISTS (
+                SELECT 1
+                FROM playable p
+                LEFT JOIN answered a ON a.player_id = p.id
+                GROUP BY p.pack_id
+                HAVING BOOL_AND(COALESCE(a.clean, FALSE))
+            ) AS clean_pack,
+            (
+                SELECT COUNT(*) > 0 AND BOOL_AND(COALESCE(a.correct, FALSE))
+                FROM playable p
+                LEFT JOIN answered a ON a.player_id = p.id
+                WHERE normalize_answer(p.nationality) = normalize_answer('Italy')
+            ) AS all_italians
+    )
+    INSERT INTO user_achievements AS ua (user_id, achievement_id)
+    SELECT v_user_id, e.achievement_id
+    FROM measures m
+    CROSS JOIN LATERAL (VALUES
+        ('first_correct', m.correct_answers >= 1),
+        ('correct_10', m.correct_answers >= 10),
+        ('correct_50', m.correct_answers >= 50),
+        ('correct_100', m.correct_answers >= 100),
+        ('clean_sheet', m.clean_pack),
+        ('forza_azzurri', m.all_italians),
+        ('streak_7', m.longest_streak >= 7),
+        ('streak_30', m.longest_streak >= 30)
+    ) AS e(achievement_id, met)
+    WHERE e.met
+    -- Another device may unlock the same badge concurrently
+    ON CONFLICT (user_id, achievement_id) DO NOTHING
+    RETURNING ua.*;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION unlock_achievements() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION unlock_achievements() TO authenticated;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Server-authoritative answers configured: submit_answer is the only way to record a score';
+END $$;
@@ -0,0 +1,279 @@
+-- =============================================================================
+-- Football IQ Verified Purchases Migration
+-- =============================================================================
+-- Paid packs are unlocked only after a store receipt has been verified on the
+-- server (see packages/database/entitlements.ts):
+--   - purchases records every verified store transaction and its status
+--   - user_packs now holds active entitlements only, each backed by a
+--     purchase or by an unlock from before this migration, and is written
+--     solely by the functions below
+--   - refunds and revocations reported by the store remove the entitlement
+--
+-- Clients can no longer insert into user_packs. Unlocks recorded before this
+-- migration were never verified, but players keep them: they are copied to
+-- legacy_user_packs and stay in user_packs without a purchase.
+-- =============================================================================
+
+-- =============================================================================
+-- CUSTOM TYPES
+-- =============================================================================
+
+CREATE TYPE purchase_status AS ENUM (
+    'active',    -- Verified and in good standing
+    'refunded',  -- Refunded by the store
+    'revoked'    -- Revoked by the store (e.g. chargeback, family sharing removed)
+);
+
+-- =============================================================================
+-- TABLE CHANGES
+-- =============================================================================
+
+ALTER TABLE packs ADD COLUMN store_product_id TEXT UNIQUE;
+
+COMMENT ON COLUMN packs.store_product_id IS 'Product id the pack is sold under in the app stores. NULL if not on sale';
+
+-- =============================================================================
+-- TABLES
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- PURCHASES: Store transactions verified on the server
+-- -----------------------------------------------------------------------------
+CREATE TABLE purchases (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    pack_id UUID NOT NULL REFERENCES packs(id) ON DELETE CASCADE,
+
+    provider TEXT NOT NULL,  -- Store that verified the receipt, e.g. 'app_store'
+    transaction_id TEXT NOT NULL,
+    original_transaction_id TEXT NOT NULL,  -- Same for every restore of a purchase
+    product_id TEXT NOT NULL,
+
+    status purchase_status NOT NULL DEFAULT 'active',
+    purchased_at TIMESTAMPTZ NOT NULL,
+    verified_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    status_changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- Verifying the same transaction again updates it
+    UNIQUE(provider, transaction_id)
+);
+
+COMMENT ON TABLE purchases IS 'Verified store transactions for paid packs';
+COMMENT ON COLUMN purchases.provider IS 'Store provider id from entitlements.ts';
+COMMENT ON COLUMN purchases.original_transaction_id IS 'Store id shared by a purchase and all its restores';
+COMMENT ON COLUMN purchases.verified_at IS 'Last time the store confirmed this transaction';
+
+-- -----------------------------------------------------------------------------
+-- LEGACY_USER_PACKS: Unlocks recorded before receipts were verified
+-- -----------------------------------------------------------------------------
+CREATE TABLE legacy_user_packs (LIKE user_packs INCLUDING DEFAULTS);
+
+INSERT INTO legacy_user_packs SELECT * FROM user_packs;
+
+ALTER TABLE legacy_user_packs ADD PRIMARY KEY (id);
+ALTER TABLE legacy_user_packs ADD UNIQUE (user_id, pack_id);
+
+COMMENT ON TABLE legacy_user_packs IS 'Unverified pack unlocks from before purchases were verified. They stay granted whatever happens to later purchases';
+
+-- -----------------------------------------------------------------------------
+-- USER_PACKS: Every entitlement is backed by an active purchase or a legacy unlock
+-- -----------------------------------------------------------------------------
+ALTER TABLE user_packs
+    ADD COLUMN purchase_id UUID REFERENCES purchases(id) ON DELETE CASCADE;
+
+COMMENT ON TABLE user_packs IS 'Packs each user is entitled to, granted from verified purchases and legacy unlocks';
+COMMENT ON COLUMN user_packs.purchase_id IS 'Active purchase the entitlement comes from. NULL for a legacy unlock (see legacy_user_packs)';
+
+-- =============================================================================
+-- INDEXES FOR PERFORMANCE
+-- =============================================================================
+
+CREATE INDEX idx_purchases_user_pack ON purchases(user_id, pack_id);
+CREATE INDEX idx_purchases_original_transaction ON purchases(provider, original_transaction_id);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =============================================================================
+
+ALTER TABLE purchases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE legacy_user_packs ENABLE ROW LEVEL SECURITY;
+
+-- -----------------------------------------------------------------------------
+-- PURCHASES: Users see their own purchases. Only the server records them
+-- -----------------------------------------------------------------------------
+CREATE POLICY "Users can view their own purchases"
+    ON purchases FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- -----------------------------------------------------------------------------
+-- USER_PACKS: Close direct writes; entitlements follow verified purchases
+-- -----------------------------------------------------------------------------
+DROP POLICY IF EXISTS "Users can purchase packs" ON user_packs;
+
+REVOKE INSERT, UPDATE, DELETE ON user_packs FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON purchases FROM anon, authenticated;
+REVOKE ALL ON legacy_user_packs FROM anon, authenticated;
+
+-- =============================================================================
+-- DATABASE FUNCTIONS
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Function: refresh_pack_entitlement
+-- Grants a pack while the user has an active purchase of it, removes it otherwise.
+-- A legacy unlock keeps the pack granted without a purchase
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION refresh_pack_entitlement(p_user_id UUID, p_pack_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_purchase purchases%ROWTYPE;
+    v_legacy legacy_user_packs%ROWTYPE;
+BEGIN
+    SELECT * INTO v_purchase
+    FROM purchases p
+    WHERE p.user_id = p_user_id AND p.pack_id = p_pack_id AND p.status = 'active'
+    ORDER BY p.purchased_at ASC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        SELECT * INTO v_legacy
+        FROM legacy_user_packs l
+        WHERE l.user_id = p_user_id AND l.pack_id = p_pack_id;
+
+        IF NOT FOUND THEN
+            DELETE FROM user_packs up WHERE up.user_id = p_user_id AND up.pack_id = p_pack_id;
+            RETURN;
+        END IF;
+
+        INSERT INTO user_packs (user_id, pack_id, purchase_id, purchased_at)
+        VALUES (p_user_id, p_pack_id, NULL, v_legacy.purchased_at)
+        ON CONFLICT (user_id, pack_id) DO UPDATE SET
+            purchase_id = NULL,
+            purchased_at = EXCLUDED.purchased_at;
+        RETURN;
+    END IF;
+
+    INSERT INTO user_packs (user_id, pack_id, purchase_id, purchased_at)
+    VALUES (p_user_id, p_pack_id, v_purchase.id, v_purchase.purchased_at)
+    ON CONFLICT (user_id, pack_id) DO UPDATE SET
+        purchase_id = EXCLUDED.purchase_id,
+        purchased_at = EXCLUDED.purchased_at;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: record_store_purchase
+-- Records a transaction the store has verified and updates the entitlement.
+-- A purchase belongs to the first account that claims it, so restoring it
+-- on another account is refused instead of unlocking the pack twice
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION record_store_purchase(
+    p_user_id UUID,
+    p_provider TEXT,
+    p_transaction_id TEXT,
+    p_original_transaction_id TEXT,
+    p_product_id TEXT,
+    p_purchased_at TIMESTAMPTZ,
+    p_status purchase_status
+)
+RETURNS purchases AS $$
+DECLARE
+    v_pack_id UUID;
+    v_owner UUID;
+    v_purchase purchases%ROWTYPE;
+BEGIN
+    SELECT pk.id INTO v_pack_id FROM packs pk WHERE pk.store_product_id = p_product_id;
+    IF v_pack_id IS NULL THEN
+        RAISE EXCEPTION 'No pack is sold as product %', p_product_id USING ERRCODE = 'no_data_found';
+    END IF;
+
+    -- Serialise claims of the same purchase
+    PERFORM pg_advisory_xact_lock(hashtext(p_provider || ':' || p_original_transaction_id));
+
+    SELECT p.user_id INTO v_owner
+    FROM purchases p
+    WHERE p.provider = p_provider AND p.original_transaction_id = p_original_transaction_id
+    LIMIT 1;
+
+    IF v_owner IS NOT NULL AND v_owner <> p_user_id THEN
+        RAISE EXCEPTION 'Purchase belongs to another account' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    INSERT INTO purchases AS p (
+        user_id, pack_id, provider, transaction_id, original_transaction_id,
+        product_id, status, purchased_at
+    )
+    VALUES (
+        p_user_id, v_pack_id, p_provider, p_transaction_id, p_original_transaction_id,
+        p_product_id, p_status, p_purchased_at
+    )
+    ON CONFLICT (provider, transaction_id) DO UPDATE SET
+        status = EXCLUDED.status,
+        verified_at = NOW(),
+        status_changed_at = CASE
+            WHEN p.status = EXCLUDED.status THEN p.status_changed_at
+            ELSE NOW()
+        END
+    RETURNING * INTO v_purchase;
+
+    PERFORM refresh_pack_entitlement(p_user_id, v_pack_id);
+    RETURN v_purchase;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: set_store_purchase_status
+-- Applies a status change reported by the store (refund, revocation) to a
+-- purchase and all its restores. Returns no rows for purchases that were
+-- never verified here
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION set_store_purchase_status(
+    p_provider TEXT,
+    p_original_transaction_id TEXT,
+    p_status purchase_status
+)
+RETURNS SETOF purchases AS $$
+DECLARE
+    v_purchase purchases%ROWTYPE;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext(p_provider || ':' || p_original_transaction_id));
+
+    UPDATE purchases p SET
+        status = p_status,
+        status_changed_at = NOW()
+    WHERE p.provider = p_provider
+        AND p.original_transaction_id = p_original_transaction_id
+        AND p.status <> p_status;
+
+    -- A purchase and its restores share one user and pack
+    SELECT * INTO v_purchase
+    FROM purchases p
+    WHERE p.provider = p_provider AND p.original_transaction_id = p_original_transaction_id
+    LIMIT 1;
+
+    IF FOUND THEN
+        PERFORM refresh_pack_entitlement(v_purchase.user_id, v_purchase.pack_id);
+    END IF;
+
+    RETURN QUERY
+    SELECT * FROM purchases p
+    WHERE p.provider = p_provider AND p.original_transaction_id = p_original_transaction_id
+    ORDER BY p.purchased_at ASC;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Entitlements are granted by the purchase service (service role) only
+REVOKE EXECUTE ON FUNCTION refresh_pack_entitlement(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_store_purchase(UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, purchase_status) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION set_store_purchase_status(TEXT, TEXT, purchase_status) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_store_purchase(UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, purchase_status) TO service_role;
+GRANT EXECUTE ON FUNCTION set_store_purchase_status(TEXT, TEXT, purchase_status) TO service_role;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Verified purchases configured: user_packs is granted from purchases only';
+END $$;
@@ -0,0 +1,347 @@
+-- =============================================================================
+-- Football IQ Pack Content Protection Migration
+-- =============================================================================
+-- Paid pack content is only readable with an entitlement, and answers are
+-- never sent to clients:
+--   - players of a paid pack are visible to users holding a user_packs row,
+--     free packs stay readable by everyone
+--   - name, full_name and aliases are no longer selectable by clients.
+--     Players carry answer_hashes instead, so devices can still check exact
+--     guesses offline; submit_answer remains the authority (typos included).
+--     The hashes are computed on devices too, so they carry no secret: they
+--     keep answers out of plain sight, but a list of footballers' names
+--     recovers them. Entitlements are what keep paid answers from others
+--   - get_pack_preview shows any pack's metadata with a small sample of
+--     questions, without hints or answers
+--   - get_revealed_answers returns answers to questions the user has finished
+-- =============================================================================
+
+-- =============================================================================
+-- TABLE CHANGES
+-- =============================================================================
+
+ALTER TABLE players ADD COLUMN answer_hashes TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN players.answer_hashes IS 'SHA-256 of "<player id>:<verdict>:<normalized answer>" for every answer accepted without typos (see hashAnswer)';
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- PLAYERS: Readable for free packs, or with an entitlement to the pack
+-- -----------------------------------------------------------------------------
+DROP POLICY IF EXISTS "Players are publicly readable" ON players;
+
+CREATE POLICY "Players of free or owned packs are readable"
+    ON players FOR SELECT
+    USING (
+        EXISTS (SELECT 1 FROM packs pk WHERE pk.id = players.pack_id AND pk.is_free)
+        OR EXISTS (
+            SELECT 1 FROM user_packs up
+            WHERE up.pack_id = players.pack_id AND up.user_id = auth.uid()
+        )
+    );
+
+-- -----------------------------------------------------------------------------
+-- PLAYERS: Answer columns are kept from clients
+-- -----------------------------------------------------------------------------
+REVOKE SELECT ON players FROM anon, authenticated;
+GRANT SELECT (
+    id, pack_id, nationality, position, career_path, hints, difficulty,
+    answer_hashes, created_at, updated_at
+) ON players TO anon, authenticated;
+
+-- =============================================================================
+-- DATABASE FUNCTIONS
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Function: player_answer_forms
+-- Normalized answers match_answer accepts without typos, with the verdict it
+-- gives them: the names are 'exact', the aliases and any surname no other
+-- player in the pack answers to are 'alias'. A form that is both is 'exact',
+-- as match_answer tries the names first
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION player_answer_forms(p_player_id UUID)
+RETURNS TABLE(form TEXT, kind TEXT) AS $$
+    WITH player AS (
+        SELECT * FROM players p WHERE p.id = p_player_id
+    ),
+    taken AS (
+        SELECT t.form
+        FROM player pl
+        JOIN players o ON o.pack_id = pl.pack_id AND o.id <> pl.id
+        CROSS JOIN LATERAL (
+            SELECT normalize_answer(x.value) AS normalized
+            FROM (
+                SELECT o.name AS value
+                UNION ALL SELECT o.full_name
+                UNION ALL SELECT jsonb_array_elements_text(o.aliases)
+            ) x
+        ) n
+        CROSS JOIN LATERAL (
+            SELECT n.normalized AS form
+            UNION ALL SELECT f FROM answer_surname_forms(n.normalized) f
+        ) t
+        WHERE n.normalized <> ''
+    )
+    SELECT DISTINCT ON (forms.form) forms.form, forms.kind
+    FROM (
+        SELECT normalize_answer(pl.name) AS form, 'exact' AS kind FROM player pl
+        UNION ALL SELECT normalize_answer(pl.full_name), 'exact' FROM player pl
+        UNION ALL SELECT normalize_answer(a.value), 'alias'
+            FROM player pl CROSS JOIN LATERAL jsonb_array_elements_text(pl.aliases) AS a(value)
+        UNION ALL SELECT s.form, 'alias'
+            FROM player pl
+            CROSS JOIN LATERAL (
+                SELECT answer_surname_forms(normalize_answer(pl.name)) AS form
+                UNION ALL SELECT answer_surname_forms(normalize_answer(pl.full_name))
+            ) s
+            WHERE s.form NOT IN (SELECT form FROM taken)
+    ) forms
+    WHERE forms.form <> ''
+    ORDER BY forms.form, forms.kind = 'alias';
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+-- -----------------------------------------------------------------------------
+-- Function: answer_hash
+-- Hash of one normalized answer and its verdict ('exact' or 'alias'), salted
+-- with the player id (see hashAnswer). The salt is public, so this hides
+-- answers from a glance, not from a dictionary
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION answer_hash(p_player_id UUID, p_kind TEXT, p_normalized TEXT)
+RETURNS TEXT AS $$
+    SELECT encode(sha256(convert_to(
+        p_player_id::TEXT || ':' || p_kind || ':' || p_normalized, 'UTF8'
+    )), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- -----------------------------------------------------------------------------
+-- Function: refresh_pack_answer_hashes
+-- Recomputes answer_hashes for a pack. Surnames depend on the other players,
+-- so a change to one player can change the hashes of the rest
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION refresh_pack_answer_hashes(p_pack_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE players p SET answer_hashes = h.hashes
+    FROM (
+        SELECT o.id, ARRAY(
+            SELECT answer_hash(o.id, f.kind, f.form)
+            FROM player_answer_forms(o.id) AS f
+            ORDER BY 1
+        ) AS hashes
+        FROM players o
+        WHERE o.pack_id = p_pack_id
+    ) h
+    WHERE p.id = h.id AND p.answer_hashes IS DISTINCT FROM h.hashes;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public, extensions;
+
+-- -----------------------------------------------------------------------------
+-- Function: refresh_player_answer_hashes
+-- Trigger function keeping answer_hashes in step with the answers. Runs once
+-- per statement and refreshes each pack it touched once, so importing a pack
+-- doesn't rehash it for every player
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION refresh_player_answer_hashes()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_pack_ids UUID[];
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        SELECT ARRAY_AGG(DISTINCT n.pack_id) INTO v_pack_ids FROM new_players n;
+    ELSIF TG_OP = 'DELETE' THEN
+        SELECT ARRAY_AGG(DISTINCT o.pack_id) INTO v_pack_ids FROM old_players o;
+    ELSE
+        -- Only changes to the answers, or moves between packs, affect hashes
+        SELECT ARRAY_AGG(DISTINCT c.pack_id) INTO v_pack_ids
+        FROM old_players o
+        JOIN new_players n ON n.id = o.id
+        CROSS JOIN LATERAL (VALUES (o.pack_id), (n.pack_id)) AS c(pack_id)
+        WHERE (o.name, o.full_name, o.aliases, o.pack_id)
+            IS DISTINCT FROM (n.name, n.full_name, n.aliases, n.pack_id);
+    END IF;
+
+    -- Packs deleted along with their players have nothing left to refresh
+    PERFORM refresh_pack_answer_hashes(pk.id)
+    FROM packs pk
+    WHERE pk.id = ANY(v_pack_ids);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION refresh_pack_answer_hashes(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION player_answer_forms(UUID) FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- Function: get_pack_with_players
+-- Redefined without answers. Runs with the caller's rights, so players of a
+-- pack the caller can't play are left out (the pack row is still returned)
+-- -----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS get_pack_with_players(TEXT);
+
+CREATE OR REPLACE FUNCTION get_pack_with_players(p_slug TEXT)
+RETURNS TABLE(
+    pack_id UUID,
+    pack_name TEXT,
+    pack_description TEXT,
+    pack_slug TEXT,
+    pack_price DECIMAL,
+    pack_is_free BOOLEAN,
+    player_id UUID,
+    player_nationality TEXT,
+    player_position TEXT,
+    player_career_path JSONB,
+    player_hints JSONB,
+    player_difficulty INTEGER,
+    player_answer_hashes TEXT[]
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.name,
+        p.description,
+        p.slug,
+        p.price,
+        p.is_free,
+        pl.id,
+        pl.nationality,
+        pl.position,
+        pl.career_path,
+        pl.hints,
+        pl.difficulty,
+        pl.answer_hashes
+    FROM packs p
+    LEFT JOIN players pl ON pl.pack_id = p.id
+    WHERE p.slug = p_slug
+    ORDER BY pl.difficulty ASC, pl.id ASC;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- -----------------------------------------------------------------------------
+-- Function: get_pack_preview
+-- Any pack's metadata with its easiest questions as a sample, so a locked
+-- pack can be shown before buying. Career paths only: no hints, no answers
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_pack_preview(p_slug TEXT, p_sample_size INTEGER DEFAULT 3)
+RETURNS TABLE(
+    pack_id UUID,
+    pack_name TEXT,
+    pack_description TEXT,
+    pack_slug TEXT,
+    pack_price DECIMAL,
+    pack_is_free BOOLEAN,
+    pack_difficulty_range TEXT,
+    pack_question_count INTEGER,
+    pack_store_product_id TEXT,
+    pack_created_at TIMESTAMPTZ,
+    pack_updated_at TIMESTAMPTZ,
+    player_id UUID,
+    player_nationality TEXT,
+    player_position TEXT,
+    player_career_path JSONB,
+    player_difficulty INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.name,
+        p.description,
+        p.slug,
+        p.price,
+        p.is_free,
+        p.difficulty_range,
+        p.question_count,
+        p.store_product_id,
+        p.created_at,
+        p.updated_at,
+        s.id,
+        s.nationality,
+        s.position,
+        s.career_path,
+        s.difficulty
+    FROM packs p
+    LEFT JOIN LATERAL (
+        SELECT pl.id, pl.nationality, pl.position, pl.career_path, pl.difficulty
+        FROM players pl
+        WHERE pl.pack_id = p.id
+        ORDER BY pl.difficulty ASC, pl.id ASC
+        LIMIT LEAST(GREATEST(COALESCE(p_sample_size, 3), 0), 5)
+    ) s ON TRUE
+    WHERE p.slug = p_slug
+    ORDER BY s.difficulty ASC, s.id ASC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: get_revealed_answers
+-- Answers to the given players, limited to questions the signed-in user has
+-- finished (in any mode or as a daily challenge)
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_revealed_answers(p_player_ids UUID[])
+RETURNS TABLE(
+    player_id UUID,
+    name TEXT,
+    full_name TEXT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT pl.id, pl.name, pl.full_name
+    FROM players pl
+    WHERE pl.id = ANY(p_player_ids)
+      AND (
+          EXISTS (
+              SELECT 1 FROM user_progress up
+              WHERE up.user_id = auth.uid() AND up.player_id = pl.id
+          )
+          OR EXISTS (
+              SELECT 1 FROM daily_challenge_results d
+              WHERE d.user_id = auth.uid() AND d.player_id = pl.id
+          )
+      );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- TRIGGERS
+-- =============================================================================
+
+-- Transition tables rule out a column list, so the function skips updates
+-- that leave the answers alone (including its own writes to answer_hashes)
+CREATE TRIGGER refresh_inserted_players_answer_hashes
+    AFTER INSERT ON players
+    REFERENCING NEW TABLE AS new_players
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION refresh_player_answer_hashes();
+
+CREATE TRIGGER refresh_updated_players_answer_hashes
+    AFTER UPDATE ON players
+    REFERENCING OLD TABLE AS old_players NEW TABLE AS new_players
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION refresh_player_answer_hashes();
+
+CREATE TRIGGER refresh_deleted_players_answer_hashes
+    AFTER DELETE ON players
+    REFERENCING OLD TABLE AS old_players
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION refresh_player_answer_hashes();
+
+-- =============================================================================
+-- BACKFILL
+-- =============================================================================
+
+SELECT refresh_pack_answer_hashes(pk.id) FROM packs pk;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Pack content protected: players readable with an entitlement, answers hashed';
+END $$;
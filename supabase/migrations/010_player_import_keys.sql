@@ -0,0 +1,62 @@
+-- =============================================================================
+-- Football IQ Player Import Keys Migration
+-- =============================================================================
+-- Players are now unique by name within a pack, so the SQL generated by the
+-- pack importer (packages/database/importer.ts) can upsert them and be run
+-- again safely. The seed's ON CONFLICT DO NOTHING had no key to conflict on,
+-- so re-running it added every player again; those copies are merged here.
+-- =============================================================================
+
+-- =============================================================================
+-- CLEANUP
+-- =============================================================================
+
+-- The oldest row of each (pack_id, name) is kept
+CREATE TEMP TABLE duplicate_players AS
+SELECT p.id, k.id AS keep_id
+FROM players p
+JOIN LATERAL (
+    SELECT o.id
+    FROM players o
+    WHERE o.pack_id = p.pack_id AND o.name = p.name
+    ORDER BY o.created_at ASC, o.id ASC
+    LIMIT 1
+) k ON k.id <> p.id;
+
+-- Move answers given to a copy onto the kept player, unless the user already
+-- has progress on it in that mode. Of several copies, the best score moves
+UPDATE user_progress up SET player_id = m.keep_id
+FROM (
+    SELECT DISTINCT ON (c.user_id, d.keep_id, c.game_mode) c.id, d.keep_id
+    FROM user_progress c
+    JOIN duplicate_players d ON d.id = c.player_id
+    WHERE NOT EXISTS (
+        SELECT 1 FROM user_progress o
+        WHERE o.user_id = c.user_id AND o.player_id = d.keep_id AND o.game_mode = c.game_mode
+    )
+    ORDER BY c.user_id, d.keep_id, c.game_mode, c.score_earned DESC, c.completed_at ASC
+) m
+WHERE up.id = m.id;
+
+UPDATE daily_challenge_results r SET player_id = d.keep_id
+FROM duplicate_players d
+WHERE r.player_id = d.id;
+
+DELETE FROM players p USING duplicate_players d WHERE p.id = d.id;
+
+DROP TABLE duplicate_players;
+
+-- =============================================================================
+-- TABLE CHANGES
+-- =============================================================================
+
+ALTER TABLE players ADD CONSTRAINT players_pack_id_name_key UNIQUE (pack_id, name);
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Players are unique by name within a pack';
+END $$;
@@ -0,0 +1,245 @@
+-- =============================================================================
+-- Football IQ Derived Pack Metadata Migration
+-- =============================================================================
+-- packs.question_count and the pack's difficulty range were written by hand
+-- and drifted from the players they describe. They are now derived from the
+-- players whenever one is added, moved, deleted or changes difficulty:
+--   - difficulty_range (free text, e.g. "2-5") becomes difficulty_min and
+--     difficulty_max, NULL while the pack has no players
+--   - values written directly are replaced by the derived ones
+--   - get_pack_with_players returns the pack's real metadata and timestamps
+-- =============================================================================
+
+-- =============================================================================
+-- TABLE CHANGES
+-- =============================================================================
+
+ALTER TABLE packs DROP COLUMN difficulty_range;
+ALTER TABLE packs ADD COLUMN difficulty_min INTEGER;
+ALTER TABLE packs ADD COLUMN difficulty_max INTEGER;
+
+ALTER TABLE packs ADD CONSTRAINT packs_difficulty_range_check CHECK (
+    (difficulty_min IS NULL AND difficulty_max IS NULL)
+    OR (difficulty_min BETWEEN 1 AND 5 AND difficulty_max BETWEEN difficulty_min AND 5)
+);
+
+COMMENT ON COLUMN packs.question_count IS 'Number of players in the pack. Maintained from players';
+COMMENT ON COLUMN packs.difficulty_min IS 'Lowest player difficulty in the pack, NULL if empty. Maintained from players';
+COMMENT ON COLUMN packs.difficulty_max IS 'Highest player difficulty in the pack, NULL if empty. Maintained from players';
+
+-- =============================================================================
+-- DATABASE FUNCTIONS
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Function: derive_pack_metadata
+-- Trigger function setting a pack's question_count and difficulty range from
+-- its players, whatever the write asked for
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION derive_pack_metadata()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT COUNT(*)::INTEGER, MIN(pl.difficulty), MAX(pl.difficulty)
+    INTO NEW.question_count, NEW.difficulty_min, NEW.difficulty_max
+    FROM players pl
+    WHERE pl.pack_id = NEW.id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: refresh_pack_metadata
+-- Re-derives a pack's metadata after its players changed. Packs already up to
+-- date aren't touched, so their updated_at (and content sync) stays put
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION refresh_pack_metadata(p_pack_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE packs pk SET
+        question_count = s.question_count,
+        difficulty_min = s.difficulty_min,
+        difficulty_max = s.difficulty_max
+    FROM (
+        SELECT
+            COUNT(*)::INTEGER AS question_count,
+            MIN(pl.difficulty) AS difficulty_min,
+            MAX(pl.difficulty) AS difficulty_max
+        FROM players pl
+        WHERE pl.pack_id = p_pack_id
+    ) s
+    WHERE pk.id = p_pack_id
+        AND (pk.question_count, pk.difficulty_min, pk.difficulty_max)
+            IS DISTINCT FROM (s.question_count, s.difficulty_min, s.difficulty_max);
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- -----------------------------------------------------------------------------
+-- Function: refresh_player_pack_metadata
+-- Trigger function keeping pack metadata in step with its players
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION refresh_player_pack_metadata()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        -- A pack being deleted no longer exists, so there is nothing to update
+        PERFORM refresh_pack_metadata(OLD.pack_id);
+    END IF;
+    IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.pack_id <> OLD.pack_id) THEN
+        PERFORM refresh_pack_metadata(NEW.pack_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION refresh_pack_metadata(UUID) FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- Function: get_pack_with_players
+-- Redefined to return the pack's full metadata and the real timestamps
+-- -----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS get_pack_with_players(TEXT);
+
+CREATE OR REPLACE FUNCTION get_pack_with_players(p_slug TEXT)
+RETURNS TABLE(
+    pack_id UUID,
+    pack_name TEXT,
+    pack_description TEXT,
+    pack_slug TEXT,
+    pack_price DECIMAL,
+    pack_is_free BOOLEAN,
+    pack_difficulty_min INTEGER,
+    pack_difficulty_max INTEGER,
+    pack_question_count INTEGER,
+    pack_store_product_id TEXT,
+    pack_created_at TIMESTAMPTZ,
+    pack_updated_at TIMESTAMPTZ,
+    player_id UUID,
+    player_nationality TEXT,
+    player_position TEXT,
+    player_career_path JSONB,
+    player_hints JSONB,
+    player_difficulty INTEGER,
+    player_answer_hashes TEXT[],
+    player_created_at TIMESTAMPTZ,
+    player_updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.name,
+        p.description,
+        p.slug,
+        p.price,
+        p.is_free,
+        p.difficulty_min,
+        p.difficulty_max,
+        p.question_count,
+        p.store_product_id,
+        p.created_at,
+        p.updated_at,
+        pl.id,
+        pl.nationality,
+        pl.position,
+        pl.career_path,
+        pl.hints,
+        pl.difficulty,
+        pl.answer_hashes,
+        pl.created_at,
+        pl.updated_at
+    FROM packs p
+    LEFT JOIN players pl ON pl.pack_id = p.id
+    WHERE p.slug = p_slug
+    ORDER BY pl.difficulty ASC, pl.id ASC;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- -----------------------------------------------------------------------------
+-- Function: get_pack_preview
+-- Redefined with the difficulty range as a min/max pair
+-- -----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS get_pack_preview(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION get_pack_preview(p_slug TEXT, p_sample_size INTEGER DEFAULT 3)
+RETURNS TABLE(
+    pack_id UUID,
+    pack_name TEXT,
+    pack_description TEXT,
+    pack_slug TEXT,
+    pack_price DECIMAL,
+    pack_is_free BOOLEAN,
+    pack_difficulty_min INTEGER,
+    pack_difficulty_max INTEGER,
+    pack_question_count INTEGER,
+    pack_store_product_id TEXT,
+    pack_created_at TIMESTAMPTZ,
+    pack_updated_at TIMESTAMPTZ,
+    player_id UUID,
+    player_nationality TEXT,
+    player_position TEXT,
+    player_career_path JSONB,
+    player_difficulty INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.name,
+        p.description,
+        p.slug,
+        p.price,
+        p.is_free,
+        p.difficulty_min,
+        p.difficulty_max,
+        p.question_count,
+        p.store_product_id,
+        p.created_at,
+        p.updated_at,
+        s.id,
+        s.nationality,
+        s.position,
+        s.career_path,
+        s.difficulty
+    FROM packs p
+    LEFT JOIN LATERAL (
+        SELECT pl.id, pl.nationality, pl.position, pl.career_path, pl.difficulty
+        FROM players pl
+        WHERE pl.pack_id = p.id
+        ORDER BY pl.difficulty ASC, pl.id ASC
+        LIMIT LEAST(GREATEST(COALESCE(p_sample_size, 3), 0), 5)
+    ) s ON TRUE
+    WHERE p.slug = p_slug
+    ORDER BY s.difficulty ASC, s.id ASC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- TRIGGERS
+-- =============================================================================
+
+CREATE TRIGGER derive_packs_metadata
+    BEFORE INSERT OR UPDATE OF question_count, difficulty_min, difficulty_max ON packs
+    FOR EACH ROW
+    EXECUTE FUNCTION derive_pack_metadata();
+
+CREATE TRIGGER refresh_players_pack_metadata
+    AFTER INSERT OR DELETE OR UPDATE OF difficulty, pack_id ON players
+    FOR EACH ROW
+    EXECUTE FUNCTION refresh_player_pack_metadata();
+
+-- =============================================================================
+-- BACKFILL
+-- =============================================================================
+
+SELECT refresh_pack_metadata(pk.id) FROM packs pk;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Pack question_count and difficulty range are now derived from players';
+END $$;